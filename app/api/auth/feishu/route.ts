@@ -0,0 +1,49 @@
+/**
+ * =====================================================
+ * 飞书用户登录API (app/api/auth/feishu/route.ts)
+ * =====================================================
+ *
+ * 识别在飞书中打开地图的用户（见 lib/feishu/user-auth.ts、lib/session.ts）
+ *
+ * 访问方式: GET /api/auth/feishu
+ * 返回格式: JSON { user: { openId, name } | null, appId }（appId 供页面调用 JSSDK 的 requestAuthCode）
+ *
+ * 登录: POST /api/auth/feishu
+ * 请求体: { code }（JSSDK requestAuthCode 返回的临时授权码）
+ * 返回格式: JSON { user: { openId, name } }，同时写入登录 Cookie
+ * =====================================================
+ */
+
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { exchangeAuthCode } from "@/lib/feishu/user-auth"
+import { createSessionCookie, getSessionUser } from "@/lib/session"
+
+export const runtime = "nodejs"
+
+const loginSchema = z.object({
+  code: z.string({ required_error: "缺少授权码" }).trim().min(1, "缺少授权码"),
+})
+
+export async function GET(request: Request) {
+  return NextResponse.json(
+    { user: getSessionUser(request), appId: process.env.FEISHU_APP_ID || null },
+    { headers: { "Cache-Control": "private, no-store" } }
+  )
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  const parsed = loginSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "请求参数无效" }, { status: 400 })
+  }
+
+  try {
+    const user = await exchangeAuthCode(parsed.data.code)
+    return NextResponse.json({ user }, { headers: { "Set-Cookie": createSessionCookie(user) } })
+  } catch (error: any) {
+    console.error("飞书登录失败:", error)
+    return NextResponse.json({ error: error?.message || "飞书登录失败" }, { status: 401 })
+  }
+}
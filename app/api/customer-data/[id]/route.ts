@@ -0,0 +1,47 @@
+/**
+ * =====================================================
+ * 单条客户数据API (app/api/customer-data/[id]/route.ts)
+ * =====================================================
+ *
+ * 编辑巡店记录并写回飞书多维表格，需要在飞书中登录（见 /api/auth/feishu），未登录时返回 401
+ *
+ * 访问方式: PATCH /api/customer-data/:record_id
+ * 请求体: 需要修改的字段，如 { discountprice: "买二送一" }
+ * 返回格式: JSON { customer: {...} }，记录不存在时返回 404
+ * =====================================================
+ */
+
+import { NextResponse } from "next/server"
+import { getMissingEnvVars } from "@/lib/feishu/client"
+import { FieldWriteError, RecordNotFoundError, recordPatchSchema, updateCustomerRecord } from "@/lib/feishu/write"
+import { getSessionUser } from "@/lib/session"
+
+export const runtime = "nodejs"
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  if (!getSessionUser(request)) {
+    return NextResponse.json({ error: "请在飞书中打开地图后再编辑记录" }, { status: 401 })
+  }
+  const missing = getMissingEnvVars()
+  if (missing.length) {
+    return NextResponse.json({ error: `缺少环境变量: ${missing.join(", ")}` }, { status: 400 })
+  }
+
+  const { id } = await params
+  const body = await request.json().catch(() => null)
+  const parsed = recordPatchSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "请求参数无效" }, { status: 400 })
+  }
+
+  try {
+    const customer = await updateCustomerRecord(id, parsed.data)
+    return NextResponse.json({ customer })
+  } catch (error: any) {
+    if (error instanceof RecordNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    console.error("更新记录失败:", error)
+    return NextResponse.json({ error: error?.message || "更新记录失败" }, { status: error instanceof FieldWriteError ? 400 : 500 })
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * =====================================================
+ * 客户数据变化推送 (app/api/customer-data/events/route.ts)
+ * =====================================================
+ *
+ * Server-Sent Events 接口，地图打开后保持连接，实时接收记录的新增/修改/删除
+ *
+ * 访问方式: GET /api/customer-data/events
+ * 事件格式:
+ *   event: change
+ *   data: { upserted: [...], deleted: ["recXXX"] }
+ * =====================================================
+ */
+
+import { subscribeRecordChanges } from "@/lib/feishu/record-stream"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+// 心跳间隔，防止代理/飞书容器断开空闲连接
+const HEARTBEAT_MS = 25 * 1000
+
+export async function GET(request: Request) {
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch (e) {
+          cleanup()
+        }
+      }
+
+      const unsubscribe = subscribeRecordChanges((change) => {
+        write(`event: change\ndata: ${JSON.stringify(change)}\n\n`)
+      })
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS)
+
+      cleanup = () => {
+        unsubscribe()
+        clearInterval(heartbeat)
+      }
+
+      request.signal.addEventListener("abort", () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch (e) {}
+      })
+
+      write("retry: 5000\n\n")
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
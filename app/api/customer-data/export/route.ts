@@ -0,0 +1,60 @@
+/**
+ * =====================================================
+ * 记录导出API (app/api/customer-data/export/route.ts)
+ * =====================================================
+ *
+ * 按筛选条件在服务端生成导出文件，浏览器直接下载，
+ * 记录再多也不需要先加载到页面里
+ *
+ * 访问方式: GET /api/customer-data/export?format=xlsx|csv|geojson|kml&region=&brand=&q=&from=&to=&bbox=
+ * （筛选参数与 /api/customer-data 相同，见 lib/customer-query.ts；导出全部符合条件的记录，忽略分页参数）
+ * 返回格式: 文件下载，格式说明见 lib/export.ts
+ * =====================================================
+ */
+
+import { NextResponse } from "next/server"
+import { type CustomerQuery, parseCustomerQuery, queryCustomers } from "@/lib/customer-query"
+import { type ExportFormat, EXPORT_FORMATS, exportCustomers, exportFileName } from "@/lib/export"
+import { getMissingEnvVars } from "@/lib/feishu/client"
+import { getCustomerDataset } from "@/lib/feishu/customers"
+
+export const runtime = "nodejs"
+
+export async function GET(request: Request) {
+  const missing = getMissingEnvVars()
+  if (missing.length) {
+    return NextResponse.json({ error: `缺少环境变量: ${missing.join(", ")}` }, { status: 400 })
+  }
+
+  const params = new URL(request.url).searchParams
+  const format = (params.get("format") || "xlsx") as ExportFormat
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({ error: `不支持的导出格式: ${format}` }, { status: 400 })
+  }
+
+  let query: CustomerQuery
+  try {
+    query = parseCustomerQuery(params)
+  } catch (error: any) {
+    return NextResponse.json({ error: error?.message || "查询参数无效" }, { status: 400 })
+  }
+
+  try {
+    const { customers } = await getCustomerDataset()
+    const matched = queryCustomers(customers, { ...query, limit: null, offset: 0 }).customers
+    const file = await exportCustomers(matched, format)
+
+    // filename 兼容旧浏览器，filename* 带中文文件名
+    const name = `${exportFileName()}.${file.extension}`
+    return new NextResponse(file.body as BodyInit, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="export.${file.extension}"; filename*=UTF-8''${encodeURIComponent(name)}`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error: any) {
+    console.error("导出记录失败:", error)
+    return NextResponse.json({ error: error?.message || "导出记录失败" }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * =====================================================
+ * 数据质量API (app/api/data-quality/route.ts)
+ * =====================================================
+ *
+ * 无法展示的记录及原因，以及可疑记录（见 lib/data-quality.ts）
+ *
+ * 访问方式: GET /api/data-quality
+ * 返回格式: JSON { generatedAt, total, sources: [{ id, displayName, color }], rejected: [...], suspicious: [...], counts }
+ * =====================================================
+ */
+
+import { NextResponse } from "next/server"
+import { getQualityReport } from "@/lib/data-quality"
+import { getMissingEnvVars } from "@/lib/feishu/client"
+
+export const runtime = "nodejs"
+
+export async function GET() {
+  const missing = getMissingEnvVars()
+  if (missing.length) {
+    return NextResponse.json({ error: `缺少环境变量: ${missing.join(", ")}` }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await getQualityReport(), { headers: { "Cache-Control": "private, no-cache" } })
+  } catch (error: any) {
+    console.error("生成数据质量报告失败:", error)
+    return NextResponse.json({ error: error?.message || "生成数据质量报告失败" }, { status: 500 })
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * =====================================================
+ * 飞书事件回调 (app/api/feishu/events/route.ts)
+ * =====================================================
+ *
+ * 接收多维表格记录变化事件，更新服务端记录缓存，并通过 SSE 推送给打开着的地图
+ *
+ * 访问方式: POST /api/feishu/events（在飞书开发者后台配置为"请求地址"）
+ *
+ * 处理流程:
+ * 1. FEISHU_ENCRYPT_KEY 和 FEISHU_VERIFICATION_TOKEN 都没有配置时拒绝（503）
+ * 2. 配置了 FEISHU_ENCRYPT_KEY 时校验签名并解密
+ * 3. url_verification 请求原样返回 challenge
+ * 4. 校验 Verification Token，拒绝过期的事件和已处理过的 event_id（见 lib/feishu/events.ts）
+ * 5. 按 file_token / table_id 找到对应的数据源（见 lib/feishu/sources.ts），未登记的表格忽略
+ * 6. 按 record_id 拉取新增/修改的记录，合并进缓存，按完整的处理流程（门店归并、地址坐标补全）转换后广播
+ *
+ * 注意: 应用需先订阅多维表格文档的事件
+ * (POST /drive/v1/files/:app_token/subscribe?file_type=bitable)
+ * =====================================================
+ */
+
+import { NextResponse } from "next/server"
+import { getRecordsByIds } from "@/lib/feishu/client"
+import { applyAndPublishRecordChanges } from "@/lib/feishu/customers"
+import { decryptEvent, isFreshEvent, markEventHandled, parseRecordChangeEvent, releaseEvent, verifySignature, verifyToken } from "@/lib/feishu/events"
+import { findSourceByTable, getPrimarySource } from "@/lib/feishu/sources"
+
+export const runtime = "nodejs"
+
+export async function POST(req: Request) {
+  const encryptKey = process.env.FEISHU_ENCRYPT_KEY || ""
+  const verificationToken = process.env.FEISHU_VERIFICATION_TOKEN || ""
+  if (!encryptKey && !verificationToken) {
+    return NextResponse.json({ error: "缺少环境变量: FEISHU_VERIFICATION_TOKEN 或 FEISHU_ENCRYPT_KEY" }, { status: 503 })
+  }
+
+  const rawBody = await req.text()
+
+  let payload: any
+  try {
+    payload = JSON.parse(rawBody)
+    if (payload?.encrypt) {
+      if (!encryptKey) {
+        return NextResponse.json({ error: "收到加密事件，但未配置FEISHU_ENCRYPT_KEY" }, { status: 400 })
+      }
+      payload = decryptEvent(payload.encrypt, encryptKey)
+    }
+  } catch (error) {
+    return NextResponse.json({ error: "无法解析事件内容" }, { status: 400 })
+  }
+
+  // 配置地址时的 challenge 校验
+  if (payload?.type === "url_verification") {
+    if (verificationToken && !verifyToken(payload, verificationToken)) {
+      return NextResponse.json({ error: "Verification Token 不匹配" }, { status: 401 })
+    }
+    return NextResponse.json({ challenge: payload.challenge })
+  }
+
+  // 普通事件：校验签名和 token
+  if (encryptKey && !verifySignature(req.headers, rawBody, encryptKey)) {
+    return NextResponse.json({ error: "签名校验失败" }, { status: 401 })
+  }
+  if (verificationToken && !verifyToken(payload, verificationToken)) {
+    return NextResponse.json({ error: "Verification Token 不匹配" }, { status: 401 })
+  }
+  if (!isFreshEvent(req.headers, payload)) {
+    return NextResponse.json({ error: "事件时间缺失或已过期" }, { status: 401 })
+  }
+
+  // 飞书会重试未及时响应的事件，按 event_id 去重（同时防止重放）
+  const eventId = payload?.header?.event_id || payload?.uuid
+  if (!eventId) {
+    return NextResponse.json({ error: "缺少 event_id" }, { status: 400 })
+  }
+  if (!markEventHandled(eventId)) {
+    return NextResponse.json({ ok: true, duplicate: true })
+  }
+
+  const actions = parseRecordChangeEvent(payload)
+  if (!actions) {
+    // 其他事件类型直接确认，避免飞书重试
+    return NextResponse.json({ ok: true, ignored: true })
+  }
+
+  // 事件中没有 table_id 时按第一个数据源处理
+  const source = actions.tableId ? findSourceByTable(actions.fileToken, actions.tableId) : getPrimarySource()
+  if (!source) {
+    return NextResponse.json({ ok: true, ignored: true })
+  }
+
+  try {
+    const records = actions.upsertedIds.length ? await getRecordsByIds(source, actions.upsertedIds) : []
+    // 转换失败的记录（如定位被清空）在地图上也要移除
+    const { upserted, deleted } = await applyAndPublishRecordChanges(source, records, actions.deletedIds)
+    console.log(`[${source.id}] 记录变化事件: 更新 ${upserted.length} 条, 删除 ${deleted.length} 条`)
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error("处理记录变化事件失败:", error)
+    releaseEvent(eventId)
+    return NextResponse.json({ error: error?.message || "处理事件失败" }, { status: 500 })
+  }
+}
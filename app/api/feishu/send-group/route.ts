@@ -0,0 +1,131 @@
+/**
+ * =====================================================
+ * 发送筛选结果到飞书群 (app/api/feishu/send-group/route.ts)
+ * =====================================================
+ *
+ * 按筛选条件在服务端查询记录，统计记录数和主要竞品产品、生成 AI 分析（见 lib/ai-summary.ts），
+ * 组装成交互式卡片，通过群机器人 Webhook 发送到飞书群（需配置 FEISHU_BOT_WEBHOOK，开启签名校验时配置 FEISHU_BOT_SECRET）
+ * 卡片内容全部由服务端生成，不接受页面传来的文字；需要在飞书中登录（见 /api/auth/feishu），卡片中注明发送人
+ *
+ * 访问方式: POST /api/feishu/send-group
+ * 请求体: { filters: { regions, brands, sources, q, from, to, shape }, bbox? }（bbox 为地图视野 [西, 南, 东, 北]，AI 只分析视野内的记录）
+ * 返回格式: JSON { ok: true, summary }
+ *
+ * 卡片中的"在地图中查看"链接指向 APP_BASE_URL（未配置时为当前访问地址），带上相同的筛选条件
+ * =====================================================
+ */
+
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { type SummaryFilters, getAiConfigError, summarizeCustomers } from "@/lib/ai-summary"
+import { type CustomerQuery, parseCustomerQuery, queryCustomers } from "@/lib/customer-query"
+import { isBotConfigured, sendBotMessage } from "@/lib/feishu/bot"
+import { buildFilteredResultCard } from "@/lib/feishu/cards"
+import { getMissingEnvVars } from "@/lib/feishu/client"
+import { getCustomerDataset } from "@/lib/feishu/customers"
+import { getDataSource } from "@/lib/feishu/sources"
+import { toMapSearchParams } from "@/lib/map-url"
+import { getSessionUser } from "@/lib/session"
+import { type MapShape, describeShape, mapShapeSchema } from "@/lib/shapes"
+
+export const runtime = "nodejs"
+
+// 卡片中列出的主要竞品产品数
+const TOP_PRODUCTS = 5
+
+const sendGroupSchema = z.object({
+  filters: z.object({
+    regions: z.array(z.string()).default([]),
+    brands: z.array(z.string()).default([]),
+    sources: z.array(z.string()).default([]),
+    q: z.string().default(""),
+    from: z.string().default(""),
+    to: z.string().default(""),
+    shape: mapShapeSchema.nullable().default(null),
+  }),
+  bbox: z
+    .tuple([z.number(), z.number(), z.number(), z.number()])
+    .nullable()
+    .default(null),
+})
+
+export async function POST(request: Request) {
+  const user = getSessionUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "请在飞书中打开地图后再发送到飞书群" }, { status: 401 })
+  }
+  if (!isBotConfigured()) {
+    return NextResponse.json({ error: "缺少环境变量: FEISHU_BOT_WEBHOOK" }, { status: 400 })
+  }
+  const missing = getMissingEnvVars()
+  const configError = missing.length ? `缺少环境变量: ${missing.join(", ")}` : getAiConfigError()
+  if (configError) {
+    return NextResponse.json({ error: configError }, { status: 500 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = sendGroupSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "请求参数无效" }, { status: 400 })
+  }
+  const { bbox } = parsed.data
+  const filters = { ...parsed.data.filters, shape: parsed.data.filters.shape as MapShape | null }
+
+  const filterParams = toMapSearchParams(filters)
+  let query: CustomerQuery
+  try {
+    query = { ...parseCustomerQuery(filterParams), limit: null, offset: 0 }
+  } catch (error: any) {
+    return NextResponse.json({ error: error?.message || "筛选条件无效" }, { status: 400 })
+  }
+
+  const base = (process.env.APP_BASE_URL || new URL(request.url).origin).replace(/\/+$/, "")
+  const link = filterParams.toString() ? `${base}/?${filterParams}` : `${base}/`
+  const sourceNames = filters.sources.map((id) => getDataSource(id)?.displayName || id)
+  const shape = filters.shape ? describeShape(filters.shape) : ""
+
+  try {
+    const { customers } = await getCustomerDataset()
+    const matched = queryCustomers(customers, query)
+    // 与地图上的 AI 分析一致: 只分析视野内的记录
+    const analyzed = bbox ? queryCustomers(customers, { ...query, bbox }).customers : matched.customers
+
+    const productCount = new Map<string, number>()
+    for (const c of analyzed) {
+      const product = c.productName || "未知"
+      productCount.set(product, (productCount.get(product) || 0) + 1)
+    }
+    const topProducts = [...productCount]
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, TOP_PRODUCTS)
+      .map(([name, count]) => ({ name, count }))
+
+    const dataSummary: SummaryFilters = {
+      总数: analyzed.length,
+      搜索关键词: filters.q || "无",
+      省区筛选: filters.regions.join("、") || "无",
+      品牌筛选: filters.brands.join("、") || "无",
+      范围: shape || "不限",
+      记录日期: filters.from || filters.to ? `${filters.from || "不限"} 至 ${filters.to || "不限"}` : "不限",
+    }
+    const summary = analyzed.length ? await summarizeCustomers(analyzed, dataSummary) : "当前范围内没有记录"
+
+    await sendBotMessage(
+      buildFilteredResultCard({
+        ...filters,
+        sourceNames,
+        shape,
+        total: matched.total,
+        analyzed: analyzed.length,
+        topProducts,
+        summary,
+        sender: user.name,
+        link,
+      })
+    )
+    return NextResponse.json({ ok: true, summary })
+  } catch (error: any) {
+    console.error("发送到飞书群失败:", error)
+    return NextResponse.json({ error: error?.message || "发送到飞书群失败" }, { status: 502 })
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * =====================================================
+ * 批量导入预览API (app/api/import/preview/route.ts)
+ * =====================================================
+ *
+ * 上传 Excel / CSV 文件，逐行校验并返回每一行的结果（不写入）
+ * 没有经纬度但有地址的行会尝试解析地址（见 lib/import.ts）
+ * 需要在飞书中登录（见 /api/auth/feishu），未登录时返回 401
+ *
+ * 访问方式: POST /api/import/preview（multipart/form-data，字段 file；可选字段 source 为目标数据源 id，默认第一个数据源）
+ * 返回格式: JSON { columns, rows: [{ row, name, input, errors, geocode }], total, valid, geocoded }
+ * =====================================================
+ */
+
+import { NextResponse } from "next/server"
+import { getDataSource, getPrimarySource } from "@/lib/feishu/sources"
+import { IMPORT_MAX_BYTES, previewImport } from "@/lib/import"
+import { getSessionUser } from "@/lib/session"
+
+export const runtime = "nodejs"
+
+export async function POST(request: Request) {
+  if (!getSessionUser(request)) {
+    return NextResponse.json({ error: "请在飞书中打开本页面后再导入" }, { status: 401 })
+  }
+  const form = await request.formData().catch(() => null)
+  const file = form?.get("file")
+  if (!file || typeof file === "string") {
+    return NextResponse.json({ error: "请选择要导入的文件" }, { status: 400 })
+  }
+  if (file.size > IMPORT_MAX_BYTES) {
+    return NextResponse.json({ error: `文件不能超过 ${IMPORT_MAX_BYTES / 1024 / 1024}MB` }, { status: 400 })
+  }
+
+  const sourceId = form?.get("source")
+  const source = typeof sourceId === "string" && sourceId ? getDataSource(sourceId) : getPrimarySource()
+  if (!source) {
+    return NextResponse.json({ error: `未知的数据源: ${sourceId}` }, { status: 400 })
+  }
+
+  try {
+    const preview = await previewImport(new Uint8Array(await file.arrayBuffer()), file.name, source)
+    return NextResponse.json(preview)
+  } catch (error: any) {
+    // 这里的错误基本都来自文件内容（格式、表头、行数），按请求错误返回
+    console.error("读取导入文件失败:", error)
+    return NextResponse.json({ error: error?.message || "读取导入文件失败" }, { status: 400 })
+  }
+}
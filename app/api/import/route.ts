@@ -0,0 +1,89 @@
+/**
+ * =====================================================
+ * 批量导入API (app/api/import/route.ts)
+ * =====================================================
+ *
+ * 把预览中校验通过的记录批量写入飞书多维表格，需要在飞书中登录（见 /api/auth/feishu），未登录时返回 401
+ *
+ * 带 importId 时按行号记录已写入的行（见 lib/import.ts）: 中途失败后用同一个 importId 重试，
+ * 已写入的行会跳过，不会重复新增
+ *
+ * 访问方式: POST /api/import
+ * 请求体: { source?, importId?, records: [{ row, name, coordinates: [经度, 纬度], ... }] }
+ *   records 为预览结果中校验通过的行（row 为行号，其余为 input），source 为目标数据源 id，默认第一个数据源
+ *   importId 为页面在每次预览后生成的 UUID
+ * 返回格式: JSON { created, skipped, recordIds }（skipped 为之前已写入而跳过的行数）
+ *   写入失败时: JSON { error, createdRows }（createdRows 为本次已写入的行号）
+ * =====================================================
+ */
+
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { getMissingEnvVars } from "@/lib/feishu/client"
+import { getDataSource, getPrimarySource } from "@/lib/feishu/sources"
+import { FieldWriteError, createCustomerRecords, recordInputSchema } from "@/lib/feishu/write"
+import { IMPORT_MAX_ROWS, getImportedRows, markRowsImported } from "@/lib/import"
+import { getSessionUser } from "@/lib/session"
+
+export const runtime = "nodejs"
+
+const importSchema = z.object({
+  source: z.string().optional(),
+  importId: z.string().uuid("importId 无效").optional(),
+  records: z
+    .array(recordInputSchema.extend({ row: z.number().int().positive() }))
+    .min(1, "没有可导入的记录")
+    .max(IMPORT_MAX_ROWS, `一次最多导入 ${IMPORT_MAX_ROWS} 条`)
+    .refine((records) => new Set(records.map((r) => r.row)).size === records.length, "行号重复"),
+})
+
+export async function POST(request: Request) {
+  if (!getSessionUser(request)) {
+    return NextResponse.json({ error: "请在飞书中打开本页面后再导入" }, { status: 401 })
+  }
+  const missing = getMissingEnvVars()
+  if (missing.length) {
+    return NextResponse.json({ error: `缺少环境变量: ${missing.join(", ")}` }, { status: 400 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = importSchema.safeParse(body)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    const index = issue?.path[0] === "records" && typeof issue.path[1] === "number" ? `第 ${issue.path[1] + 1} 条: ` : ""
+    return NextResponse.json({ error: `${index}${issue?.message || "请求参数无效"}` }, { status: 400 })
+  }
+
+  const { source: sourceId, importId, records } = parsed.data
+  const source = sourceId ? getDataSource(sourceId) : getPrimarySource()
+  if (!source) {
+    return NextResponse.json({ error: `未知的数据源: ${sourceId}` }, { status: 400 })
+  }
+
+  const createdRows: number[] = []
+  try {
+    const imported = importId ? await getImportedRows(importId) : {}
+    const pending = records.filter((r) => !imported[String(r.row)])
+
+    const recordIds = await createCustomerRecords(
+      pending.map(({ row, ...input }) => input),
+      source,
+      async (ids, start) => {
+        const rows = pending.slice(start, start + ids.length).map((r) => r.row)
+        createdRows.push(...rows)
+        if (importId) await markRowsImported(importId, rows, ids)
+      }
+    )
+    return NextResponse.json({ created: recordIds.length, skipped: records.length - pending.length, recordIds }, { status: 201 })
+  } catch (error: any) {
+    console.error("批量导入失败:", error)
+    const message = error?.message || "批量导入失败"
+    return NextResponse.json(
+      {
+        error: createdRows.length ? `${message}（已写入 ${createdRows.length} 行${importId ? "，重试时会跳过" : ""}）` : message,
+        createdRows,
+      },
+      { status: error instanceof FieldWriteError ? 400 : 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * =====================================================
+ * 周边竞品分析API (app/api/own-stores/competition/route.ts)
+ * =====================================================
+ *
+ * 每家自有门店 radius 公里内的竞品记录数、竞品门店数、各品牌记录数和最近的竞品（见 lib/own-stores.ts）
+ * 竞品记录按与 /api/customer-data 相同的筛选参数过滤（不按地图范围 bbox 过滤）
+ *
+ * 访问方式: GET /api/own-stores/competition?radius=3&ownStore=&region=&brand=&source=&q=&from=&to=
+ * - radius: 半径（公里），默认 3
+ * - ownStore: 自有门店 id，传入时附带该门店半径内的全部竞品记录（近的在前）
+ * 返回格式: JSON { radiusKm, stores: [{ storeId, records, stores, brands, nearest }], competitors? }
+ * =====================================================
+ */
+
+import { NextResponse } from "next/server"
+import { type CustomerQuery, parseCustomerQuery, queryCustomers } from "@/lib/customer-query"
+import { getMissingEnvVars } from "@/lib/feishu/client"
+import { getCustomerDataset } from "@/lib/feishu/customers"
+import {
+  DEFAULT_COMPETITION_RADIUS_KM,
+  MAX_COMPETITION_RADIUS_KM,
+  analyzeCompetition,
+  findNearbyCompetitors,
+  getOwnStores,
+} from "@/lib/own-stores"
+
+export const runtime = "nodejs"
+
+export async function GET(request: Request) {
+  const missing = getMissingEnvVars()
+  if (missing.length) {
+    return NextResponse.json({ error: `缺少环境变量: ${missing.join(", ")}` }, { status: 400 })
+  }
+
+  const params = new URL(request.url).searchParams
+  const radiusKm = params.has("radius") ? Number(params.get("radius")) : DEFAULT_COMPETITION_RADIUS_KM
+  if (!Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > MAX_COMPETITION_RADIUS_KM) {
+    return NextResponse.json({ error: `radius 应为 0 ~ ${MAX_COMPETITION_RADIUS_KM} 公里` }, { status: 400 })
+  }
+
+  let query: CustomerQuery
+  try {
+    query = { ...parseCustomerQuery(params), bbox: null, limit: null, offset: 0 }
+  } catch (error: any) {
+    return NextResponse.json({ error: error?.message || "查询参数无效" }, { status: 400 })
+  }
+
+  try {
+    const list = await getOwnStores()
+    if (!list) return NextResponse.json({ error: "没有配置自有门店" }, { status: 404 })
+
+    const ownStoreId = params.get("ownStore")
+    const ownStore = ownStoreId ? list.stores.find((s) => s.id === ownStoreId) : undefined
+    if (ownStoreId && !ownStore) {
+      return NextResponse.json({ error: `找不到自有门店: ${ownStoreId}` }, { status: 404 })
+    }
+
+    const { customers } = queryCustomers((await getCustomerDataset()).customers, query)
+    return NextResponse.json(
+      {
+        radiusKm,
+        stores: analyzeCompetition(list.stores, customers, radiusKm),
+        ...(ownStore && { competitors: findNearbyCompetitors(ownStore, customers, radiusKm) }),
+      },
+      { headers: { "Cache-Control": "private, no-cache" } }
+    )
+  } catch (error: any) {
+    console.error("周边竞品分析失败:", error)
+    return NextResponse.json({ error: error?.message || "周边竞品分析失败" }, { status: 500 })
+  }
+}
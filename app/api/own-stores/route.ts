@@ -0,0 +1,28 @@
+/**
+ * =====================================================
+ * 自有门店API (app/api/own-stores/route.ts)
+ * =====================================================
+ *
+ * 自有门店图层的数据（来源配置见 lib/feishu/sources.ts，读取见 lib/own-stores.ts）
+ *
+ * 访问方式: GET /api/own-stores
+ * 返回格式: JSON { configured, displayName, stores: [{ id, name, coordinates, address, region }], skipped }
+ * 没有配置自有门店时返回 { configured: false, stores: [] }
+ * =====================================================
+ */
+
+import { NextResponse } from "next/server"
+import { getOwnStores } from "@/lib/own-stores"
+
+export const runtime = "nodejs"
+
+export async function GET() {
+  try {
+    const list = await getOwnStores()
+    if (!list) return NextResponse.json({ configured: false, stores: [] })
+    return NextResponse.json({ configured: true, ...list }, { headers: { "Cache-Control": "private, no-cache" } })
+  } catch (error: any) {
+    console.error("读取自有门店失败:", error)
+    return NextResponse.json({ error: error?.message || "读取自有门店失败" }, { status: 500 })
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * =====================================================
+ * 价格变动摘要推送 (app/api/price-alerts/digest/route.ts)
+ * =====================================================
+ *
+ * 把最近的价格变动汇总后推送到飞书群机器人，供定时任务调用
+ *
+ * 访问方式: POST /api/price-alerts/digest?days=1&region=&brand=
+ * - days: 统计最近几个完整自然日（北京时间，不含今天）的巡店，默认 1，即昨天；
+ *   每天定时调用一次时，相邻两次的日期范围不重叠，同一条动态不会重复推送
+ * - 传了 from / to 时以 from / to 为准
+ * - 其他筛选参数与 /api/customer-data 相同
+ * 返回格式: JSON { sent: boolean, count }
+ *
+ * 环境变量:
+ * - FEISHU_BOT_WEBHOOK / FEISHU_BOT_SECRET: 群机器人地址和签名密钥
+ * - PRICE_ALERT_DIGEST_TOKEN: 请求需带 Authorization: Bearer <token>；未配置时接口不可用（返回 503）
+ * - APP_BASE_URL: 地图访问地址，用于消息中的"在地图中查看"链接
+ * =====================================================
+ */
+
+import { NextResponse } from "next/server"
+import { type CustomerQuery, parseCustomerQuery } from "@/lib/customer-query"
+import { isBotConfigured, sendBotMessage } from "@/lib/feishu/bot"
+import { getMissingEnvVars } from "@/lib/feishu/client"
+import { buildAlertDigest, getPriceAlerts } from "@/lib/price-alerts"
+
+export const runtime = "nodejs"
+
+/**
+ * 北京时间今天往前 n 天的日期 YYYY-MM-DD
+ */
+function shanghaiDateBefore(n: number): string {
+  const today = new Intl.DateTimeFormat("en-CA", { timeZone: "Asia/Shanghai" }).format(new Date())
+  return new Date(Date.parse(`${today}T00:00:00Z`) - n * 86400000).toISOString().slice(0, 10)
+}
+
+export async function POST(request: Request) {
+  const token = process.env.PRICE_ALERT_DIGEST_TOKEN
+  if (!token) {
+    return NextResponse.json({ error: "缺少环境变量: PRICE_ALERT_DIGEST_TOKEN" }, { status: 503 })
+  }
+  if (request.headers.get("authorization") !== `Bearer ${token}`) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 })
+  }
+
+  const missing = getMissingEnvVars()
+  if (missing.length) {
+    return NextResponse.json({ error: `缺少环境变量: ${missing.join(", ")}` }, { status: 400 })
+  }
+  if (!isBotConfigured()) {
+    return NextResponse.json({ error: "缺少环境变量: FEISHU_BOT_WEBHOOK" }, { status: 400 })
+  }
+
+  const params = new URL(request.url).searchParams
+  let query: CustomerQuery
+  try {
+    query = parseCustomerQuery(params)
+  } catch (error: any) {
+    return NextResponse.json({ error: error?.message || "查询参数无效" }, { status: 400 })
+  }
+
+  if (!query.dateFrom) {
+    const days = Math.max(1, parseInt(params.get("days") || "1", 10) || 1)
+    query.dateFrom = shanghaiDateBefore(days)
+    if (!query.dateTo) query.dateTo = shanghaiDateBefore(1)
+  }
+
+  try {
+    const alerts = await getPriceAlerts(query)
+    if (!alerts.length) {
+      return NextResponse.json({ sent: false, count: 0 })
+    }
+
+    const range = query.dateTo ? `${query.dateFrom} 至 ${query.dateTo}` : `${query.dateFrom} 起`
+    const title = `竞品价格动态（${range}，共 ${alerts.length} 条）`
+    await sendBotMessage(buildAlertDigest(alerts, title, process.env.APP_BASE_URL || undefined))
+    return NextResponse.json({ sent: true, count: alerts.length })
+  } catch (error: any) {
+    console.error("推送价格变动摘要失败:", error)
+    return NextResponse.json({ error: error?.message || "推送失败" }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * =====================================================
+ * 价格变动提醒API (app/api/price-alerts/route.ts)
+ * =====================================================
+ *
+ * 同一门店相邻两次巡店之间的降价、新促销（见 lib/price-alerts.ts）
+ *
+ * 访问方式: GET /api/price-alerts?region=&brand=&q=&from=&to=&bbox=&limit=
+ * （筛选参数与 /api/customer-data 相同，limit 默认 50）
+ * 返回格式: JSON { alerts: [...], total }
+ * =====================================================
+ */
+
+import { NextResponse } from "next/server"
+import { type CustomerQuery, parseCustomerQuery } from "@/lib/customer-query"
+import { getMissingEnvVars } from "@/lib/feishu/client"
+import { getPriceAlerts } from "@/lib/price-alerts"
+
+export const runtime = "nodejs"
+
+const DEFAULT_LIMIT = 50
+
+export async function GET(request: Request) {
+  const missing = getMissingEnvVars()
+  if (missing.length) {
+    return NextResponse.json({ error: `缺少环境变量: ${missing.join(", ")}` }, { status: 400 })
+  }
+
+  let query: CustomerQuery
+  try {
+    query = parseCustomerQuery(new URL(request.url).searchParams)
+  } catch (error: any) {
+    return NextResponse.json({ error: error?.message || "查询参数无效" }, { status: 400 })
+  }
+
+  try {
+    const alerts = await getPriceAlerts(query)
+    return NextResponse.json({
+      alerts: alerts.slice(0, query.limit ?? DEFAULT_LIMIT),
+      total: alerts.length,
+    })
+  } catch (error: any) {
+    console.error("获取价格变动失败:", error)
+    return NextResponse.json({ error: error?.message || "获取价格变动失败" }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * =====================================================
+ * 单个保存的范围API (app/api/shapes/[id]/route.ts)
+ * =====================================================
+ *
+ * 访问方式: DELETE /api/shapes/:id（需要先登录，只能删除自己保存的范围）
+ * 返回格式: JSON { ok: true }
+ * =====================================================
+ */
+
+import { NextResponse } from "next/server"
+import { SavedShapeOwnerError, deleteSavedShape } from "@/lib/saved-shapes"
+import { getSessionUser } from "@/lib/session"
+
+export const runtime = "nodejs"
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = getSessionUser(request)
+  if (!user) return NextResponse.json({ error: "请在飞书中打开地图后再删除范围" }, { status: 401 })
+
+  const { id } = await params
+  try {
+    if (!(await deleteSavedShape(user.openId, id))) {
+      return NextResponse.json({ error: "找不到该范围" }, { status: 404 })
+    }
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    if (error instanceof SavedShapeOwnerError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error("删除范围失败:", error)
+    return NextResponse.json({ error: error?.message || "删除范围失败" }, { status: 500 })
+  }
+}
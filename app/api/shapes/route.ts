@@ -0,0 +1,51 @@
+/**
+ * =====================================================
+ * 保存的范围API (app/api/shapes/route.ts)
+ * =====================================================
+ *
+ * 地图上画出的范围（见 lib/saved-shapes.ts），保存需要先登录（见 /api/auth/feishu）
+ *
+ * 访问方式: GET /api/shapes
+ * 返回格式: JSON { shapes: [{ id, name, shape, ownerId, ownerName, createdAt }] }
+ *
+ * 保存范围: POST /api/shapes（自己保存过同名的范围时覆盖）
+ * 请求体: { name, shape: { type: "circle", center, radius } | { type: "rectangle", bounds } | { type: "polygon", path } }
+ * 返回格式: JSON { shape: { id, name, shape, ownerId, ownerName, createdAt } }
+ * =====================================================
+ */
+
+import { NextResponse } from "next/server"
+import { SavedShapeLimitError, listSavedShapes, saveShape, savedShapeInputSchema } from "@/lib/saved-shapes"
+import { getSessionUser } from "@/lib/session"
+
+export const runtime = "nodejs"
+
+export async function GET() {
+  try {
+    return NextResponse.json({ shapes: await listSavedShapes() }, { headers: { "Cache-Control": "private, no-cache" } })
+  } catch (error: any) {
+    console.error("读取保存的范围失败:", error)
+    return NextResponse.json({ error: error?.message || "读取保存的范围失败" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  const user = getSessionUser(request)
+  if (!user) return NextResponse.json({ error: "请在飞书中打开地图后再保存范围" }, { status: 401 })
+
+  const body = await request.json().catch(() => null)
+  const parsed = savedShapeInputSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "请求参数无效" }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json({ shape: await saveShape(user, parsed.data) }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof SavedShapeLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("保存范围失败:", error)
+    return NextResponse.json({ error: error?.message || "保存范围失败" }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * =====================================================
+ * 数据源列表API (app/api/sources/route.ts)
+ * =====================================================
+ *
+ * 已配置的数据源（见 lib/feishu/sources.ts），地图据此显示图层开关
+ * 只返回 id、名称和颜色，不暴露 app_token / table_id
+ *
+ * 访问方式: GET /api/sources
+ * 返回格式: JSON { sources: [{ id, displayName, color }] }
+ * =====================================================
+ */
+
+import { NextResponse } from "next/server"
+import { getDataSources, toSourceInfo } from "@/lib/feishu/sources"
+
+export const runtime = "nodejs"
+
+export async function GET() {
+  try {
+    return NextResponse.json({ sources: getDataSources().map(toSourceInfo) })
+  } catch (error: any) {
+    console.error("读取数据源配置失败:", error)
+    return NextResponse.json({ error: error?.message || "读取数据源配置失败" }, { status: 500 })
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * =====================================================
+ * 单个常用视图API (app/api/views/[id]/route.ts)
+ * =====================================================
+ *
+ * 只能修改当前飞书用户自己的视图
+ *
+ * 设为默认 / 取消默认: PATCH /api/views/:id
+ * 请求体: { isDefault }
+ * 返回格式: JSON { view }
+ *
+ * 删除: DELETE /api/views/:id
+ * 返回格式: JSON { ok: true }
+ * =====================================================
+ */
+
+import { NextResponse } from "next/server"
+import { deleteSavedView, savedViewPatchSchema, setDefaultView } from "@/lib/saved-views"
+import { getSessionUser } from "@/lib/session"
+
+export const runtime = "nodejs"
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = getSessionUser(request)
+  if (!user) return NextResponse.json({ error: "请在飞书中打开地图以使用常用视图" }, { status: 401 })
+
+  const { id } = await params
+  const body = await request.json().catch(() => null)
+  const parsed = savedViewPatchSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "请求参数无效" }, { status: 400 })
+  }
+
+  try {
+    const view = await setDefaultView(user.openId, id, parsed.data.isDefault)
+    if (!view) return NextResponse.json({ error: "找不到该视图" }, { status: 404 })
+    return NextResponse.json({ view })
+  } catch (error: any) {
+    console.error("修改常用视图失败:", error)
+    return NextResponse.json({ error: error?.message || "修改常用视图失败" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = getSessionUser(request)
+  if (!user) return NextResponse.json({ error: "请在飞书中打开地图以使用常用视图" }, { status: 401 })
+
+  const { id } = await params
+  try {
+    if (!(await deleteSavedView(user.openId, id))) {
+      return NextResponse.json({ error: "找不到该视图" }, { status: 404 })
+    }
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error("删除常用视图失败:", error)
+    return NextResponse.json({ error: error?.message || "删除常用视图失败" }, { status: 500 })
+  }
+}
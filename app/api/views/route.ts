@@ -0,0 +1,54 @@
+/**
+ * =====================================================
+ * 常用视图API (app/api/views/route.ts)
+ * =====================================================
+ *
+ * 当前飞书用户保存的视图（见 lib/saved-views.ts），需要先登录（见 /api/auth/feishu）
+ *
+ * 访问方式: GET /api/views
+ * 返回格式: JSON { views: [{ id, name, state, isDefault, createdAt, updatedAt }] }
+ *
+ * 保存视图: POST /api/views（同名时覆盖）
+ * 请求体: { name, state: { regions, brands, sources, q, from, to, shape, zoom, center, mapMode, showOwnStores }, isDefault? }
+ * 返回格式: JSON { view }
+ * =====================================================
+ */
+
+import { NextResponse } from "next/server"
+import { SavedViewLimitError, listSavedViews, saveView, savedViewInputSchema } from "@/lib/saved-views"
+import { getSessionUser } from "@/lib/session"
+
+export const runtime = "nodejs"
+
+export async function GET(request: Request) {
+  const user = getSessionUser(request)
+  if (!user) return NextResponse.json({ error: "请在飞书中打开地图以使用常用视图" }, { status: 401 })
+
+  try {
+    return NextResponse.json({ views: await listSavedViews(user.openId) }, { headers: { "Cache-Control": "private, no-store" } })
+  } catch (error: any) {
+    console.error("读取常用视图失败:", error)
+    return NextResponse.json({ error: error?.message || "读取常用视图失败" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  const user = getSessionUser(request)
+  if (!user) return NextResponse.json({ error: "请在飞书中打开地图以使用常用视图" }, { status: 401 })
+
+  const body = await request.json().catch(() => null)
+  const parsed = savedViewInputSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "请求参数无效" }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json({ view: await saveView(user.openId, parsed.data) }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof SavedViewLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("保存常用视图失败:", error)
+    return NextResponse.json({ error: error?.message || "保存常用视图失败" }, { status: 500 })
+  }
+}
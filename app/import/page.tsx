@@ -0,0 +1,18 @@
+/**
+ * =====================================================
+ * 批量导入页面 (app/import/page.tsx)
+ * =====================================================
+ *
+ * 从 Excel / CSV 批量导入巡店记录到飞书多维表格
+ * =====================================================
+ */
+
+import RecordImport from "@/components/record-import"
+
+export default function ImportPage() {
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <RecordImport />
+    </main>
+  )
+}
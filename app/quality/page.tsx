@@ -0,0 +1,18 @@
+/**
+ * =====================================================
+ * 数据质量页面 (app/quality/page.tsx)
+ * =====================================================
+ *
+ * 列出无法展示和可疑的巡店记录，链接到飞书中修改
+ * =====================================================
+ */
+
+import DataQuality from "@/components/data-quality"
+
+export default function QualityPage() {
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <DataQuality />
+    </main>
+  )
+}
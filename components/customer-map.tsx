@@ -8,11 +8,27 @@
  *
  * 主要功能:
  * 1. 高德地图显示
- * 2. 客户点聚合(MarkerCluster)
+ * 2. 客户点聚合(MarkerCluster，按品牌比例着色，点击放大或列出同位置的门店)
  * 3. 筛选功能(客户类型、日均件量、快递公司)
  * 4. 搜索功能
  * 5. 客户详情抽屉
  * 6. 从飞书多维表格实时拉取数据
+ * 7. 新增/编辑巡店记录并写回飞书（长按地图新增，详情抽屉中编辑）
+ * 8. 热力图（按记录数或价格加权，可调强度）
+ * 9. 分级设色图（按省/市记录数或品牌占比着色，点击省份下钻到市）
+ * 10. 按记录日期筛选，时间轴逐月播放门店分布变化
+ * 11. 同一门店的多次巡店合并为一个图钉，详情抽屉中显示巡店时间线
+ * 12. 最新动态: 同一门店相邻两次巡店之间的降价、新促销
+ * 13. 筛选条件、选中门店和地图视野同步到页面链接，可分享、可前进/后退
+ * 14. 导出符合筛选条件的记录（Excel / CSV / GeoJSON / KML）
+ * 15. 坐标由地址解析得到的门店在图钉上标注可信度，可确认后写回飞书
+ * 16. 多个数据源（多张多维表格）作为图层叠加显示，可分别开关，图钉中心点按数据源着色
+ * 17. 自有门店图层（单独的图标），以及每家自有门店周边 N 公里内的竞品分析
+ * 18. 在地图上画圆、矩形或多边形，只看范围内的记录（统计和 AI 分析随之更新），范围可命名保存
+ * 19. 常用视图: 飞书用户可保存筛选条件、搜索词、视野和图层开关，在筛选菜单中一键切换，可设默认视图
+ *
+ * 点聚合、热力图、分级设色、时间轴、画范围、常用视图和页面链接同步各自在 components/map/ 下的 hook 中实现，
+ * 本组件负责共享的筛选条件、按视野加载记录和界面
  *
  * 依赖:
  * - 高德地图 JS API 2.0
@@ -25,6 +41,32 @@
 import type React from "react"
 import { useEffect, useState, useRef } from "react"
 import AMapLoader from "@amap/amap-jsapi-loader" // 高德地图加载器
+import RecordForm, { type RecordFormValues } from "@/components/record-form" // 巡店记录表单
+import ChoroplethLegend from "@/components/map/choropleth-legend"
+import { type CustomerData, PAGE_SIZE, brandColor, normalizeCustomer } from "@/components/map/customer-data"
+import HeatmapLegend from "@/components/map/heatmap-legend"
+import { BRAND_LOGOS, GEOCODE_CONFIDENCE, OWN_STORE_COLOR, PIN_SIZE, createOwnStoreContent } from "@/components/map/markers"
+import SavedViewsSection from "@/components/map/saved-views-section"
+import ShapeFilterSection from "@/components/map/shape-filter-section"
+import TimelineBar from "@/components/map/timeline-bar"
+import { useChoropleth } from "@/components/map/use-choropleth"
+import { useHeatmap } from "@/components/map/use-heatmap"
+import { useMapUrlSync } from "@/components/map/use-map-url-sync"
+import { useMarkerCluster } from "@/components/map/use-marker-cluster"
+import { useSavedViews } from "@/components/map/use-saved-views"
+import { useShapeFilter } from "@/components/map/use-shape-filter"
+import { monthEnd, useTimeline } from "@/components/map/use-timeline"
+import type { CustomerFacets } from "@/lib/customer-query"
+import { type Bounds, expandBounds, tileKeyOf, tileSizeForZoom, tilesForBounds, unionBounds } from "@/lib/map-tiles"
+import { type PriceStat, describePrice } from "@/lib/price"
+import type { PriceAlert } from "@/lib/price-alerts"
+import { type RegionBoundary, loadCityBoundaries, loadProvinceBoundaries } from "@/lib/region-boundaries"
+import { type MapFilterState, MAX_MAP_ZOOM, MIN_MAP_ZOOM, parseMapSearchParams } from "@/lib/map-url"
+import type { ExportFormat } from "@/lib/export"
+import type { DataSourceInfo } from "@/lib/feishu/sources"
+import type { CompetitionSummary, NearbyCompetitor, OwnStore } from "@/lib/own-stores"
+import type { SavedViewState } from "@/lib/saved-views"
+import { describeShape, encodeShape } from "@/lib/shapes"
 
 /**
  * 全局类型声明
@@ -39,33 +81,36 @@ declare global {
   }
 }
 
-/**
- * 客户数据接口定义
- * 描述每个客户对象包含哪些字段
- */
-interface CustomerData {
-  id: string // 唯一标识
-  name: string // 竞品品牌
-  coordinates: [number, number] // 坐标 [经度, 纬度]
-  productName: string // 货品名称
-  address: string // 地址
-  brand: string // 品牌字段
-  discountprice: string // 折扣/价格
-  distributor: string // 经销商
-  district: string // 片区
-  record_date: number | string | null // 记录日期
-  region: string // 省区
-}
+// 最新动态: 最多加载的条数，以及角标统计最近几天的动态
+const ALERTS_LIMIT = 50
+const ALERTS_RECENT_DAYS = 7
 
-/**
- * 品牌Logo映射
- * 键: 品牌名称
- * 值: Logo图片路径(存放在public/images目录)
- */
-const BRAND_LOGOS: Record<string, string> = {
-  雕牌: "/images/diaopai.png",
-  其他: "", // 其他类型没有logo
-}
+// 自有门店: 周边竞品分析可选的半径（公里）和默认半径
+const COMPETITION_RADII = [1, 3, 5, 10]
+const DEFAULT_COMPETITION_RADIUS = 3
+
+// 导出格式及按钮文字
+const EXPORT_OPTIONS: Array<[ExportFormat, string]> = [
+  ["xlsx", "Excel"],
+  ["csv", "CSV"],
+  ["geojson", "GeoJSON"],
+  ["kml", "KML"],
+]
+
+// 长按多久算"长按"（毫秒）
+const LONG_PRESS_MS = 600
+
+// 搜索输入防抖（毫秒）
+const SEARCH_DEBOUNCE_MS = 300
+
+// 地图平移/缩放停止后多久再加载（毫秒）
+const VIEWPORT_DEBOUNCE_MS = 300
+
+// 视野向四周扩大的比例（预加载边缘的门店）
+const VIEWPORT_MARGIN = 0.5
+
+// 内存中最多缓存的视野分块数（当前视野内的分块不会被淘汰）
+const MAX_CACHED_TILES = 400
 
 /**
  * 地图主组件
@@ -73,6 +118,9 @@ const BRAND_LOGOS: Record<string, string> = {
 export default function CustomerMap() {
   // ==================== 状态管理 ====================
 
+  // 页面链接中的初始状态（本组件只在客户端渲染，见 app/map-wrapper.tsx）
+  const [initialUrlState] = useState(() => parseMapSearchParams(new URLSearchParams(window.location.search)))
+
   /**
    * useState 说明:
    * useState(初始值) 返回 [当前值, 修改函数]
@@ -80,8 +128,11 @@ export default function CustomerMap() {
    */
 
   // 客户数据
-  const [customers, setCustomers] = useState<CustomerData[]>([]) // 所有客户
-  const [filteredCustomers, setFilteredCustomers] = useState<CustomerData[]>([]) // 筛选后的客户
+  const [filteredCustomers, setFilteredCustomers] = useState<CustomerData[]>([]) // 当前视野内符合筛选条件的客户（由服务端筛选）
+  const [matchedTotal, setMatchedTotal] = useState(0) // 符合条件的总数
+  const [facets, setFacets] = useState<CustomerFacets>({ regions: {}, brands: {}, months: {}, sources: {} }) // 各省区/品牌/月份/数据源的记录数
+  const [dataVersion, setDataVersion] = useState(0) // 数据变化时递增，触发重新查询
+  const [priceStats, setPriceStats] = useState<{ byProduct: PriceStat[]; byRegion: PriceStat[] } | null>(null) // 价格统计（全部符合条件的记录）
 
   // 加载状态
   const [loading, setLoading] = useState(true) // 数据加载中
@@ -89,20 +140,57 @@ export default function CustomerMap() {
 
   // 筛选条件
   const [customerTypeFilter, setCustomerTypeFilter] = useState<"all" | "old" | "new">("all") // 客户类型筛选
-  const [brandFilter, setBrandFilter] = useState<string[]>([]) // 品牌筛选(多选)
-  const [regionFilter, setRegionFilter] = useState<string[]>([]) // 省区筛选(多选)
+  const [brandFilter, setBrandFilter] = useState<string[]>(initialUrlState.brands) // 品牌筛选(多选)
+  const [regionFilter, setRegionFilter] = useState<string[]>(initialUrlState.regions) // 省区筛选(多选)
+  const [dateFrom, setDateFrom] = useState(initialUrlState.from) // 记录日期起 YYYY-MM-DD
+  const [dateTo, setDateTo] = useState(initialUrlState.to) // 记录日期止 YYYY-MM-DD
+  const [sourceFilter, setSourceFilter] = useState<string[]>(initialUrlState.sources) // 显示的数据源图层（空数组为全部）
+
+  // 数据源（只有一个时不显示图层开关）
+  const [dataSources, setDataSources] = useState<DataSourceInfo[]>([])
+
+  // 自有门店图层和周边竞品分析
+  const [ownStores, setOwnStores] = useState<OwnStore[]>([]) // 没有配置时为空
+  const [ownStoresName, setOwnStoresName] = useState("自有门店")
+  const [showOwnStores, setShowOwnStores] = useState(true)
+  const [competitionRadius, setCompetitionRadius] = useState(DEFAULT_COMPETITION_RADIUS) // 公里
+  const [competition, setCompetition] = useState<Record<string, CompetitionSummary>>({}) // 自有门店 id -> 周边竞品统计
+  const [selectedOwnStore, setSelectedOwnStore] = useState<OwnStore | null>(null)
+  const [ownStoreCompetitors, setOwnStoreCompetitors] = useState<NearbyCompetitor[] | null>(null) // 选中自有门店周边的竞品记录
 
   // 搜索
-  const [searchQuery, setSearchQuery] = useState("") // 搜索关键词
+  const [searchQuery, setSearchQuery] = useState(initialUrlState.q) // 搜索关键词
+  const [debouncedSearch, setDebouncedSearch] = useState(initialUrlState.q) // 防抖后的搜索关键词（用于查询）
+
+  // 地图视野（平移/缩放停止后更新）
+  const [viewport, setViewport] = useState<{ bounds: Bounds; zoom: number; center: [number, number] } | null>(null)
 
   // 菜单开关状态
   const [filterMenuOpen, setFilterMenuOpen] = useState(false) // 筛选菜单
   const [statsMenuOpen, setStatsMenuOpen] = useState(false) // 统计信息菜单
+  const [alertsOpen, setAlertsOpen] = useState(false) // 最新动态面板
+  const [exportViewportOnly, setExportViewportOnly] = useState(false) // 只导出当前视野内的记录
+
+  // 最新动态（价格变动提醒）
+  const [alerts, setAlerts] = useState<PriceAlert[]>([])
 
   // 详情抽屉
   const [selectedCustomer, setSelectedCustomer] = useState<CustomerData | null>(null) // 选中的客户
   const [drawerHeight, setDrawerHeight] = useState(30) // 抽屉高度(百分比)
   const [isDragging, setIsDragging] = useState(false) // 是否正在拖拽
+  const [isEditing, setIsEditing] = useState(false) // 抽屉是否处于编辑模式
+  const [writeBackStatus, setWriteBackStatus] = useState<"idle" | "saving" | "error">("idle") // 解析坐标写回飞书
+  const [writeBackError, setWriteBackError] = useState("")
+  const [storeVisits, setStoreVisits] = useState<CustomerData[] | null>(null) // 选中门店的全部巡店记录（新的在前）
+
+  // 地图显示方式: 门店标记 / 热力图 / 分级设色
+  const [mapMode, setMapMode] = useState<SavedViewState["mapMode"]>("markers")
+
+  // 点聚合成员列表（同一位置有多个门店时）
+  const [clusterMembers, setClusterMembers] = useState<CustomerData[] | null>(null)
+
+  // 新增记录（长按地图时的坐标）
+  const [newRecordCoords, setNewRecordCoords] = useState<[number, number] | null>(null)
 
   // 飞书发送状态
   const [feishuStatus, setFeishuStatus] = useState<"idle" | "sending" | "success" | "error">("idle")
@@ -115,6 +203,10 @@ export default function CustomerMap() {
   const [aiError, setAiError] = useState<string>("")
   const [aiMeta, setAiMeta] = useState<{ total?: number; updatedAt?: string } | null>(null)
 
+  // 发送到飞书群（AI 分析完成后）
+  const [groupSendStatus, setGroupSendStatus] = useState<"idle" | "sending" | "sent" | "error">("idle")
+  const [groupSendError, setGroupSendError] = useState("")
+
   // AI 请求控制器
   const abortControllerRef = useRef<AbortController | null>(null)
 
@@ -132,8 +224,12 @@ export default function CustomerMap() {
 
   // 地图相关引用
   const mapRef = useRef<any>(null) // 高德地图实例
-  const clusterRef = useRef<any>(null) // （保留，兼容历史）点聚合实例
-  const markersRef = useRef<any[]>([]) // 当前显示的单点标记数组
+  const ownStoreMarkersRef = useRef<any[]>([]) // 自有门店标记
+  const competitionCircleRef = useRef<any>(null) // 选中自有门店的分析半径
+  const tileCacheRef = useRef<Map<string, CustomerData[]>>(new Map()) // 已加载的视野分块: "筛选条件|分块" -> 记录
+
+  // 地图上画出的范围（只看范围内的记录）
+  const shapes = useShapeFilter(mapRef, mapReady, initialUrlState.shape)
 
   // 拖拽相关
   const dragStartY = useRef(0) // 拖拽起始Y坐标
@@ -148,6 +244,8 @@ export default function CustomerMap() {
    */
   const handleDragStart = (e: React.TouchEvent | React.MouseEvent) => {
     e.stopPropagation() // 阻止事件冒泡
+    // 在表单控件上按下时不拖拽，避免输入时误触
+    if ((e.target as HTMLElement).closest("input, select, textarea, button")) return
     setIsDragging(true)
 
     // 获取起始Y坐标(兼容触摸和鼠标)
@@ -181,10 +279,138 @@ export default function CustomerMap() {
     setIsDragging(false)
     // 如果高度太小,关闭抽屉
     if (drawerHeight < 25) {
-      setSelectedCustomer(null)
+      closeDrawer()
     }
   }
 
+  /**
+   * 关闭详情抽屉（同时退出编辑模式）
+   */
+  const closeDrawer = () => {
+    setSelectedCustomer(null)
+    setIsEditing(false)
+  }
+
+  /**
+   * 选中自有门店，打开周边竞品面板
+   *
+   * @param moveMap - 是否把地图移到该门店
+   */
+  const selectOwnStore = (store: OwnStore, moveMap: boolean) => {
+    closeDrawer()
+    setOwnStoreCompetitors(null)
+    setSelectedOwnStore(store)
+    if (moveMap) mapRef.current?.setZoomAndCenter(Math.max(mapRef.current.getZoom(), 13), store.coordinates)
+  }
+
+  /**
+   * 关闭自有门店面板
+   */
+  const closeOwnStore = () => {
+    setSelectedOwnStore(null)
+    setOwnStoreCompetitors(null)
+  }
+
+  /**
+   * 当前的筛选条件、搜索词、视野和图层开关
+   */
+  const captureView = (): SavedViewState => ({
+    regions: regionFilter,
+    brands: brandFilter,
+    sources: sourceFilter,
+    q: searchQuery.trim(),
+    from: dateFrom,
+    to: dateTo,
+    shape: shapes.shape,
+    zoom: viewport?.zoom ?? null,
+    center: viewport?.center ?? null,
+    mapMode,
+    showOwnStores,
+  })
+
+  /**
+   * 切换到给定的筛选条件（常用视图、浏览器前进/后退）
+   */
+  const applyFilterState = (state: MapFilterState) => {
+    setRegionFilter(state.regions)
+    setBrandFilter(state.brands)
+    setSourceFilter(state.sources)
+    shapes.setShape(state.shape)
+    setSearchQuery(state.q)
+    setDebouncedSearch(state.q)
+    setDateFrom(state.from)
+    setDateTo(state.to)
+  }
+
+  /**
+   * 选中记录并打开详情抽屉
+   */
+  const selectCustomer = (customer: CustomerData) => {
+    setSelectedCustomer(customer)
+    setIsEditing(false)
+    setDrawerHeight(30)
+  }
+
+  /**
+   * 处理记录变化
+   * 来源: 服务端推送、或本地新增/编辑保存成功
+   * 按当前条件重新查询（变化的记录是否符合筛选条件由服务端判断），并同步详情抽屉
+   *
+   * @param upserted - 新增或修改后的记录
+   * @param deleted - 被删除的记录 id
+   */
+  const applyCustomerChanges = (upserted: CustomerData[], deleted: string[] = []) => {
+    const removed = new Set<string>(deleted)
+
+    setDataVersion((v) => v + 1)
+    setSelectedCustomer((prev) => {
+      if (!prev) return prev
+      const updated = upserted.find((c) => c.id === prev.id)
+      // 推送的单条记录不带门店归并结果，沿用原来的 storeId
+      if (updated) return { ...updated, storeId: prev.storeId }
+      return removed.has(prev.id) ? null : prev
+    })
+  }
+
+  /**
+   * 把地址解析得到的坐标写回飞书（写回后该记录不再标注为地址解析）
+   */
+  const writeBackCoordinates = async (customer: CustomerData) => {
+    if (writeBackStatus === "saving") return
+    setWriteBackStatus("saving")
+    setWriteBackError("")
+    try {
+      const res = await fetch(`/api/customer-data/${encodeURIComponent(customer.id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        // 一并写入地址，避免定位字段被覆盖后丢失地址
+        body: JSON.stringify({ coordinates: customer.coordinates, address: customer.address || undefined }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok || !data?.customer) throw new Error(data?.error || "写回失败")
+      applyCustomerChanges([normalizeCustomer(data.customer)])
+      setWriteBackStatus("idle")
+    } catch (err: any) {
+      setWriteBackStatus("error")
+      setWriteBackError(err?.message || "写回失败")
+    }
+  }
+
+  /**
+   * 把客户数据转换为表单初始值
+   */
+  const toFormValues = (c: Partial<CustomerData> & { coordinates: [number, number] }): RecordFormValues => ({
+    name: c.name || "",
+    coordinates: c.coordinates,
+    brand: c.brand || "",
+    productName: c.productName && c.productName !== "未知" ? c.productName : "",
+    discountprice: c.discountprice || "",
+    distributor: c.distributor || "",
+    region: c.region || "",
+    district: c.district || "",
+    record_date: typeof c.record_date === "string" ? c.record_date : "",
+  })
+
   /**
    * 切换快递公司筛选
    * 如果已选中则取消,未选中则添加
@@ -195,6 +421,20 @@ export default function CustomerMap() {
     )
   }
 
+  /**
+   * 开关数据源图层
+   * 全部显示时筛选条件为空；最后一个显示的图层不能关闭
+   */
+  const toggleSourceLayer = (id: string) => {
+    setSourceFilter((prev) => {
+      const all = dataSources.map((s) => s.id)
+      const visible = prev.length ? prev : all
+      const next = visible.includes(id) ? visible.filter((s) => s !== id) : [...visible, id]
+      if (!next.length) return prev
+      return next.length === all.length ? [] : next
+    })
+  }
+
   // 快递公司列表
   const BRANDS = ["全部品牌","雕牌", "白猫","其他"]
 
@@ -231,80 +471,88 @@ export default function CustomerMap() {
     AMapLoader.load({
       key: amapKey, // 高德地图API Key
       version: "2.0", // API版本
-      plugins: ["AMap.MarkerCluster", "AMap.DistrictSearch"], // 加载的插件
+      plugins: ["AMap.MarkerCluster", "AMap.DistrictSearch", "AMap.HeatMap", "AMap.MouseTool"], // 加载的插件
     })
       .then((AMap) => {
         console.log("AMap loaded successfully")
 
         // 创建地图实例
         const map = new AMap.Map(mapContainerRef.current, {
-          zoom: 7, // 初始缩放级别
-          center: [113.65, 34.76], // 初始中心点(郑州)
+          zoom: initialUrlState.zoom ?? 7, // 初始缩放级别（链接中有 z 参数时以链接为准）
+          center: initialUrlState.center ?? [113.65, 34.76], // 初始中心点(郑州)
+          zooms: [MIN_MAP_ZOOM, MAX_MAP_ZOOM], // 缩放范围（与链接参数、常用视图的校验一致）
           viewMode: "2D", // 2D模式
         })
 
         mapRef.current = map
 
-        // 创建行政区查询对象,用于绘制省份边界
-        const district = new AMap.DistrictSearch({
-          extensions: "all", // 返回完整数据
-          subdistrict: 1, // 获取第一级子区域(省)
-        })
-
-        // 搜索中国,获取所有省份
-        district.search("中国", (status: string, result: any) => {
-          if (status === "complete" && result.districtList[0]?.districtList) {
-            const provinces = result.districtList[0].districtList
-
-            // 遍历每个省份
-            provinces.forEach((province: any) => {
-              // 绘制省份边界线
-              if (province.boundaries) {
-                province.boundaries.forEach((boundary: any) => {
-                  const polygon = new AMap.Polygon({
-                    path: boundary,
-                    strokeColor: "#0088ff", // 蓝色边框
-                    strokeWeight: 1.5, // 线宽
-                    strokeOpacity: 0.6, // 透明度
-                    fillColor: "transparent", // 无填充
-                    fillOpacity: 0,
-                  })
-                  polygon.setMap(map)
-                })
-              }
-
-              // 为每个省份查询城市边界
-              const cityDistrict = new AMap.DistrictSearch({
-                extensions: "all",
-                level: "city",
-              })
-
-              cityDistrict.search(province.adcode, (cityStatus: string, cityResult: any) => {
-                if (cityStatus === "complete" && cityResult.districtList[0]?.districtList) {
-                  const cities = cityResult.districtList[0].districtList
-
-                  // 绘制城市边界线
-                  cities.forEach((city: any) => {
-                    if (city.boundaries) {
-                      city.boundaries.forEach((boundary: any) => {
-                        const polygon = new AMap.Polygon({
-                          path: boundary,
-                          strokeColor: "#888888", // 灰色边框
-                          strokeWeight: 0.8, // 更细的线
-                          strokeOpacity: 0.4, // 更透明
-                          fillColor: "transparent",
-                          fillOpacity: 0,
-                        })
-                        polygon.setMap(map)
-                      })
-                    }
-                  })
-                }
-              })
-            })
+        // 长按地图打开新增记录表单，坐标预填为长按位置
+        // 拖动、缩放或提前松开都会取消
+        let pressTimer: ReturnType<typeof setTimeout> | null = null
+        const cancelPress = () => {
+          if (pressTimer) {
+            clearTimeout(pressTimer)
+            pressTimer = null
           }
+        }
+        const startPress = (e: any) => {
+          cancelPress()
+          const lnglat = e.lnglat
+          if (!lnglat || shapes.drawingRef.current) return
+          pressTimer = setTimeout(() => {
+            pressTimer = null
+            setSelectedCustomer(null)
+            setIsEditing(false)
+            setNewRecordCoords([
+              Number(lnglat.getLng().toFixed(6)),
+              Number(lnglat.getLat().toFixed(6)),
+            ])
+          }, LONG_PRESS_MS)
+        }
+        map.on("touchstart", startPress)
+        map.on("mousedown", startPress)
+        ;["touchend", "mouseup", "dragstart", "zoomstart", "movestart"].forEach((event) => map.on(event, cancelPress))
+
+        // 绘制省份和城市边界线（边界数据查询一次后缓存，见 lib/region-boundaries.ts）
+        const drawOutlines = (regions: RegionBoundary[], style: Record<string, any>) => {
+          if (mapRef.current !== map) return // 地图已销毁
+          regions.forEach((region) => {
+            region.rings.forEach((ring) => {
+              const polygon = new AMap.Polygon({ path: ring, fillColor: "transparent", fillOpacity: 0, bubble: true, ...style })
+              polygon.setMap(map)
+            })
+          })
+        }
+
+        loadProvinceBoundaries(AMap).then((provinces) => {
+          // 蓝色省界
+          drawOutlines(provinces, { strokeColor: "#0088ff", strokeWeight: 1.5, strokeOpacity: 0.6 })
+          provinces.forEach((province) => {
+            // 灰色、更细更透明的市界
+            loadCityBoundaries(AMap, province.adcode).then((cities) =>
+              drawOutlines(cities, { strokeColor: "#888888", strokeWeight: 0.8, strokeOpacity: 0.4 })
+            )
+          })
         })
 
+        // 平移/缩放停止后（防抖）更新视野，触发按视野加载门店
+        let viewportTimer: ReturnType<typeof setTimeout> | null = null
+        const updateViewport = () => {
+          const bounds = map.getBounds()
+          const sw = bounds.getSouthWest()
+          const ne = bounds.getNorthEast()
+          const center = map.getCenter()
+          setViewport({ bounds: [sw.lng, sw.lat, ne.lng, ne.lat], zoom: map.getZoom(), center: [center.lng, center.lat] })
+        }
+        const scheduleViewport = () => {
+          if (viewportTimer) clearTimeout(viewportTimer)
+          viewportTimer = setTimeout(updateViewport, VIEWPORT_DEBOUNCE_MS)
+        }
+        map.on("moveend", scheduleViewport)
+        map.on("zoomend", scheduleViewport)
+        map.on("resize", scheduleViewport)
+        updateViewport()
+
         setMapReady(true)
         console.log("Map initialized with city boundaries")
       })
@@ -322,113 +570,69 @@ export default function CustomerMap() {
     }
   }, [loading])
 
+  // 门店标记（点聚合）、热力图
+  useMarkerCluster(mapRef, {
+    mapReady,
+    customers: filteredCustomers,
+    dataSources,
+    visible: mapMode === "markers",
+    onSelect: selectCustomer,
+    onShowMembers: setClusterMembers,
+  })
+  const heatmap = useHeatmap(mapRef, mapReady, mapMode === "heatmap", filteredCustomers)
+
   /**
-   * 创建点聚合
-   * 当地图就绪且有客户数据时,创建点聚合
+   * 自有门店标记
+   * 不参与点聚合，显示在竞品图钉之上，点击打开周边竞品面板
    */
   useEffect(() => {
-    if (!mapReady || !mapRef.current || !filteredCustomers.length) {
-      console.log("Skipping markers - mapReady:", mapReady, "customers:", filteredCustomers.length)
-      // 清除已有的 markers
-      if (markersRef.current && markersRef.current.length) {
-        markersRef.current.forEach((m) => { try { m.setMap && m.setMap(null) } catch (e) {} })
-        markersRef.current = []
-      }
-      return
-    }
-
+    if (!mapReady || !mapRef.current || !window.AMap) return
     const AMap = window.AMap
-    if (!AMap) {
-      console.log("AMap not available")
-      return
-    }
+    const map = mapRef.current
 
-    // 清除已有的 markers
-    if (markersRef.current && markersRef.current.length) {
-      markersRef.current.forEach((m) => { try { m.setMap && m.setMap(null) } catch (e) {} })
-      markersRef.current = []
-    }
-
-    console.log("Creating individual markers with", filteredCustomers.length, "points")
-
-    // 为每个客户创建单独 Marker
-    filteredCustomers.forEach((customer) => {
-      const pinSize = 28
-      let pinColor = "#3b82f6"
-      if (customer.brand === "雕牌") pinColor = "#ef4444"
-
-      const div = document.createElement("div")
-      div.style.position = "relative"
-      div.style.width = `${pinSize}px`
-      div.style.height = `${pinSize * 1.2}px`
-      div.style.cursor = "pointer"
-      div.innerHTML = `
-        <svg width="${pinSize}" height="${pinSize * 1.2}" viewBox="0 0 24 32" xmlns="http://www.w3.org/2000/svg">
-          <path d="M12 0C7.6 0 4 3.6 4 8c0 5.4 8 16 8 16s8-10.6 8-16c0-4.4-3.6-8-8-8z" 
-                fill="${pinColor}" 
-                stroke="white" 
-                strokeWidth="1.5"
-                filter="drop-shadow(0 2px 4px rgba(0,0,0,0.3))"/>
-          <circle cx="12" cy="8" r="4" fill="white"/>
-        </svg>
-      `
-
-      const tooltip = document.createElement("div")
-      tooltip.style.position = "absolute"
-      tooltip.style.bottom = "100%"
-      tooltip.style.left = "50%"
-      tooltip.style.transform = "translateX(-50%)"
-      tooltip.style.marginBottom = "4px"
-      tooltip.style.padding = "4px 8px"
-      tooltip.style.backgroundColor = "white"
-      tooltip.style.border = "2px solid " + pinColor
-      tooltip.style.borderRadius = "6px"
-      tooltip.style.boxShadow = "0 2px 8px rgba(0,0,0,0.15)"
-      tooltip.style.display = "none"
-      tooltip.style.whiteSpace = "nowrap"
-      tooltip.style.zIndex = "1000"
-      tooltip.style.fontSize = "12px"
-
-      const brandNames = (customer.brand || "").split(/[、,，]/).map((c: string) => c.trim())
-      const logos = brandNames
-        .map((name: string) => {
-          const logoUrl = BRAND_LOGOS[name]
-          if (logoUrl) {
-            return `<img src="${logoUrl}" alt="${name}" style="height: 24px; width: auto; object-fit: contain; display: inline-block; vertical-align: middle;" />`
-          }
-          return `<span style="font-size: 12px; vertical-align: middle;">${name}</span>`
-        })
-        .join(" ")
-      tooltip.innerHTML = logos
-      tooltip.style.display = "none"
-      tooltip.style.flexDirection = "row"
-      tooltip.style.alignItems = "center"
-      tooltip.style.gap = "4px"
-
-      div.appendChild(tooltip)
-      div.addEventListener("mouseenter", () => { tooltip.style.display = "block" })
-      div.addEventListener("mouseleave", () => { tooltip.style.display = "none" })
-
-      // 创建高德 Marker
+    if (!showOwnStores) return
+    const markers = ownStores.map((store) => {
       const marker = new AMap.Marker({
-        position: customer.coordinates,
-        content: div,
+        position: store.coordinates,
+        content: createOwnStoreContent(store),
+        offset: new AMap.Pixel(-PIN_SIZE / 2, -PIN_SIZE / 2),
+        zIndex: 150,
       })
-      try {
-        marker.setOffset(new AMap.Pixel(-pinSize / 2, -pinSize * 1.2))
-      } catch (e) {}
-      marker.setMap(mapRef.current)
+      marker.on("click", () => selectOwnStore(store, false))
+      return marker
+    })
+    map.add(markers)
+    ownStoreMarkersRef.current = markers
 
-      marker.on("click", () => {
-        setSelectedCustomer(customer)
-        setDrawerHeight(30)
-      })
+    return () => {
+      map.remove(markers)
+      ownStoreMarkersRef.current = []
+    }
+  }, [mapReady, ownStores, showOwnStores])
 
-      markersRef.current.push(marker)
+  /**
+   * 选中自有门店时画出分析半径
+   */
+  useEffect(() => {
+    if (!mapReady || !mapRef.current || !window.AMap || !selectedOwnStore) return
+    const circle = new window.AMap.Circle({
+      center: selectedOwnStore.coordinates,
+      radius: competitionRadius * 1000,
+      strokeColor: OWN_STORE_COLOR,
+      strokeWeight: 2,
+      strokeStyle: "dashed",
+      fillColor: OWN_STORE_COLOR,
+      fillOpacity: 0.08,
+      bubble: true, // 不拦截地图点击
     })
+    mapRef.current.add(circle)
+    competitionCircleRef.current = circle
 
-    console.log("Markers created")
-  }, [mapReady, filteredCustomers])
+    return () => {
+      mapRef.current?.remove(circle)
+      competitionCircleRef.current = null
+    }
+  }, [mapReady, selectedOwnStore, competitionRadius])
 
   /**
    * 监听抽屉拖拽事件
@@ -456,109 +660,353 @@ export default function CustomerMap() {
 
   // ==================== 加载客户数据 ====================
 
+  // 搜索关键词防抖，输入停顿后再查询
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), searchQuery ? SEARCH_DEBOUNCE_MS : 0)
+    return () => clearTimeout(timer)
+  }, [searchQuery])
+
+  // 时间轴: 只显示截至所选月份的记录
+  const timeline = useTimeline(facets.months, dateFrom, dateTo)
+
+  /**
+   * 当前筛选条件对应的查询参数（不含地图范围和分页）
+   * 时间轴打开时，截止日期取所选月份月底和日期筛选截止日期中较早的一个
+   */
+  const buildFilterParams = () => {
+    const params = new URLSearchParams()
+    if (debouncedSearch) params.set("q", debouncedSearch)
+    regionFilter.forEach((r) => params.append("region", r))
+    brandFilter.forEach((b) => params.append("brand", b))
+    sourceFilter.forEach((s) => params.append("source", s))
+    if (shapes.shape) params.set("shape", encodeShape(shapes.shape))
+    if (dateFrom) params.set("from", dateFrom)
+    const timelineTo = timeline.month ? monthEnd(timeline.month) : ""
+    const to = timelineTo && (!dateTo || timelineTo < dateTo) ? timelineTo : dateTo
+    if (to) params.set("to", to)
+    return params
+  }
+  const filterKey = buildFilterParams().toString()
+
+  // 分级设色（统计全部符合筛选条件的记录）
+  const choropleth = useChoropleth(mapRef, { mapReady, enabled: mapMode === "choropleth", filterKey, dataVersion })
+
+  /**
+   * 查询符合筛选条件的总数和分面统计（limit=0，不返回记录本身）
+   * 统计菜单和筛选菜单中的数字来自这里，不受地图视野影响
+   */
   useEffect(() => {
-    const parseCSVData = async () => {
+    const controller = new AbortController()
+
+    const loadSummary = async () => {
       try {
-        console.log("Fetching customer data...")
-
-        // 调用客户数据API
-            const response = await fetch("/api/customer-data")
-            const data = await response.json()
-
-            if (data && data.customers) {
-              console.log("Loaded", data.customers.length, "customers")
-              // Normalize incoming records to match CustomerData interface expectations
-              const normalized: CustomerData[] = data.customers.map((c: any) => ({
-                id: c.id || String(c.record_id || c.recordId || Math.random()),
-                name: c.name || "",
-                coordinates: Array.isArray(c.coordinates) && c.coordinates.length === 2 ? c.coordinates : [0, 0],
-                productName: c.productName || c.product_name || "未知",
-                brandCategory: c.brandCategory || "未知",
-                mainWeightRange: c.mainWeightRange || "未知",
-                courier: c.courier || "其他",
-                address: c.address || "",
-                brand: c.brand || c.distributor || "",
-                discountprice: c.discountprice || "",
-                record_date: c.record_date || null,
-                distributor: c.distributor || "",
-                region: c.region || "",
-                district: c.district || "",
-              }))
-
-              // 调试：查看所有唯一的 province 值
-              const uniqueRegions = [...new Set(normalized.map(c => c.region).filter(Boolean))]
-              console.log("数据中的所有省区值:", uniqueRegions)
-
-              setCustomers(normalized)
-              setFilteredCustomers(normalized)
-            }
+        const params = new URLSearchParams(filterKey)
+        params.set("limit", "0")
+        params.set("priceStats", "1")
+        // no-cache: 浏览器带上 If-None-Match 向服务端确认，数据未变时服务端返回 304，直接复用本地缓存
+        const response = await fetch(`/api/customer-data?${params}`, { cache: "no-cache", signal: controller.signal })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data?.error || "加载数据失败")
+
+        setFacets(data.facets || { regions: {}, brands: {}, months: {}, sources: {} })
+        setMatchedTotal(data.stats?.total ?? 0)
+        setPriceStats(data.priceStats || null)
         setLoading(false)
-      } catch (error) {
-        console.error("Error fetching customer data:", error)
+      } catch (error: any) {
+        if (error?.name === "AbortError") return
+        console.error("Error fetching customer summary:", error)
         setLoading(false)
       }
     }
 
-    parseCSVData()
-  }, []) // 空依赖数组: 只执行一次
+    loadSummary()
+    return () => controller.abort()
+  }, [filterKey, dataVersion])
 
-  // ==================== 筛选逻辑 ====================
+  /**
+   * 加载选中门店的全部巡店记录（不受筛选条件影响），用于详情抽屉中的时间线
+   */
+  const selectedStoreId = selectedCustomer?.storeId
+  // 切换记录时清除上一条记录的写回状态；打开竞品详情时关闭自有门店面板
+  useEffect(() => {
+    setWriteBackStatus("idle")
+    setWriteBackError("")
+    if (selectedCustomer) setSelectedOwnStore(null)
+  }, [selectedCustomer?.id])
 
   useEffect(() => {
-    let filtered = customers
-
-    // 1. 搜索筛选
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase()
-      filtered = filtered.filter((customer) => {
-        // 搜索多个字段（对可选字段做保护）
-        const name = (customer.name || "").toLowerCase()
-        const product = (customer.productName || "").toLowerCase()
-        const brand = (customer.brand || "").toLowerCase()
-        const brandCategory = (customer.brand || "").toLowerCase()
-        const address = (customer.address || "").toLowerCase()
-
-        // 搜索多个字段
-        return (
-          name.includes(query) ||
-          product.includes(query) ||
-          brand.includes(query) ||
-          brandCategory.includes(query) ||
-          address.includes(query)
-        )
-      })
+    if (!selectedStoreId) {
+      setStoreVisits(null)
+      return
     }
+    const controller = new AbortController()
 
-    // 2. 省区筛选(支持多选)
-    if (regionFilter.length > 0) {
-      filtered = filtered.filter((c) => {
-        // 直接使用 province 字段匹配省区
-        return regionFilter.includes(c.region || "")
-      })
+    const loadVisits = async () => {
+      try {
+        const params = new URLSearchParams({ store: selectedStoreId })
+        const response = await fetch(`/api/customer-data?${params}`, { cache: "no-cache", signal: controller.signal })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data?.error || "加载巡店记录失败")
+
+        const visits: CustomerData[] = (data.customers || []).map(normalizeCustomer)
+        visits.sort((a, b) => String(b.record_date || "").localeCompare(String(a.record_date || "")))
+        setStoreVisits(visits)
+      } catch (error: any) {
+        if (error?.name === "AbortError") return
+        console.error("Error fetching store visits:", error)
+        setStoreVisits(null)
+      }
     }
 
-    // 3. 品牌筛选(支持多选)
-    if (brandFilter.length > 0) {
-      filtered = filtered.filter((c) => {
-        // 将客户的品牌字段拆分为数组(支持"雕牌、其他"这种格式)，对可选值做保护
-        const customerBrands = (c.brand || "").split(/[、,，]/).map((name) => name.trim()).filter(Boolean)
-        // 检查是否包含任一选中的品牌
-        return brandFilter.some((selectedBrand) => customerBrands.includes(selectedBrand))
+    loadVisits()
+    return () => controller.abort()
+  }, [selectedStoreId, dataVersion])
+
+  /**
+   * 加载数据源列表（图层开关）
+   */
+  useEffect(() => {
+    fetch("/api/sources")
+      .then((res) => (res.ok ? res.json() : { sources: [] }))
+      .then((data) => setDataSources(data.sources || []))
+      .catch((error) => console.error("Error fetching data sources:", error))
+  }, [])
+
+  /**
+   * 加载自有门店（没有配置时接口返回空列表）
+   */
+  useEffect(() => {
+    fetch("/api/own-stores")
+      .then((res) => (res.ok ? res.json() : { stores: [] }))
+      .then((data) => {
+        setOwnStores(data.stores || [])
+        if (data.displayName) setOwnStoresName(data.displayName)
       })
+      .catch((error) => console.error("Error fetching own stores:", error))
+  }, [])
+
+  /**
+   * 周边竞品分析（与地图使用相同的筛选条件，不受地图视野影响）
+   * 选中自有门店时同时加载该门店周边的竞品记录
+   */
+  useEffect(() => {
+    if (!ownStores.length) return
+    const controller = new AbortController()
+
+    const loadCompetition = async () => {
+      try {
+        const params = new URLSearchParams(filterKey)
+        params.set("radius", String(competitionRadius))
+        if (selectedOwnStore) params.set("ownStore", selectedOwnStore.id)
+        const response = await fetch(`/api/own-stores/competition?${params}`, { cache: "no-cache", signal: controller.signal })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data?.error || "周边竞品分析失败")
+        setCompetition(Object.fromEntries((data.stores || []).map((s: CompetitionSummary) => [s.storeId, s])))
+        setOwnStoreCompetitors(data.competitors || null)
+      } catch (error: any) {
+        if (error?.name === "AbortError") return
+        console.error("Error fetching competition analysis:", error)
+      }
+    }
+
+    loadCompetition()
+    return () => controller.abort()
+  }, [ownStores, filterKey, competitionRadius, selectedOwnStore, dataVersion])
+
+  /**
+   * 加载最新动态（与地图使用相同的筛选条件）
+   */
+  useEffect(() => {
+    if (loading) return
+    const controller = new AbortController()
+
+    const loadAlerts = async () => {
+      try {
+        const params = new URLSearchParams(filterKey)
+        params.set("limit", String(ALERTS_LIMIT))
+        const response = await fetch(`/api/price-alerts?${params}`, { cache: "no-cache", signal: controller.signal })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data?.error || "加载最新动态失败")
+        setAlerts(data.alerts || [])
+      } catch (error: any) {
+        if (error?.name === "AbortError") return
+        console.error("Error fetching price alerts:", error)
+      }
     }
 
-    setFilteredCustomers(filtered)
-  }, [customerTypeFilter, brandFilter, regionFilter, customers, searchQuery])
+    loadAlerts()
+    return () => controller.abort()
+  }, [loading, filterKey, dataVersion])
+
+  // 数据有变化时，已缓存的视野分块全部作废
+  useEffect(() => {
+    tileCacheRef.current.clear()
+  }, [dataVersion])
+
+  /**
+   * 按地图视野加载门店
+   *
+   * 1. 视野向四周扩大 VIEWPORT_MARGIN，切成分块
+   * 2. 没缓存过的分块合并成一个范围，一次请求（按 cursor 翻页）加载
+   * 3. 用视野内所有分块的记录作为当前显示的门店
+   */
+  useEffect(() => {
+    if (!viewport) return
+    const controller = new AbortController()
+    const cache = tileCacheRef.current
+
+    const size = tileSizeForZoom(viewport.zoom)
+    const tiles = tilesForBounds(expandBounds(viewport.bounds, VIEWPORT_MARGIN), size)
+    const cacheKey = (tileKey: string) => `${filterKey}|${tileKey}`
+    const missing = tiles.filter((t) => !cache.has(cacheKey(t.key)))
+
+    // 合并视野内已缓存的分块（同一条记录只会落在一个分块里）
+    const showCachedTiles = () => {
+      const visible: CustomerData[] = []
+      for (const t of tiles) {
+        const records = cache.get(cacheKey(t.key))
+        if (records) visible.push(...records)
+      }
+      setFilteredCustomers(visible)
+    }
+
+    const loadTiles = async () => {
+      try {
+        const params = new URLSearchParams(filterKey)
+        params.set("bbox", unionBounds(missing).join(","))
+        params.set("limit", String(PAGE_SIZE))
+
+        console.log("Fetching customer data...", missing.length, "tiles")
+
+        const loaded = new Map<string, CustomerData[]>(missing.map((t) => [t.key, []]))
+        let cursor: string | null = null
+        do {
+          if (cursor) params.set("cursor", cursor)
+          const response: Response = await fetch(`/api/customer-data?${params}`, { cache: "no-cache", signal: controller.signal })
+          const data = await response.json()
+          if (!response.ok) throw new Error(data?.error || "加载数据失败")
+
+          for (const raw of data.customers || []) {
+            const customer = normalizeCustomer(raw)
+            // 合并范围内可能包含已缓存分块的记录，只收进本次要加载的分块
+            loaded.get(tileKeyOf(customer.coordinates, size))?.push(customer)
+          }
+          cursor = data.nextCursor || null
+        } while (cursor)
+
+        for (const [key, records] of loaded) {
+          cache.set(cacheKey(key), records)
+        }
+        // 超出上限时淘汰最久没用到的分块；视野内的分块先移到最后，并且不淘汰
+        // （低缩放级别时视野内的分块可能超过上限，此时缓存暂时超出上限）
+        const visibleKeys = new Set(tiles.map((t) => cacheKey(t.key)))
+        for (const key of visibleKeys) {
+          const records = cache.get(key)
+          if (!records) continue
+          cache.delete(key)
+          cache.set(key, records)
+        }
+        for (const key of cache.keys()) {
+          if (cache.size <= MAX_CACHED_TILES) break
+          if (!visibleKeys.has(key)) cache.delete(key)
+        }
+
+        showCachedTiles()
+      } catch (error: any) {
+        if (error?.name === "AbortError") return
+        console.error("Error fetching customer data:", error)
+      }
+    }
+
+    if (missing.length) {
+      loadTiles()
+    } else {
+      showCachedTiles()
+    }
+
+    return () => controller.abort()
+  }, [viewport, filterKey, dataVersion])
+
+  // ==================== 页面链接 ====================
+
+  // 筛选条件 + 选中门店: 变化时新增历史记录；地图视野: 变化时只替换当前历史记录
+  const urlFilters = {
+    regions: regionFilter,
+    brands: brandFilter,
+    sources: sourceFilter,
+    q: debouncedSearch,
+    from: dateFrom,
+    to: dateTo,
+    shape: shapes.shape,
+  }
+  const { restoreSelection } = useMapUrlSync(mapRef, {
+    initialUrlState,
+    mapReady,
+    viewport,
+    filters: urlFilters,
+    selectedStoreId,
+    applyFilters: applyFilterState,
+    selectCustomer: (customer) => (customer ? selectCustomer(customer) : closeDrawer()),
+  })
+
+  // 常用视图
+  const views = useSavedViews({
+    mapReady,
+    initialUrlState,
+    captureView,
+    applyViewState: (state) => {
+      applyFilterState(state)
+      setMapMode(state.mapMode)
+      setShowOwnStores(state.showOwnStores)
+      if (state.zoom && state.center) mapRef.current?.setZoomAndCenter(state.zoom, state.center)
+    },
+  })
+
+  // ==================== 实时更新 ====================
+
+  /**
+   * 订阅服务端推送的记录变化（飞书多维表格新增/修改/删除记录时）
+   * 收到后重新查询，标记随之更新，无需刷新页面
+   */
+  useEffect(() => {
+    if (loading || typeof EventSource === "undefined") return
+
+    const source = new EventSource("/api/customer-data/events")
+
+    source.addEventListener("change", (e) => {
+      try {
+        const change = JSON.parse((e as MessageEvent).data)
+        const upserted: CustomerData[] = (change.upserted || []).map(normalizeCustomer)
+        applyCustomerChanges(upserted, change.deleted || [])
+      } catch (error) {
+        console.error("Error handling record change:", error)
+      }
+    })
+
+    // 连接出错时浏览器会自动重连（服务端设置了 retry）
+    source.onerror = () => console.warn("记录变化推送连接中断，正在重连...")
+
+    return () => source.close()
+  }, [loading])
 
   // ==================== 计算属性 ====================
 
   // 计算当前激活的筛选条件数量(用于显示角标)
   const activeFilterCount =
-    (customerTypeFilter !== "all" ? 1 : 0) + brandFilter.length + regionFilter.length
+    (customerTypeFilter !== "all" ? 1 : 0) +
+    brandFilter.length +
+    regionFilter.length +
+    (dateFrom || dateTo ? 1 : 0) +
+    (sourceFilter.length ? 1 : 0) +
+    (shapes.shape ? 1 : 0)
+
+  // 最近几天的动态数量（角标）
+  const recentAlertSince = new Date(Date.now() - ALERTS_RECENT_DAYS * 86400000).toISOString().slice(0, 10)
+  const recentAlertCount = alerts.filter((a) => (a.record.record_date || "") >= recentAlertSince).length
 
   // 统计信息
   const stats = {
-    total: filteredCustomers.length,
+    total: matchedTotal,
     totalVolume: filteredCustomers.reduce((sum, c) => sum , 0),
     topProducts: (() => {
       // 统计每个产品的出现次数
@@ -576,6 +1024,16 @@ export default function CustomerMap() {
     })(),
   }
 
+  /**
+   * 导出文件的下载地址: 服务端按当前筛选条件生成文件，浏览器直接下载
+   */
+  const buildExportUrl = (format: ExportFormat) => {
+    const params = new URLSearchParams(filterKey)
+    params.set("format", format)
+    if (exportViewportOnly && viewport) params.set("bbox", viewport.bounds.join(","))
+    return `/api/customer-data/export?${params}`
+  }
+
   // ==================== 飞书发送 ====================
 
   const sendFilteredToFeishu = async () => {
@@ -595,11 +1053,16 @@ export default function CustomerMap() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           customers: filteredCustomers,
-          stats,
+          // 分析的是当前视野内的记录，总数也按视野内计算
+          stats: { ...stats, total: filteredCustomers.length },
           filters: {
             brandFilter,
             customerTypeFilter,
             regionFilter,
+            // 时间轴打开时按当前查询实际使用的日期范围
+            dateFrom: dateFrom || undefined,
+            dateTo: new URLSearchParams(filterKey).get("to") || undefined,
+            shape: shapes.shape ? describeShape(shapes.shape) : undefined,
           },
           searchQuery,
         }),
@@ -626,13 +1089,10 @@ export default function CustomerMap() {
         summary = data.data
       }
 
-      console.log("AI 分析响应:", data)
-      console.log("提取的 summary:", summary)
-
       if (summary) {
         setAiText(summary)
         setAiMeta({
-          total: stats.total,
+          total: filteredCustomers.length,
           updatedAt: new Date().toISOString()
         })
         setAiStatus("ready")
@@ -658,6 +1118,47 @@ export default function CustomerMap() {
     }
   }
 
+  /**
+   * 把筛选条件、记录数、主要竞品产品和 AI 分析结果以卡片形式发送到飞书群
+   * 卡片中的链接会带上相同的筛选条件打开地图
+   */
+  const sendToFeishuGroup = async () => {
+    if (groupSendStatus === "sending" || aiStatus !== "ready") return
+    setGroupSendStatus("sending")
+    setGroupSendError("")
+
+    const query = new URLSearchParams(filterKey)
+    try {
+      const res = await fetch("/api/feishu/send-group", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          filters: {
+            regions: regionFilter,
+            brands: brandFilter,
+            sources: sourceFilter,
+            shape: shapes.shape,
+            q: debouncedSearch,
+            from: query.get("from") || "",
+            to: query.get("to") || "",
+          },
+          bbox: viewport?.bounds ?? null,
+        }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data?.error || "发送失败")
+
+      // 卡片中的分析由服务端重新生成，显示实际发送的内容
+      if (data?.summary) setAiText(data.summary)
+
+      setGroupSendStatus("sent")
+      setTimeout(() => setGroupSendStatus("idle"), 3000)
+    } catch (err: any) {
+      setGroupSendStatus("error")
+      setGroupSendError(err?.message || "发送失败")
+    }
+  }
+
   // 取消 AI 分析
   const cancelAiAnalysis = () => {
     if (abortControllerRef.current) {
@@ -703,6 +1204,7 @@ export default function CustomerMap() {
           onClick={() => {
             setStatsMenuOpen(!statsMenuOpen)
             setFilterMenuOpen(false)
+            setAlertsOpen(false)
           }}
           className={`w-9 h-9 bg-white/95 backdrop-blur-sm rounded-full shadow-lg flex items-center justify-center hover:scale-105 transition-all active:scale-95 flex-shrink-0 ${
             statsMenuOpen ? "bg-gray-200" : ""
@@ -736,7 +1238,7 @@ export default function CustomerMap() {
           />
           {/* 显示搜索结果数量 */}
           {searchQuery && (
-            <div className="px-3 pb-1.5 text-[9px] text-gray-500">找到 {filteredCustomers.length} 个结果</div>
+            <div className="px-3 pb-1.5 text-[9px] text-gray-500">找到 {matchedTotal} 个结果</div>
           )}
         </div>
 
@@ -745,6 +1247,7 @@ export default function CustomerMap() {
           onClick={() => {
             setFilterMenuOpen(!filterMenuOpen)
             setStatsMenuOpen(false)
+            setAlertsOpen(false)
           }}
           className={`relative w-9 h-9 bg-white/95 backdrop-blur-sm rounded-full shadow-lg flex items-center justify-center hover:scale-105 transition-all active:scale-95 flex-shrink-0 ${
             filterMenuOpen ? "bg-gray-200" : ""
@@ -773,6 +1276,41 @@ export default function CustomerMap() {
           )}
         </button>
 
+        {/* 最新动态按钮 */}
+        <button
+          onClick={() => {
+            setAlertsOpen(!alertsOpen)
+            setStatsMenuOpen(false)
+            setFilterMenuOpen(false)
+          }}
+          className={`relative w-9 h-9 bg-white/95 backdrop-blur-sm rounded-full shadow-lg flex items-center justify-center hover:scale-105 transition-all active:scale-95 flex-shrink-0 ${
+            alertsOpen ? "bg-gray-200" : ""
+          }`}
+          title="最新动态"
+        >
+          {/* 铃铛图标 */}
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-4 w-4"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15 17h5l-1.4-1.4A2 2 0 0118 14.2V11a6 6 0 10-12 0v3.2c0 .5-.2 1-.6 1.4L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+            />
+          </svg>
+          {/* 最近几天的动态数量角标 */}
+          {recentAlertCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 bg-red-500 text-white text-[9px] font-bold rounded-full min-w-3.5 h-3.5 px-0.5 flex items-center justify-center">
+              {recentAlertCount > 99 ? "99+" : recentAlertCount}
+            </span>
+          )}
+        </button>
+
         {/* AI 分析按钮 */}
         <button
           onClick={() => {
@@ -813,12 +1351,13 @@ export default function CustomerMap() {
         <>
           {/* 点击背景关闭菜单 */}
           <div className="fixed inset-0 z-10" onClick={() => setStatsMenuOpen(false)} />
-          <div className="absolute top-16 left-3 bg-white/95 backdrop-blur-sm rounded-lg shadow-xl p-3 space-y-2 min-w-[200px] z-20">
+          <div className="absolute top-16 left-3 bg-white/95 backdrop-blur-sm rounded-lg shadow-xl p-3 space-y-2 min-w-[200px] z-20 max-h-[70vh] overflow-y-auto">
             <div className="text-xs text-gray-600">记录总数</div>
             <div className="text-lg font-bold text-blue-600">{stats.total}</div>
+            <div className="text-[10px] text-gray-400">当前视野内 {filteredCustomers.length} 条</div>
 
             {/* 主要竞品产品 */}
-            <div className="text-xs text-gray-600">主要竞品产品</div>
+            <div className="text-xs text-gray-600">主要竞品产品（视野内）</div>
             <div className="space-y-1">
               {stats.topProducts.length > 0 ? (
                 stats.topProducts.map((product, index) => (
@@ -834,6 +1373,178 @@ export default function CustomerMap() {
                 <div className="text-xs text-gray-400">暂无数据</div>
               )}
             </div>
+
+            {/* 价格统计: 最低 / 中位 / 最高（全部符合条件的记录） */}
+            {priceStats &&
+              ([
+                ["价格（按产品）", priceStats.byProduct],
+                ["价格（按省区）", priceStats.byRegion],
+              ] as const).map(([title, rows]) =>
+                rows.length > 0 ? (
+                  <div key={title}>
+                    <div className="text-xs text-gray-600 mb-1">{title}</div>
+                    <table className="w-full text-[11px]">
+                      <thead>
+                        <tr className="text-gray-400">
+                          <th className="text-left font-normal"></th>
+                          <th className="text-right font-normal">最低</th>
+                          <th className="text-right font-normal">中位</th>
+                          <th className="text-right font-normal">最高</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rows.slice(0, 5).map((row) => (
+                          <tr key={row.name} title={`${row.count} 条有价格的记录`}>
+                            <td className="text-gray-700 truncate max-w-[90px] pr-2">{row.name}</td>
+                            <td className="text-right">{row.min}</td>
+                            <td className="text-right font-semibold text-purple-600">{row.median}</td>
+                            <td className="text-right">{row.max}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : null
+              )}
+
+            {/* 自有门店周边竞品: 按周边竞品记录数排列 */}
+            {ownStores.length > 0 && (
+              <div className="pt-2 border-t border-gray-100">
+                <div className="flex items-center justify-between mb-1">
+                  <div className="text-xs text-gray-600">{ownStoresName}周边竞品</div>
+                  <div className="flex gap-0.5">
+                    {COMPETITION_RADII.map((km) => (
+                      <button
+                        key={km}
+                        onClick={() => setCompetitionRadius(km)}
+                        className={`text-[10px] px-1.5 py-0.5 rounded ${
+                          competitionRadius === km ? "bg-blue-500 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                        }`}
+                      >
+                        {km}km
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="text-[10px] text-gray-400 mb-1">
+                  {ownStores.length} 家中 {ownStores.filter((store) => competition[store.id]?.records).length} 家在 {competitionRadius} 公里内有竞品
+                </div>
+                <div className="space-y-1">
+                  {[...ownStores]
+                    .sort((a, b) => (competition[b.id]?.records || 0) - (competition[a.id]?.records || 0))
+                    .slice(0, 5)
+                    .map((store) => {
+                      const summary = competition[store.id]
+                      return (
+                        <button
+                          key={store.id}
+                          onClick={() => {
+                            setStatsMenuOpen(false)
+                            selectOwnStore(store, true)
+                          }}
+                          className="w-full text-left text-xs hover:bg-gray-50 rounded px-1"
+                        >
+                          <span className="flex items-center justify-between">
+                            <span className="truncate max-w-[130px] text-gray-700">{store.name}</span>
+                            <span className="font-semibold text-purple-600">{summary?.records || 0}</span>
+                          </span>
+                          {summary && Object.keys(summary.brands).length > 0 && (
+                            <span className="block text-[10px] text-gray-400 truncate">
+                              {Object.entries(summary.brands)
+                                .sort((a, b) => b[1] - a[1])
+                                .map(([brand, count]) => `${brand} ${count}`)
+                                .join(" · ")}
+                            </span>
+                          )}
+                        </button>
+                      )
+                    })}
+                </div>
+              </div>
+            )}
+
+            {/* 导出记录 */}
+            <div className="pt-2 border-t border-gray-100">
+              <div className="flex items-center justify-between mb-1">
+                <div className="text-xs text-gray-600">导出记录</div>
+                <label className="flex items-center gap-1 text-[10px] text-gray-500">
+                  <input
+                    type="checkbox"
+                    checked={exportViewportOnly}
+                    onChange={(e) => setExportViewportOnly(e.target.checked)}
+                  />
+                  仅当前视野
+                </label>
+              </div>
+              <div className="grid grid-cols-4 gap-1">
+                {EXPORT_OPTIONS.map(([format, label]) => (
+                  <a
+                    key={format}
+                    href={buildExportUrl(format)}
+                    download
+                    className="text-center text-[11px] py-1 rounded bg-gray-100 hover:bg-gray-200 text-gray-700"
+                  >
+                    {label}
+                  </a>
+                ))}
+              </div>
+              <div className="flex items-center justify-between text-[10px] text-gray-400 mt-1">
+                <span>共 {exportViewportOnly ? filteredCustomers.length : stats.total} 条</span>
+                <span className="space-x-2">
+                  <a href="/quality" className="text-blue-600 hover:underline">
+                    数据质量
+                  </a>
+                  <a href="/import" className="text-blue-600 hover:underline">
+                    批量导入
+                  </a>
+                </span>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* ==================== 最新动态面板 ==================== */}
+      {alertsOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setAlertsOpen(false)} />
+          <div className="absolute top-16 left-3 right-3 bg-white/95 backdrop-blur-sm rounded-lg shadow-xl z-20 max-h-[70vh] flex flex-col">
+            <div className="px-3 py-2 border-b flex items-center justify-between">
+              <span className="text-sm font-semibold">最新动态</span>
+              <span className="text-[10px] text-gray-400">同一门店相邻两次巡店的降价、新促销</span>
+            </div>
+            <div className="overflow-y-auto divide-y">
+              {alerts.length === 0 && <div className="px-3 py-4 text-xs text-gray-400">暂无价格变动</div>}
+              {alerts.map((alert) => (
+                <button
+                  key={alert.id}
+                  onClick={() => {
+                    const customer = normalizeCustomer(alert.record)
+                    setAlertsOpen(false)
+                    mapRef.current?.setZoomAndCenter(Math.max(mapRef.current.getZoom(), 15), customer.coordinates)
+                    setSelectedCustomer(customer)
+                    setIsEditing(false)
+                    setDrawerHeight(50)
+                  }}
+                  className="w-full text-left px-3 py-2 hover:bg-gray-50"
+                >
+                  <div className="flex items-center gap-1.5">
+                    {alert.kinds.includes("price_drop") && (
+                      <span className="px-1.5 py-0.5 rounded text-[10px] bg-red-100 text-red-600 flex-shrink-0">降价</span>
+                    )}
+                    {alert.kinds.includes("new_promo") && (
+                      <span className="px-1.5 py-0.5 rounded text-[10px] bg-orange-100 text-orange-600 flex-shrink-0">新促销</span>
+                    )}
+                    <span className="text-sm font-medium truncate">{alert.record.name}</span>
+                    <span className="ml-auto text-[10px] text-gray-400 flex-shrink-0">{alert.record.record_date}</span>
+                  </div>
+                  <div className="text-xs text-gray-600 mt-0.5">{alert.summary}</div>
+                  <div className="text-[10px] text-gray-400">
+                    {[alert.record.brand, alert.record.region, `上次 ${alert.previous.record_date}`].filter(Boolean).join(" · ")}
+                  </div>
+                </button>
+              ))}
+            </div>
           </div>
         </>
       )}
@@ -890,6 +1601,22 @@ export default function CustomerMap() {
               )}
               {aiStatus === "error" && <div className="text-red-600">分析失败: {aiError}</div>}
               {aiStatus === "ready" && <div className="whitespace-pre-wrap">{aiText}</div>}
+              {aiStatus === "ready" && (
+                <div className="mt-3 flex items-center gap-2">
+                  <button
+                    onClick={sendToFeishuGroup}
+                    disabled={groupSendStatus === "sending" || !views.feishuUser}
+                    className={`px-3 py-1.5 text-xs rounded bg-blue-500 text-white hover:bg-blue-600 transition-colors ${
+                      groupSendStatus === "sending" || !views.feishuUser ? "opacity-70" : ""
+                    }`}
+                  >
+                    {groupSendStatus === "sending" ? "发送中..." : "发送到飞书群"}
+                  </button>
+                  {!views.feishuUser && <span className="text-xs text-gray-400">在飞书中打开地图后可发送</span>}
+                  {groupSendStatus === "sent" && <span className="text-xs text-green-600">已发送</span>}
+                  {groupSendStatus === "error" && <span className="text-xs text-red-600">{groupSendError}</span>}
+                </div>
+              )}
               {aiStatus === "idle" && <div className="text-gray-500">暂无分析结果</div>}
             </div>
           </div>
@@ -901,6 +1628,37 @@ export default function CustomerMap() {
         <>
           <div className="fixed inset-0 z-10" onClick={() => setFilterMenuOpen(false)} />
           <div className="absolute top-16 right-3 bg-white/95 backdrop-blur-sm rounded-lg shadow-xl p-3 space-y-2 w-48 z-20 max-h-[70vh] overflow-y-auto">
+            {/* 常用视图 */}
+            <SavedViewsSection views={views} onClose={() => setFilterMenuOpen(false)} />
+
+            {/* 图层: 有多个数据源时按数据源开关（至少保留一个），配置了自有门店时可开关自有门店 */}
+            {(dataSources.length > 1 || ownStores.length > 0) && (
+              <>
+                <div className="text-xs font-semibold mb-2">图层</div>
+                <div className="space-y-1 mb-3">
+                  {dataSources.length > 1 && dataSources.map((source) => {
+                    const visible = !sourceFilter.length || sourceFilter.includes(source.id)
+                    return (
+                      <label key={source.id} className="flex items-center gap-2 px-2 py-1 text-xs rounded hover:bg-gray-100 cursor-pointer">
+                        <input type="checkbox" checked={visible} onChange={() => toggleSourceLayer(source.id)} />
+                        <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: source.color }} />
+                        <span className="flex-1 truncate">{source.displayName}</span>
+                        <span className="opacity-70">{facets.sources[source.id] || 0}</span>
+                      </label>
+                    )
+                  })}
+                  {ownStores.length > 0 && (
+                    <label className="flex items-center gap-2 px-2 py-1 text-xs rounded hover:bg-gray-100 cursor-pointer">
+                      <input type="checkbox" checked={showOwnStores} onChange={(e) => setShowOwnStores(e.target.checked)} />
+                      <span className="w-2.5 h-2.5 rounded-sm flex-shrink-0" style={{ backgroundColor: OWN_STORE_COLOR }} />
+                      <span className="flex-1 truncate">{ownStoresName}</span>
+                      <span className="opacity-70">{ownStores.length}</span>
+                    </label>
+                  )}
+                </div>
+              </>
+            )}
+
             {/* 省区筛选 */}
             <div className="text-xs font-semibold mb-2">省区</div>
             <div className="space-y-1">
@@ -926,7 +1684,10 @@ export default function CustomerMap() {
                         : "bg-gray-100 hover:bg-gray-200"
                   }`}
                 >
-                  {region}
+                  <span className="flex items-center justify-between">
+                    <span>{region}</span>
+                    {region !== "全部省区" && <span className="opacity-70">{facets.regions[region] || 0}</span>}
+                  </span>
                 </button>
               ))}
             </div>
@@ -954,7 +1715,80 @@ export default function CustomerMap() {
                         : "bg-gray-100 hover:bg-gray-200"
                   }`}
                 >
-                  {brand}
+                  <span className="flex items-center justify-between">
+                    <span>{brand}</span>
+                    {brand !== "全部品牌" && <span className="opacity-70">{facets.brands[brand] || 0}</span>}
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            {/* 记录日期筛选 */}
+            <div className="flex items-center justify-between mb-2 mt-3">
+              <span className="text-xs font-semibold">记录日期</span>
+              {(dateFrom || dateTo) && (
+                <button
+                  onClick={() => {
+                    setDateFrom("")
+                    setDateTo("")
+                  }}
+                  className="text-[11px] text-blue-600 hover:underline"
+                >
+                  清除
+                </button>
+              )}
+            </div>
+            <div className="space-y-1">
+              {([
+                ["起", dateFrom, setDateFrom],
+                ["止", dateTo, setDateTo],
+              ] as const).map(([label, value, setValue]) => (
+                <label key={label} className="flex items-center gap-2 text-xs text-gray-600">
+                  <span className="flex-shrink-0">{label}</span>
+                  <input
+                    type="date"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    className="flex-1 min-w-0 text-xs border rounded px-1.5 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                </label>
+              ))}
+            </div>
+            <button
+              onClick={() => {
+                timeline.toggle()
+                setFilterMenuOpen(false)
+              }}
+              className={`w-full mt-1 px-2 py-1.5 text-xs rounded transition-colors ${
+                timeline.open ? "bg-blue-500 text-white" : "bg-gray-100 hover:bg-gray-200"
+              }`}
+            >
+              {timeline.open ? "关闭时间轴" : "按月播放时间轴"}
+            </button>
+
+            {/* 范围: 在地图上画圆/矩形/多边形，只看范围内的记录 */}
+            <ShapeFilterSection
+              shapes={shapes}
+              userId={views.feishuUser?.openId ?? null}
+              onClose={() => setFilterMenuOpen(false)}
+            />
+
+            {/* 显示方式 */}
+            <div className="text-xs font-semibold mb-2 mt-3">显示方式</div>
+            <div className="flex gap-1">
+              {([
+                ["markers", "标记"],
+                ["heatmap", "热力图"],
+                ["choropleth", "分级设色"],
+              ] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => setMapMode(mode)}
+                  className={`flex-1 px-2 py-1.5 text-xs rounded transition-colors ${
+                    mapMode === mode ? "bg-blue-500 text-white" : "bg-gray-100 hover:bg-gray-200"
+                  }`}
+                >
+                  {label}
                 </button>
               ))}
             </div>
@@ -962,11 +1796,159 @@ export default function CustomerMap() {
         </>
       )}
 
+      {/* ==================== 画范围提示 ==================== */}
+      {shapes.drawMode && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-20 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg px-3 py-2 flex items-center gap-3 text-xs">
+          <span className="text-gray-700">
+            {shapes.drawMode === "polygon"
+              ? "依次点击各个顶点，双击结束"
+              : `在地图上拖动画出${shapes.drawMode === "circle" ? "圆形" : "矩形"}`}
+          </span>
+          <button onClick={() => shapes.setDrawMode(null)} className="text-blue-600 hover:underline">
+            取消
+          </button>
+        </div>
+      )}
+
+      {/* ==================== 时间轴 ==================== */}
+      {timeline.open && <TimelineBar timeline={timeline} total={matchedTotal} />}
+
+      {/* ==================== 热力图图例 ==================== */}
+      {mapMode === "heatmap" && <HeatmapLegend {...heatmap} />}
+
+      {/* ==================== 分级设色图例 ==================== */}
+      {mapMode === "choropleth" && (
+        <ChoroplethLegend choropleth={choropleth} brands={BRANDS.filter((b) => b !== "全部品牌")} />
+      )}
+
+      {/* ==================== 聚合点成员列表 ==================== */}
+      {clusterMembers && (
+        <>
+          <div className="absolute inset-0 bg-black/20 z-40" onClick={() => setClusterMembers(null)} />
+          <div className="absolute bottom-0 left-1/2 -translate-x-1/2 w-full max-w-2xl bg-white rounded-t-2xl shadow-2xl z-60 max-h-[60vh] flex flex-col">
+            <div className="flex items-center justify-between px-4 py-3 border-b">
+              <div className="text-sm font-semibold">此位置共 {clusterMembers.length} 家门店</div>
+              <button
+                onClick={() => setClusterMembers(null)}
+                className="w-8 h-8 bg-gray-100 hover:bg-gray-200 rounded-full flex items-center justify-center transition-colors"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-5 w-5"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="overflow-y-auto divide-y">
+              {clusterMembers.map((c) => (
+                <button
+                  key={c.id}
+                  onClick={() => {
+                    setClusterMembers(null)
+                    setSelectedCustomer(c)
+                    setIsEditing(false)
+                    setDrawerHeight(30)
+                  }}
+                  className="w-full text-left px-4 py-2.5 hover:bg-gray-50 flex items-center gap-2"
+                >
+                  <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: brandColor(c.brand) }} />
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm font-medium truncate">{c.name}</span>
+                    <span className="block text-xs text-gray-500 truncate">
+                      {[c.brand, c.productName, c.record_date].filter(Boolean).join(" · ")}
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* ==================== 自有门店周边竞品 ==================== */}
+      {selectedOwnStore && (
+        <div className="absolute bottom-0 left-1/2 -translate-x-1/2 w-full max-w-2xl bg-white rounded-t-2xl shadow-2xl z-40 max-h-[45vh] flex flex-col">
+          <div className="flex items-start justify-between px-4 py-3 border-b gap-2">
+            <div className="min-w-0">
+              <div className="text-sm font-semibold flex items-center gap-1.5">
+                <span className="w-2.5 h-2.5 rounded-sm flex-shrink-0" style={{ backgroundColor: OWN_STORE_COLOR }} />
+                <span className="truncate">{selectedOwnStore.name}</span>
+              </div>
+              <div className="text-xs text-gray-500 truncate">
+                {[selectedOwnStore.region, selectedOwnStore.address].filter(Boolean).join(" · ") || ownStoresName}
+              </div>
+              <div className="text-xs text-gray-700 mt-1">
+                {competitionRadius} 公里内竞品记录 <b>{competition[selectedOwnStore.id]?.records ?? "-"}</b> 条，
+                竞品门店 <b>{competition[selectedOwnStore.id]?.stores ?? "-"}</b> 家
+              </div>
+              {competition[selectedOwnStore.id] && (
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {Object.entries(competition[selectedOwnStore.id].brands)
+                    .sort((a, b) => b[1] - a[1])
+                    .map(([brand, count]) => (
+                      <span key={brand} className="text-[11px] px-1.5 py-0.5 rounded text-white" style={{ backgroundColor: brandColor(brand) }}>
+                        {brand} {count}
+                      </span>
+                    ))}
+                </div>
+              )}
+            </div>
+            <button
+              onClick={closeOwnStore}
+              className="w-8 h-8 flex-shrink-0 bg-gray-100 hover:bg-gray-200 rounded-full flex items-center justify-center transition-colors"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-5 w-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <div className="overflow-y-auto divide-y">
+            {ownStoreCompetitors === null ? (
+              <div className="px-4 py-3 text-xs text-gray-400">加载中...</div>
+            ) : ownStoreCompetitors.length === 0 ? (
+              <div className="px-4 py-3 text-xs text-gray-400">{competitionRadius} 公里内没有符合筛选条件的竞品记录</div>
+            ) : (
+              ownStoreCompetitors.map((c) => (
+                <button
+                  key={c.id}
+                  onClick={() => {
+                    closeOwnStore()
+                    restoreSelection({ ...urlFilters, store: "", record: c.id, zoom: null, center: null }, true)
+                  }}
+                  className="w-full text-left px-4 py-2 hover:bg-gray-50 flex items-center gap-2"
+                >
+                  <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: brandColor(c.brand) }} />
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm font-medium truncate">{c.name}</span>
+                    <span className="block text-xs text-gray-500 truncate">
+                      {[c.brand, c.productName, c.record_date].filter(Boolean).join(" · ")}
+                    </span>
+                  </span>
+                  <span className="text-xs text-gray-500 flex-shrink-0">
+                    {c.distance >= 1000 ? `${(c.distance / 1000).toFixed(1)} 公里` : `${c.distance} 米`}
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
       {/* ==================== 客户详情抽屉 ==================== */}
       {selectedCustomer && (
         <>
           {/* 背景遮罩 */}
-          <div className="absolute inset-0 bg-black/20 z-40" onClick={() => setSelectedCustomer(null)} />
+          <div className="absolute inset-0 bg-black/20 z-40" onClick={closeDrawer} />
 
           {/* 抽屉面板 */}
           <div
@@ -988,7 +1970,7 @@ export default function CustomerMap() {
 
             {/* 关闭按钮 */}
             <button
-              onClick={() => setSelectedCustomer(null)}
+              onClick={closeDrawer}
               className="absolute top-3 right-3 w-8 h-8 bg-gray-100 hover:bg-gray-200 rounded-full flex items-center justify-center transition-colors z-10"
             >
               <svg
@@ -1011,8 +1993,36 @@ export default function CustomerMap() {
               }}
             >
               {/* 客户名称 */}
-              <h3 className="text-base font-bold mb-3">{selectedCustomer.name}</h3>
-              {/* 基本信息列表 */}
+              <div className="flex items-center gap-2 mb-3 pr-10">
+                <h3 className="text-base font-bold">{selectedCustomer.name}</h3>
+                {!isEditing && (
+                  <button
+                    onClick={() => {
+                      setIsEditing(true)
+                      setDrawerHeight(Math.max(drawerHeight, 70))
+                    }}
+                    className="px-2 py-0.5 text-xs rounded bg-gray-100 hover:bg-gray-200 transition-colors flex-shrink-0"
+                  >
+                    编辑
+                  </button>
+                )}
+              </div>
+              {/* 编辑表单 */}
+              {isEditing ? (
+                <RecordForm
+                  key={selectedCustomer.id}
+                  mode="edit"
+                  recordId={selectedCustomer.id}
+                  initial={toFormValues(selectedCustomer)}
+                  regions={REGIONS.filter((r) => r !== "全部省区")}
+                  onSaved={(customer) => {
+                    applyCustomerChanges([normalizeCustomer(customer)])
+                    setIsEditing(false)
+                  }}
+                  onCancel={() => setIsEditing(false)}
+                />
+              ) : (
+              /* 基本信息列表 */
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between py-2 border-b">
                   <span className="text-gray-600">竞品品牌</span>
@@ -1042,7 +2052,13 @@ export default function CustomerMap() {
                 </div>
                 <div className="flex justify-between py-2 border-b">
                   <span className="text-gray-600">折扣/价格</span>
-                  <span className="font-medium text-right max-w-[60%]">{selectedCustomer.discountprice || "未知"}</span>
+                  <span className="font-medium text-right max-w-[60%]">
+                    {selectedCustomer.discountprice || "未知"}
+                    {/* 解析出的结构化价格 */}
+                    {describePrice(selectedCustomer.price) && (
+                      <span className="block text-xs font-normal text-gray-500">{describePrice(selectedCustomer.price)}</span>
+                    )}
+                  </span>
                 </div>
                 <div className="flex justify-between py-2 border-b">
                   <span className="text-gray-600">经销商</span>
@@ -1060,12 +2076,120 @@ export default function CustomerMap() {
                   <span className="text-gray-600">地址</span>
                   <span className="font-medium text-right max-w-[60%]">{selectedCustomer.address}</span>
                 </div>
+                {dataSources.length > 1 && (
+                  <div className="flex justify-between py-2 border-b">
+                    <span className="text-gray-600">数据源</span>
+                    <span className="font-medium text-right max-w-[60%]">
+                      {dataSources.find((s) => s.id === selectedCustomer.source)?.displayName || selectedCustomer.source || "未知"}
+                    </span>
+                  </div>
+                )}
+                {/* 坐标由地址解析得到时显示可信度，可确认后写回飞书 */}
+                {selectedCustomer.geocode && (
+                  <div className="flex justify-between items-start py-2 border-b">
+                    <span className="text-gray-600">坐标来源</span>
+                    <span className="text-right max-w-[60%]">
+                      <span className="font-medium" style={{ color: GEOCODE_CONFIDENCE[selectedCustomer.geocode.confidence].color }}>
+                        地址解析 · 可信度{GEOCODE_CONFIDENCE[selectedCustomer.geocode.confidence].label}
+                      </span>
+                      {selectedCustomer.geocode.level && (
+                        <span className="text-xs text-gray-500">（{selectedCustomer.geocode.level}）</span>
+                      )}
+                      <button
+                        onClick={() => writeBackCoordinates(selectedCustomer)}
+                        disabled={writeBackStatus === "saving"}
+                        className="block ml-auto mt-1 px-2 py-0.5 text-xs rounded bg-gray-100 hover:bg-gray-200 transition-colors"
+                      >
+                        {writeBackStatus === "saving" ? "写回中..." : "确认坐标并写回飞书"}
+                      </button>
+                      {writeBackStatus === "error" && <span className="block text-xs text-red-600">{writeBackError}</span>}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between py-2 border-b">
                   <span className="text-gray-600">记录日期</span>
                   <span className="font-medium text-right max-w-[60%]">{selectedCustomer.record_date || "未知"}</span>
                 </div>
+
+                {/* 巡店时间线: 点击某次巡店查看/编辑该次记录 */}
+                {storeVisits && storeVisits.length > 1 && (
+                  <div className="pt-3">
+                    <div className="text-xs font-semibold text-gray-600 mb-2">巡店记录（{storeVisits.length} 次）</div>
+                    <ol className="relative border-l border-gray-200 ml-1.5 space-y-2">
+                      {storeVisits.map((visit) => {
+                        const current = visit.id === selectedCustomer.id
+                        return (
+                          <li key={visit.id} className="ml-3">
+                            <span
+                              className={`absolute -left-[5px] mt-1.5 w-2.5 h-2.5 rounded-full border-2 border-white ${
+                                current ? "bg-blue-500" : "bg-gray-300"
+                              }`}
+                            />
+                            <button
+                              onClick={() => setSelectedCustomer({ ...visit, storeId: selectedCustomer.storeId })}
+                              className={`w-full text-left rounded px-2 py-1 transition-colors ${
+                                current ? "bg-blue-50" : "hover:bg-gray-50"
+                              }`}
+                            >
+                              <div className="text-xs font-medium">{visit.record_date || "日期未知"}</div>
+                              <div className="text-xs text-gray-500">
+                                {[visit.brand, visit.productName, visit.discountprice].filter(Boolean).join(" · ") || "无详情"}
+                              </div>
+                            </button>
+                          </li>
+                        )
+                      })}
+                    </ol>
+                  </div>
+                )}
               </div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* ==================== 新增记录面板 ==================== */}
+      {newRecordCoords && (
+        <>
+          {/* 背景遮罩 */}
+          <div className="absolute inset-0 bg-black/20 z-40" onClick={() => setNewRecordCoords(null)} />
+
+          <div className="absolute bottom-0 left-1/2 -translate-x-1/2 w-full max-w-2xl bg-white rounded-t-2xl shadow-2xl z-60 max-h-[80vh] overflow-y-auto px-4 pb-4">
+            <div className="flex items-center justify-between py-3">
+              <h3 className="text-base font-bold">新增巡店记录</h3>
+              <button
+                onClick={() => setNewRecordCoords(null)}
+                className="w-8 h-8 bg-gray-100 hover:bg-gray-200 rounded-full flex items-center justify-center transition-colors"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-5 w-5"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
             </div>
+            <RecordForm
+              key={newRecordCoords.join(",")}
+              mode="create"
+              initial={toFormValues({
+                coordinates: newRecordCoords,
+                record_date: new Date().toISOString().slice(0, 10),
+              })}
+              regions={REGIONS.filter((r) => r !== "全部省区")}
+              onSaved={(customer) => {
+                const created = normalizeCustomer(customer)
+                applyCustomerChanges([created])
+                setNewRecordCoords(null)
+                setSelectedCustomer(created)
+                setDrawerHeight(30)
+              }}
+              onCancel={() => setNewRecordCoords(null)}
+            />
           </div>
         </>
       )}
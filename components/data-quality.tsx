@@ -0,0 +1,154 @@
+/**
+ * =====================================================
+ * 数据质量 (components/data-quality.tsx)
+ * =====================================================
+ *
+ * 列出无法在地图上展示的记录（附原因）和可疑记录（GET /api/data-quality）
+ * 每一行可直接打开飞书中的记录修改，可疑记录还可以在地图中查看
+ * =====================================================
+ */
+
+"use client"
+
+import { useEffect, useState } from "react"
+import type { QualityIssueKind, QualityReport } from "@/lib/data-quality"
+
+// 问题类型及文字，顺序与报告中的排列一致
+const ISSUE_KINDS: { kind: QualityIssueKind; label: string }[] = [
+  { kind: "rejected", label: "无法展示" },
+  { kind: "outside_china", label: "坐标不在中国" },
+  { kind: "swapped", label: "经纬度填反" },
+  { kind: "duplicate_store", label: "疑似重复门店" },
+  { kind: "duplicate_record", label: "重复记录" },
+  { kind: "missing_brand", label: "缺少品牌" },
+  { kind: "invalid_date", label: "日期无法解析" },
+]
+
+const KIND_LABELS = Object.fromEntries(ISSUE_KINDS.map(({ kind, label }) => [kind, label])) as Record<QualityIssueKind, string>
+
+export default function DataQuality() {
+  const [report, setReport] = useState<QualityReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [kind, setKind] = useState<QualityIssueKind | null>(null) // 只看某一类问题
+
+  const load = async () => {
+    setLoading(true)
+    setError("")
+    try {
+      const res = await fetch("/api/data-quality")
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data?.error || "获取数据质量报告失败")
+      setReport(data)
+    } catch (err: any) {
+      setError(err?.message || "获取数据质量报告失败")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    load()
+  }, [])
+
+  const issues = report ? [...report.rejected, ...report.suspicious].filter((issue) => !kind || issue.kind === kind) : []
+  // 有多个数据源时标出记录所在的数据源
+  const sourceNames = report && report.sources.length > 1 ? Object.fromEntries(report.sources.map((s) => [s.id, s.displayName])) : null
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 space-y-4 text-sm">
+      <div className="flex items-center justify-between">
+        <h1 className="text-lg font-semibold">数据质量</h1>
+        <div className="flex items-center gap-3 text-xs">
+          <button onClick={load} disabled={loading} className="text-blue-600 hover:underline">
+            {loading ? "检查中..." : "重新检查"}
+          </button>
+          <a href="/" className="text-blue-600 hover:underline">
+            返回地图
+          </a>
+        </div>
+      </div>
+
+      {error && <div className="text-xs text-red-600">{error}</div>}
+
+      {report && (
+        <>
+          {/* 汇总，点击只看某一类 */}
+          <div className="bg-white rounded-lg shadow p-4 space-y-2">
+            <div className="text-xs text-gray-500">
+              共 {report.total} 条记录，无法展示 <b className="text-red-600">{report.rejected.length}</b> 条，可疑{" "}
+              <b className="text-orange-500">{report.suspicious.length}</b> 处（数据更新于 {new Date(report.generatedAt).toLocaleString()}）
+            </div>
+            <div className="flex flex-wrap gap-1">
+              <button
+                onClick={() => setKind(null)}
+                className={`text-[11px] px-2 py-0.5 rounded ${!kind ? "bg-blue-500 text-white" : "bg-gray-100 text-gray-600"}`}
+              >
+                全部
+              </button>
+              {ISSUE_KINDS.map(({ kind: k, label }) => (
+                <button
+                  key={k}
+                  onClick={() => setKind(kind === k ? null : k)}
+                  disabled={!report.counts[k]}
+                  className={`text-[11px] px-2 py-0.5 rounded ${
+                    kind === k ? "bg-blue-500 text-white" : report.counts[k] ? "bg-gray-100 text-gray-600" : "bg-gray-50 text-gray-300"
+                  }`}
+                >
+                  {label} {report.counts[k]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* 问题列表 */}
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            {issues.length === 0 ? (
+              <div className="p-4 text-center text-gray-400">没有发现问题</div>
+            ) : (
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50">
+                  <tr className="text-gray-500">
+                    <th className="text-left font-normal px-2 py-1 w-24">类型</th>
+                    <th className="text-left font-normal px-2 py-1">门店</th>
+                    <th className="text-left font-normal px-2 py-1">问题</th>
+                    <th className="text-left font-normal px-2 py-1 w-20">记录日期</th>
+                    <th className="text-right font-normal px-2 py-1 w-28"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {issues.map((issue, i) => (
+                    <tr key={`${issue.kind}-${issue.recordId}-${i}`} className="border-t align-top">
+                      <td className={`px-2 py-1 ${issue.kind === "rejected" ? "text-red-600" : "text-orange-500"}`}>{KIND_LABELS[issue.kind]}</td>
+                      <td className="px-2 py-1">
+                        {issue.name || <span className="text-gray-400">（空）</span>}
+                        <div className="text-[10px] text-gray-400 font-mono">
+                          {issue.recordId}
+                          {sourceNames && <span className="font-sans"> · {sourceNames[issue.source] || issue.source}</span>}
+                        </div>
+                      </td>
+                      <td className="px-2 py-1 text-gray-700">{issue.message}</td>
+                      <td className="px-2 py-1 text-gray-500">{issue.record_date || "-"}</td>
+                      <td className="px-2 py-1 text-right space-x-2 whitespace-nowrap">
+                        {issue.coordinates && (
+                          <a href={`/?record=${encodeURIComponent(issue.recordId)}`} className="text-blue-600 hover:underline">
+                            地图
+                          </a>
+                        )}
+                        {issue.feishuUrl && (
+                          <a href={issue.feishuUrl} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">
+                            在飞书中修改
+                          </a>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
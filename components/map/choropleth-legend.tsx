@@ -0,0 +1,90 @@
+/**
+ * =====================================================
+ * 分级设色图例 (components/map/choropleth-legend.tsx)
+ * =====================================================
+ *
+ * 地图左下角: 当前层级（全国 / 下钻的省份）、统计方式、颜色等级和悬停行政区的数据
+ * =====================================================
+ */
+
+"use client"
+
+import type { ChoroplethState } from "@/components/map/use-choropleth"
+import { type ChoroplethMetric, CHOROPLETH_COLORS } from "@/lib/choropleth"
+
+interface ChoroplethLegendProps {
+  choropleth: ChoroplethState
+  brands: string[] // 可计算占比的品牌
+}
+
+export default function ChoroplethLegend({ choropleth, brands }: ChoroplethLegendProps) {
+  const { metric, setMetric, brand, setBrand, province, setProvince, records, legend, hoveredRegion } = choropleth
+
+  return (
+    <div className="absolute bottom-6 left-3 z-10 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg p-3 w-56 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-semibold truncate">{province ? province.name : "全国"}</span>
+        {province && (
+          <button onClick={() => setProvince(null)} className="text-[11px] text-blue-600 hover:underline flex-shrink-0">
+            返回全国
+          </button>
+        )}
+      </div>
+      <div className="flex gap-1">
+        <select
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as ChoroplethMetric)}
+          className="flex-1 text-[11px] border rounded px-1 py-0.5 bg-white focus:outline-none"
+        >
+          <option value="count">记录数</option>
+          <option value="share">品牌占比</option>
+        </select>
+        {metric === "share" && (
+          <select
+            value={brand}
+            onChange={(e) => setBrand(e.target.value)}
+            className="flex-1 text-[11px] border rounded px-1 py-0.5 bg-white focus:outline-none"
+          >
+            {brands.map((b) => (
+              <option key={b} value={b}>
+                {b}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {legend.length > 0 && (
+        <div className="space-y-0.5">
+          {CHOROPLETH_COLORS.map((color, i) => {
+            const format = (v: number) => (metric === "share" ? `${Math.round(v * 100)}%` : String(v))
+            // 记录数是整数，下限取上一档上限 + 1
+            const lower = metric === "share" ? format(i === 0 ? 0 : legend[i - 1]) : String(i === 0 ? 1 : legend[i - 1] + 1)
+            return (
+              <div key={color} className="flex items-center gap-2 text-[10px] text-gray-600">
+                <span className="w-4 h-2.5 rounded-sm" style={{ backgroundColor: color }} />
+                <span>
+                  {lower} ~ {format(legend[i])}
+                </span>
+              </div>
+            )
+          })}
+        </div>
+      )}
+      <div className="text-[11px] text-gray-600 min-h-[16px]">
+        {!records
+          ? "加载中..."
+          : hoveredRegion
+            ? `${hoveredRegion.name}: ${
+                hoveredRegion.stat
+                  ? metric === "share"
+                    ? `${brand} ${hoveredRegion.stat.brandCount}/${hoveredRegion.stat.count} 条 (${Math.round(hoveredRegion.stat.value * 100)}%)`
+                    : `${hoveredRegion.stat.count} 条`
+                  : "无记录"
+              }`
+            : province
+              ? "悬停查看各市数据"
+              : "点击省份查看各市"}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+/**
+ * =====================================================
+ * 地图上的巡店记录 (components/map/customer-data.ts)
+ * =====================================================
+ *
+ * 地图组件内部使用的记录结构，以及规整、按门店归并、品牌颜色等公共方法
+ * 接口返回的记录先经 normalizeCustomer 规整，再交给各个图层
+ * =====================================================
+ */
+
+import { type ParsedPrice, parsePrice } from "@/lib/price"
+import type { GeocodeInfo } from "@/lib/geocode"
+
+/**
+ * 客户数据接口定义
+ * 描述每个客户对象包含哪些字段
+ */
+export interface CustomerData {
+  id: string // 唯一标识
+  name: string // 竞品品牌
+  coordinates: [number, number] // 坐标 [经度, 纬度]
+  productName: string // 货品名称
+  address: string // 地址
+  brand: string // 品牌字段
+  discountprice: string // 折扣/价格
+  price: ParsedPrice // 结构化价格（原价、促销价、折扣率、规格、促销方式）
+  distributor: string // 经销商
+  district: string // 片区
+  record_date: number | string | null // 记录日期
+  region: string // 省区
+  storeId: string // 所属门店（同一门店的多次巡店记录相同）
+  geocode: GeocodeInfo | null // 坐标由地址解析得到时的可信度
+  source: string // 所属数据源 id
+}
+
+/**
+ * 品牌颜色（图钉、聚合色环使用）
+ * 未列出的品牌使用 DEFAULT_BRAND_COLOR
+ */
+export const BRAND_COLORS: Record<string, string> = {
+  雕牌: "#ef4444",
+  白猫: "#3b82f6",
+  其他: "#9ca3af",
+}
+export const DEFAULT_BRAND_COLOR = "#f59e0b"
+
+// 每页请求的记录数
+export const PAGE_SIZE = 2000
+
+/**
+ * 把接口返回的记录规整为 CustomerData（缺失字段给默认值）
+ */
+export function normalizeCustomer(c: any): CustomerData {
+  return {
+    id: c.id || String(c.record_id || c.recordId || Math.random()),
+    name: c.name || "",
+    coordinates: Array.isArray(c.coordinates) && c.coordinates.length === 2 ? c.coordinates : [0, 0],
+    productName: c.productName || c.product_name || "未知",
+    address: c.address || "",
+    brand: c.brand || c.distributor || "",
+    discountprice: c.discountprice || "",
+    price: c.price || parsePrice(c.discountprice),
+    record_date: c.record_date || null,
+    distributor: c.distributor || "",
+    region: c.region || "",
+    district: c.district || "",
+    storeId: c.storeId || c.id || "",
+    geocode: c.geocode || null,
+    source: c.source || "",
+  }
+}
+
+/**
+ * 按门店归并记录，每个门店取最近一次巡店作为图钉显示的记录
+ */
+export function groupByStore(customers: CustomerData[]): Array<{ customer: CustomerData; visits: number }> {
+  const stores = new Map<string, { customer: CustomerData; visits: number }>()
+  for (const c of customers) {
+    const store = stores.get(c.storeId)
+    if (!store) {
+      stores.set(c.storeId, { customer: c, visits: 1 })
+      continue
+    }
+    store.visits++
+    if (String(c.record_date || "") > String(store.customer.record_date || "")) store.customer = c
+  }
+  return [...stores.values()]
+}
+
+/**
+ * 拆分品牌字段（支持"雕牌、其他"这种格式）
+ */
+export function splitBrandNames(brand: string): string[] {
+  return (brand || "").split(/[、,，]/).map((name) => name.trim()).filter(Boolean)
+}
+
+/**
+ * 品牌对应的颜色（多个品牌取第一个）
+ */
+export function brandColor(brand: string): string {
+  const first = splitBrandNames(brand)[0]
+  return (first && BRAND_COLORS[first]) || DEFAULT_BRAND_COLOR
+}
+
+/**
+ * 按页加载全部符合条件的记录（不限视野）
+ *
+ * @param filterParams - 筛选条件对应的查询参数（见 CustomerMap 中的 buildFilterParams）
+ */
+export async function fetchAllCustomers(filterParams: string, signal: AbortSignal): Promise<CustomerData[]> {
+  const params = new URLSearchParams(filterParams)
+  params.set("limit", String(PAGE_SIZE))
+
+  const records: CustomerData[] = []
+  let cursor: string | null = null
+  do {
+    if (cursor) params.set("cursor", cursor)
+    const response: Response = await fetch(`/api/customer-data?${params}`, { cache: "no-cache", signal })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data?.error || "加载数据失败")
+    records.push(...(data.customers || []).map(normalizeCustomer))
+    cursor = data.nextCursor || null
+  } while (cursor)
+
+  return records
+}
@@ -0,0 +1,55 @@
+/**
+ * =====================================================
+ * 热力图图例 (components/map/heatmap-legend.tsx)
+ * =====================================================
+ *
+ * 地图左下角: 色带、权重（按记录数 / 按价格）和强度滑块
+ * =====================================================
+ */
+
+"use client"
+
+import { type HeatmapState, type HeatWeight, HEATMAP_GRADIENT } from "@/components/map/use-heatmap"
+
+export default function HeatmapLegend({ heatWeight, setHeatWeight, heatIntensity, setHeatIntensity }: HeatmapState) {
+  return (
+    <div className="absolute bottom-6 left-3 z-10 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg p-3 w-52 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold">竞品密度</span>
+        <select
+          value={heatWeight}
+          onChange={(e) => setHeatWeight(e.target.value as HeatWeight)}
+          className="text-[11px] border rounded px-1 py-0.5 bg-white focus:outline-none"
+        >
+          <option value="count">按记录数</option>
+          <option value="price">按价格</option>
+        </select>
+      </div>
+      <div
+        className="h-2 rounded-full"
+        style={{
+          background: `linear-gradient(to right, ${Object.entries(HEATMAP_GRADIENT)
+            .map(([stop, color]) => `${color} ${Number(stop) * 100}%`)
+            .join(", ")})`,
+        }}
+      />
+      <div className="flex justify-between text-[10px] text-gray-500">
+        <span>低</span>
+        <span>高</span>
+      </div>
+      <label className="flex items-center gap-2 text-[11px] text-gray-600">
+        <span className="flex-shrink-0">强度</span>
+        <input
+          type="range"
+          min={0.2}
+          max={3}
+          step={0.1}
+          value={heatIntensity}
+          onChange={(e) => setHeatIntensity(Number(e.target.value))}
+          className="flex-1"
+        />
+        <span className="w-7 text-right font-mono">{heatIntensity.toFixed(1)}</span>
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,217 @@
+/**
+ * =====================================================
+ * 地图标记 DOM (components/map/markers.ts)
+ * =====================================================
+ *
+ * 竞品图钉、聚合点和自有门店图标的 DOM 内容（交给高德地图 Marker / MarkerCluster 显示）
+ * - 图钉: 品牌颜色，悬停显示品牌 Logo，多次巡店显示次数，地址解析得到的坐标标注可信度
+ * - 聚合点: 中间显示数量，外圈按品牌占比着色
+ * - 自有门店: 方形底座的房子图标
+ * =====================================================
+ */
+
+import { type CustomerData, BRAND_COLORS, DEFAULT_BRAND_COLOR, brandColor, splitBrandNames } from "@/components/map/customer-data"
+import type { GeocodeConfidence } from "@/lib/geocode"
+import type { OwnStore } from "@/lib/own-stores"
+
+/**
+ * 品牌Logo映射
+ * 键: 品牌名称
+ * 值: Logo图片路径(存放在public/images目录)
+ */
+export const BRAND_LOGOS: Record<string, string> = {
+  雕牌: "/images/diaopai.png",
+  其他: "", // 其他类型没有logo
+}
+
+// 图钉大小（像素）
+export const PIN_SIZE = 28
+
+// 地址解析可信度: 文字和图钉角标颜色
+export const GEOCODE_CONFIDENCE: Record<GeocodeConfidence, { label: string; color: string }> = {
+  high: { label: "高", color: "#16a34a" },
+  medium: { label: "中", color: "#f59e0b" },
+  low: { label: "低", color: "#ef4444" },
+}
+
+// 自有门店图标颜色
+export const OWN_STORE_COLOR = "#0f766e"
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (ch) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[ch] || ch)
+}
+
+/**
+ * 创建单个门店的图钉 DOM（悬停显示品牌 Logo，多次巡店的门店右上角显示次数）
+ * 有多个数据源时，图钉中心的圆点使用数据源颜色
+ */
+export function createPinContent(customer: CustomerData, visits = 1, sourceColor?: string): HTMLElement {
+  const pinColor = brandColor(customer.brand)
+
+  const div = document.createElement("div")
+  div.style.position = "relative"
+  div.style.width = `${PIN_SIZE}px`
+  div.style.height = `${PIN_SIZE * 1.2}px`
+  div.style.cursor = "pointer"
+  div.innerHTML = `
+    <svg width="${PIN_SIZE}" height="${PIN_SIZE * 1.2}" viewBox="0 0 24 32" xmlns="http://www.w3.org/2000/svg">
+      <path d="M12 0C7.6 0 4 3.6 4 8c0 5.4 8 16 8 16s8-10.6 8-16c0-4.4-3.6-8-8-8z"
+            fill="${pinColor}"
+            stroke="white"
+            strokeWidth="1.5"
+            filter="drop-shadow(0 2px 4px rgba(0,0,0,0.3))"/>
+      <circle cx="12" cy="8" r="4" fill="${sourceColor || "white"}" stroke="white" stroke-width="${sourceColor ? 1.5 : 0}"/>
+    </svg>
+  `
+
+  const tooltip = document.createElement("div")
+  tooltip.style.position = "absolute"
+  tooltip.style.bottom = "100%"
+  tooltip.style.left = "50%"
+  tooltip.style.transform = "translateX(-50%)"
+  tooltip.style.marginBottom = "4px"
+  tooltip.style.padding = "4px 8px"
+  tooltip.style.backgroundColor = "white"
+  tooltip.style.border = "2px solid " + pinColor
+  tooltip.style.borderRadius = "6px"
+  tooltip.style.boxShadow = "0 2px 8px rgba(0,0,0,0.15)"
+  tooltip.style.whiteSpace = "nowrap"
+  tooltip.style.zIndex = "1000"
+  tooltip.style.fontSize = "12px"
+
+  const logos = splitBrandNames(customer.brand)
+    .map((name: string) => {
+      const logoUrl = BRAND_LOGOS[name]
+      if (logoUrl) {
+        return `<img src="${logoUrl}" alt="${escapeHtml(name)}" style="height: 24px; width: auto; object-fit: contain; display: inline-block; vertical-align: middle;" />`
+      }
+      return `<span style="font-size: 12px; vertical-align: middle;">${escapeHtml(name)}</span>`
+    })
+    .join(" ")
+  tooltip.innerHTML = logos
+  tooltip.style.display = "none"
+  tooltip.style.flexDirection = "row"
+  tooltip.style.alignItems = "center"
+  tooltip.style.gap = "4px"
+
+  if (visits > 1) {
+    const badge = document.createElement("div")
+    badge.style.position = "absolute"
+    badge.style.top = "-4px"
+    badge.style.right = "-6px"
+    badge.style.minWidth = "16px"
+    badge.style.height = "16px"
+    badge.style.padding = "0 3px"
+    badge.style.borderRadius = "8px"
+    badge.style.background = "#111827"
+    badge.style.color = "white"
+    badge.style.fontSize = "10px"
+    badge.style.lineHeight = "16px"
+    badge.style.textAlign = "center"
+    badge.textContent = String(visits)
+    badge.title = `巡店 ${visits} 次`
+    div.appendChild(badge)
+  }
+
+  // 坐标由地址解析得到: 左上角按可信度着色的 "≈" 角标
+  if (customer.geocode) {
+    const { label, color } = GEOCODE_CONFIDENCE[customer.geocode.confidence]
+    const flag = document.createElement("div")
+    flag.style.position = "absolute"
+    flag.style.top = "-4px"
+    flag.style.left = "-6px"
+    flag.style.width = "14px"
+    flag.style.height = "14px"
+    flag.style.borderRadius = "7px"
+    flag.style.border = "1.5px solid white"
+    flag.style.background = color
+    flag.style.color = "white"
+    flag.style.fontSize = "10px"
+    flag.style.lineHeight = "11px"
+    flag.style.textAlign = "center"
+    flag.textContent = "≈"
+    flag.title = `坐标由地址解析，可信度${label}`
+    div.appendChild(flag)
+  }
+
+  div.appendChild(tooltip)
+  div.addEventListener("mouseenter", () => { tooltip.style.display = "block" })
+  div.addEventListener("mouseleave", () => { tooltip.style.display = "none" })
+
+  return div
+}
+
+/**
+ * 创建自有门店的图标 DOM（方形底座的房子，与竞品图钉区分；悬停显示门店名称）
+ */
+export function createOwnStoreContent(store: OwnStore): HTMLElement {
+  const div = document.createElement("div")
+  div.style.width = `${PIN_SIZE}px`
+  div.style.height = `${PIN_SIZE}px`
+  div.style.cursor = "pointer"
+  div.title = store.name
+  div.innerHTML = `
+    <svg width="${PIN_SIZE}" height="${PIN_SIZE}" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+      <rect x="1" y="1" width="22" height="22" rx="5" fill="${OWN_STORE_COLOR}" stroke="white" stroke-width="2"
+            filter="drop-shadow(0 2px 4px rgba(0,0,0,0.3))"/>
+      <path d="M12 5.5 5.5 11h2v6.5h3.5v-4h2v4h3.5V11h2z" fill="white"/>
+    </svg>
+  `
+  return div
+}
+
+/**
+ * 创建聚合点 DOM: 中间显示数量，外圈按各品牌记录数占比着色
+ */
+export function createClusterContent(members: CustomerData[]): { content: HTMLElement; size: number } {
+  const brandCount: Record<string, number> = {}
+  members.forEach((c) => {
+    const brands = splitBrandNames(c.brand)
+    ;(brands.length ? brands : ["未知"]).forEach((b) => {
+      brandCount[b] = (brandCount[b] || 0) + 1
+    })
+  })
+
+  const entries = Object.entries(brandCount).sort((a, b) => b[1] - a[1])
+  const sum = entries.reduce((acc, [, n]) => acc + n, 0) || 1
+
+  // conic-gradient 色环
+  let angle = 0
+  const stops = entries.map(([brand, n]) => {
+    const start = angle
+    angle += (n / sum) * 360
+    const color = BRAND_COLORS[brand] || DEFAULT_BRAND_COLOR
+    return `${color} ${start}deg ${angle}deg`
+  })
+
+  const count = members.length
+  const size = Math.round(Math.min(60, 30 + Math.log10(count) * 12))
+
+  const div = document.createElement("div")
+  div.style.width = `${size}px`
+  div.style.height = `${size}px`
+  div.style.borderRadius = "50%"
+  div.style.background = `conic-gradient(${stops.join(", ")})`
+  div.style.boxShadow = "0 2px 6px rgba(0,0,0,0.3)"
+  div.style.display = "flex"
+  div.style.alignItems = "center"
+  div.style.justifyContent = "center"
+  div.style.cursor = "pointer"
+  div.title = entries.map(([brand, n]) => `${brand} ${n}`).join(" / ")
+
+  const inner = document.createElement("div")
+  inner.style.width = `${size - 10}px`
+  inner.style.height = `${size - 10}px`
+  inner.style.borderRadius = "50%"
+  inner.style.background = "white"
+  inner.style.display = "flex"
+  inner.style.alignItems = "center"
+  inner.style.justifyContent = "center"
+  inner.style.fontSize = "12px"
+  inner.style.fontWeight = "700"
+  inner.style.color = "#374151"
+  inner.textContent = count > 999 ? `${Math.floor(count / 1000)}k+` : String(count)
+
+  div.appendChild(inner)
+  return { content: div, size }
+}
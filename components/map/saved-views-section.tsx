@@ -0,0 +1,79 @@
+/**
+ * =====================================================
+ * 筛选菜单: 常用视图 (components/map/saved-views-section.tsx)
+ * =====================================================
+ *
+ * 一键切换到保存的筛选条件、视野和图层，★ 为打开地图时的默认视图（见 use-saved-views.ts）
+ * =====================================================
+ */
+
+"use client"
+
+import type { SavedViewsState } from "@/components/map/use-saved-views"
+
+interface SavedViewsSectionProps {
+  views: SavedViewsState
+  onClose: () => void // 切换视图后关闭筛选菜单
+}
+
+export default function SavedViewsSection({ views, onClose }: SavedViewsSectionProps) {
+  const { viewName, saveStatus } = views
+
+  return (
+    <>
+      <div className="text-xs font-semibold mb-2">常用视图</div>
+      {!views.feishuUser ? (
+        <div className="text-[11px] text-gray-400 mb-3">在飞书中打开地图后可保存常用视图</div>
+      ) : (
+        <div className="space-y-1 mb-3">
+          {(views.savedViews || []).map((view) => (
+            <div key={view.id} className="flex items-center gap-1">
+              <button
+                onClick={() => {
+                  views.applyView(view)
+                  onClose()
+                }}
+                className="flex-1 min-w-0 text-left px-2 py-1.5 text-xs rounded bg-gray-100 hover:bg-gray-200 truncate"
+              >
+                {view.name}
+              </button>
+              <button
+                onClick={() => views.toggleDefaultView(view)}
+                title={view.isDefault ? "取消默认" : "设为默认（不带参数打开地图时使用）"}
+                className={`w-6 h-6 flex-shrink-0 text-xs ${view.isDefault ? "text-amber-500" : "text-gray-300 hover:text-amber-500"}`}
+              >
+                {view.isDefault ? "★" : "☆"}
+              </button>
+              <button
+                onClick={() => views.deleteView(view)}
+                title="删除"
+                className="w-6 h-6 flex-shrink-0 text-gray-400 hover:text-red-600 text-xs"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <div className="flex gap-1">
+            <input
+              value={viewName}
+              onChange={(e) => views.setViewName(e.target.value)}
+              placeholder="保存当前视图"
+              maxLength={30}
+              className="flex-1 min-w-0 border rounded px-1.5 py-1 text-xs"
+            />
+            <button
+              onClick={views.saveCurrentView}
+              disabled={!viewName.trim() || saveStatus === "saving"}
+              className={`px-2 py-1 text-xs rounded bg-blue-500 text-white hover:bg-blue-600 ${
+                !viewName.trim() || saveStatus === "saving" ? "opacity-50" : ""
+              }`}
+            >
+              {saveStatus === "saving" ? "保存中" : "保存"}
+            </button>
+          </div>
+          {saveStatus === "error" && <div className="text-[11px] text-red-600">{views.saveError}</div>}
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,108 @@
+/**
+ * =====================================================
+ * 筛选菜单: 范围 (components/map/shape-filter-section.tsx)
+ * =====================================================
+ *
+ * 选择画图工具、显示和保存当前范围、选用保存的范围，删除自己保存的范围（见 use-shape-filter.ts）
+ * =====================================================
+ */
+
+"use client"
+
+import type { ShapeFilterState } from "@/components/map/use-shape-filter"
+import { type MapShape, describeShape } from "@/lib/shapes"
+
+// 可用的画图工具
+const DRAW_TOOLS: Array<[MapShape["type"], string]> = [
+  ["circle", "圆形"],
+  ["rectangle", "矩形"],
+  ["polygon", "多边形"],
+]
+
+interface ShapeFilterSectionProps {
+  shapes: ShapeFilterState
+  userId: string | null // 当前飞书用户的 open_id，未登录时为 null
+  onClose: () => void // 开始画范围或选用保存的范围后关闭筛选菜单
+}
+
+export default function ShapeFilterSection({ shapes, userId, onClose }: ShapeFilterSectionProps) {
+  const { shape, shapeName, saveStatus } = shapes
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-2 mt-3">
+        <span className="text-xs font-semibold">范围</span>
+        {shape && (
+          <button onClick={shapes.clear} className="text-[11px] text-blue-600 hover:underline">
+            清除
+          </button>
+        )}
+      </div>
+      <div className="flex gap-1">
+        {DRAW_TOOLS.map(([type, label]) => (
+          <button
+            key={type}
+            onClick={() => {
+              shapes.setDrawMode(type)
+              onClose()
+            }}
+            className="flex-1 px-1 py-1.5 text-xs rounded bg-gray-100 hover:bg-gray-200 transition-colors"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {shape && (
+        <div className="mt-1 space-y-1">
+          <div className="text-[11px] text-gray-600">当前: {describeShape(shape)}</div>
+          <div className="flex gap-1">
+            <input
+              value={shapeName}
+              onChange={(e) => shapes.setShapeName(e.target.value)}
+              placeholder="范围名称"
+              maxLength={50}
+              className="flex-1 min-w-0 border rounded px-1.5 py-1 text-xs"
+            />
+            <button
+              onClick={shapes.saveCurrentShape}
+              disabled={!shapeName.trim() || saveStatus === "saving"}
+              className={`px-2 py-1 text-xs rounded bg-blue-500 text-white hover:bg-blue-600 ${
+                !shapeName.trim() || saveStatus === "saving" ? "opacity-50" : ""
+              }`}
+            >
+              {saveStatus === "saving" ? "保存中" : "保存"}
+            </button>
+          </div>
+          {saveStatus === "error" && <div className="text-[11px] text-red-600">{shapes.saveError}</div>}
+        </div>
+      )}
+      {shapes.savedShapes.length > 0 && (
+        <div className="mt-1 space-y-1">
+          {shapes.savedShapes.map((saved) => (
+            <div key={saved.id} className="flex items-center gap-1">
+              <button
+                onClick={() => {
+                  shapes.applySavedShape(saved)
+                  onClose()
+                }}
+                title={saved.ownerName ? `${describeShape(saved.shape)} · ${saved.ownerName}` : describeShape(saved.shape)}
+                className="flex-1 min-w-0 text-left px-2 py-1.5 text-xs rounded bg-gray-100 hover:bg-gray-200 truncate"
+              >
+                {saved.name}
+              </button>
+              {userId && (!saved.ownerId || saved.ownerId === userId) && (
+                <button
+                  onClick={() => shapes.deleteSavedShape(saved)}
+                  title="删除"
+                  className="w-6 h-6 flex-shrink-0 text-gray-400 hover:text-red-600 text-xs"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  )
+}
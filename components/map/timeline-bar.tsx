@@ -0,0 +1,68 @@
+/**
+ * =====================================================
+ * 时间轴 (components/map/timeline-bar.tsx)
+ * =====================================================
+ *
+ * 地图顶部: 播放/暂停、按月拖动，显示截至当前月份的记录数
+ * =====================================================
+ */
+
+"use client"
+
+import type { TimelineState } from "@/components/map/use-timeline"
+
+interface TimelineBarProps {
+  timeline: TimelineState
+  total: number // 截至当前月份符合条件的记录数
+}
+
+export default function TimelineBar({ timeline, total }: TimelineBarProps) {
+  const { months, month, index, playing } = timeline
+
+  return (
+    <div className="absolute top-20 left-3 right-3 z-10 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg px-3 py-2">
+      {months.length === 0 ? (
+        <div className="text-xs text-gray-500">当前条件下没有带记录日期的记录</div>
+      ) : (
+        <div className="flex items-center gap-3">
+          <button
+            onClick={timeline.togglePlay}
+            className="w-7 h-7 rounded-full bg-blue-500 text-white flex items-center justify-center flex-shrink-0"
+            title={playing ? "暂停" : "播放"}
+          >
+            {playing ? (
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
+              </svg>
+            ) : (
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M8 5v14l11-7z" />
+              </svg>
+            )}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={months.length - 1}
+            step={1}
+            value={Math.min(index, months.length - 1)}
+            onChange={(e) => timeline.seek(Number(e.target.value))}
+            className="flex-1"
+          />
+          <div className="text-right flex-shrink-0">
+            <div className="text-xs font-semibold">截至 {month}</div>
+            <div className="text-[10px] text-gray-500">{total} 条记录</div>
+          </div>
+          <button
+            onClick={timeline.close}
+            className="w-6 h-6 rounded-full hover:bg-gray-100 flex items-center justify-center flex-shrink-0"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
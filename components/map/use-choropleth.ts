@@ -0,0 +1,129 @@
+/**
+ * =====================================================
+ * 分级设色 (components/map/use-choropleth.ts)
+ * =====================================================
+ *
+ * 按省/市统计记录数或某个品牌的占比，给行政区填色（见 lib/choropleth.ts）
+ * - 统计用的是全部符合筛选条件的记录（不限于当前视野），切换到该模式时按页加载
+ * - 默认显示全国各省，点击省份下钻到该省各市，地图缩放到该省
+ * =====================================================
+ */
+
+import { type RefObject, useEffect, useState } from "react"
+import { type CustomerData, fetchAllCustomers, splitBrandNames } from "@/components/map/customer-data"
+import { type ChoroplethMetric, type RegionStat, aggregateByRegion, choroplethBreaks, choroplethColor } from "@/lib/choropleth"
+import { type RegionBoundary, loadCityBoundaries, loadProvinceBoundaries } from "@/lib/region-boundaries"
+
+export interface ChoroplethOptions {
+  mapReady: boolean
+  enabled: boolean // 是否为分级设色模式
+  filterKey: string // 筛选条件对应的查询参数，变化时重新加载
+  dataVersion: number // 数据变化时递增，触发重新加载
+}
+
+export interface ChoroplethState {
+  metric: ChoroplethMetric // 记录数 / 品牌占比
+  setMetric: (metric: ChoroplethMetric) => void
+  brand: string // 计算占比的品牌
+  setBrand: (brand: string) => void
+  province: RegionBoundary | null // 下钻的省份（null 为全国）
+  setProvince: (province: RegionBoundary | null) => void
+  records: CustomerData[] | null // 全部符合条件的记录，加载中为 null
+  legend: number[] // 当前颜色等级的上限值
+  hoveredRegion: { name: string; stat: RegionStat | null } | null
+}
+
+export function useChoropleth(mapRef: RefObject<any>, { mapReady, enabled, filterKey, dataVersion }: ChoroplethOptions): ChoroplethState {
+  const [metric, setMetric] = useState<ChoroplethMetric>("count")
+  const [brand, setBrand] = useState("雕牌")
+  const [province, setProvince] = useState<RegionBoundary | null>(null)
+  const [regions, setRegions] = useState<RegionBoundary[]>([]) // 当前层级的行政区边界
+  const [records, setRecords] = useState<CustomerData[] | null>(null)
+  const [legend, setLegend] = useState<number[]>([])
+  const [hoveredRegion, setHoveredRegion] = useState<{ name: string; stat: RegionStat | null } | null>(null)
+
+  /**
+   * 加载当前层级（全国各省 / 下钻省份的各市）的边界
+   */
+  useEffect(() => {
+    if (!mapReady || !enabled) return
+    let cancelled = false
+
+    const AMap = window.AMap
+    const loading = province ? loadCityBoundaries(AMap, province.adcode) : loadProvinceBoundaries(AMap)
+    loading.then((loaded) => {
+      if (!cancelled) setRegions(loaded)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [mapReady, enabled, province])
+
+  /**
+   * 加载全部符合筛选条件的记录
+   */
+  useEffect(() => {
+    if (!enabled) return
+    const controller = new AbortController()
+
+    fetchAllCustomers(filterKey, controller.signal)
+      .then(setRecords)
+      .catch((error: any) => {
+        if (error?.name === "AbortError") return
+        console.error("Error fetching choropleth data:", error)
+      })
+
+    return () => controller.abort()
+  }, [enabled, filterKey, dataVersion])
+
+  /**
+   * 按行政区填色
+   */
+  useEffect(() => {
+    const map = mapRef.current
+    if (!mapReady || !map || !enabled || !records) return
+
+    const AMap = window.AMap
+    const points = records.map((c) => ({ coordinates: c.coordinates, brands: splitBrandNames(c.brand) }))
+    const regionStats = aggregateByRegion(points, regions, metric, brand)
+    const breaks = choroplethBreaks([...regionStats.values()].map((s) => s.value), metric)
+    setLegend(breaks)
+
+    const polygons = regions.map((region) => {
+      const stat = regionStats.get(region.adcode) || null
+      const polygon = new AMap.Polygon({
+        path: region.rings,
+        strokeColor: "#ffffff",
+        strokeWeight: 1,
+        fillColor: stat ? choroplethColor(stat.value, breaks) : "#e5e7eb",
+        fillOpacity: stat ? 0.75 : 0.3,
+        cursor: "pointer",
+        bubble: true,
+      })
+      polygon.on("mouseover", () => setHoveredRegion({ name: region.name, stat }))
+      polygon.on("mouseout", () => setHoveredRegion(null))
+      // 点击省份下钻到市
+      if (!province) {
+        polygon.on("click", () => setProvince(region))
+      }
+      polygon.setMap(map)
+      return polygon
+    })
+
+    return () => {
+      polygons.forEach((polygon) => polygon.setMap(null))
+      setHoveredRegion(null)
+    }
+  }, [mapReady, enabled, province, regions, records, metric, brand])
+
+  // 下钻时把地图缩放到该省
+  useEffect(() => {
+    const map = mapRef.current
+    if (!mapReady || !map || !enabled || !province) return
+    const [w, s, e, n] = province.bounds
+    map.setBounds(new window.AMap.Bounds([w, s], [e, n]))
+  }, [mapReady, enabled, province])
+
+  return { metric, setMetric, brand, setBrand, province, setProvince, records, legend, hoveredRegion }
+}
@@ -0,0 +1,86 @@
+/**
+ * =====================================================
+ * 热力图 (components/map/use-heatmap.ts)
+ * =====================================================
+ *
+ * 数据与点聚合相同（当前视野内符合筛选条件的记录），开启时由调用方隐藏点聚合
+ * - 按记录数: 每条记录权重为 1
+ * - 按价格: 权重为折扣/价格中解析出的价格，没有价格的记录不参与
+ * 强度通过调整满色对应的最大值实现
+ * =====================================================
+ */
+
+import { type RefObject, useEffect, useRef, useState } from "react"
+import type { CustomerData } from "@/components/map/customer-data"
+import { effectivePrice } from "@/lib/price"
+
+/**
+ * 热力图配色（由低到高），图例使用同一组颜色
+ */
+export const HEATMAP_GRADIENT: Record<number, string> = {
+  0.2: "#3b82f6",
+  0.45: "#22c55e",
+  0.65: "#eab308",
+  0.85: "#f97316",
+  1.0: "#ef4444",
+}
+
+// 热力点半径（像素）
+const HEATMAP_RADIUS = 30
+
+// 按记录数加权时，强度为 1 对应的满色记录数
+const HEATMAP_COUNT_MAX = 5
+
+export type HeatWeight = "count" | "price"
+
+export interface HeatmapState {
+  heatWeight: HeatWeight // 热力图权重
+  setHeatWeight: (weight: HeatWeight) => void
+  heatIntensity: number // 热力图强度（越大越容易达到满色）
+  setHeatIntensity: (intensity: number) => void
+}
+
+/**
+ * @param enabled - 是否显示热力图
+ * @param customers - 参与热力图的记录
+ */
+export function useHeatmap(mapRef: RefObject<any>, mapReady: boolean, enabled: boolean, customers: CustomerData[]): HeatmapState {
+  const [heatWeight, setHeatWeight] = useState<HeatWeight>("count")
+  const [heatIntensity, setHeatIntensity] = useState(1)
+  const heatmapRef = useRef<any>(null)
+
+  useEffect(() => {
+    if (!mapReady || !mapRef.current) return
+
+    if (!enabled) {
+      heatmapRef.current?.hide()
+      return
+    }
+
+    if (!heatmapRef.current) {
+      heatmapRef.current = new window.AMap.HeatMap(mapRef.current, {
+        radius: HEATMAP_RADIUS,
+        opacity: [0, 0.8],
+        gradient: HEATMAP_GRADIENT,
+      })
+    }
+
+    const data: Array<{ lng: number; lat: number; count: number }> = []
+    for (const c of customers) {
+      const weight = heatWeight === "price" ? effectivePrice(c.price) : 1
+      if (weight) data.push({ lng: c.coordinates[0], lat: c.coordinates[1], count: weight })
+    }
+
+    // 按价格加权时以 90 分位价格作为基准，避免个别异常高价把其他区域压暗
+    let baseMax = HEATMAP_COUNT_MAX
+    if (heatWeight === "price") {
+      const prices = data.map((d) => d.count).sort((a, b) => a - b)
+      baseMax = prices.length ? prices[Math.floor((prices.length - 1) * 0.9)] : 1
+    }
+
+    heatmapRef.current.setDataSet({ data, max: baseMax / heatIntensity })
+    heatmapRef.current.show()
+  }, [mapReady, enabled, heatWeight, heatIntensity, customers])
+
+  return { heatWeight, setHeatWeight, heatIntensity, setHeatIntensity }
+}
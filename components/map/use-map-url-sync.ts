@@ -0,0 +1,126 @@
+/**
+ * =====================================================
+ * 页面链接同步 (components/map/use-map-url-sync.ts)
+ * =====================================================
+ *
+ * 筛选条件、选中门店和地图视野同步到页面链接（参数格式见 lib/map-url.ts），可分享、可前进/后退
+ * - 筛选条件或选中门店变化: 新增一条历史记录
+ * - 地图视野变化: 只替换当前历史记录
+ * - 打开页面、浏览器前进/后退: 按链接恢复筛选条件、视野和选中门店
+ * =====================================================
+ */
+
+import { type RefObject, useEffect, useRef } from "react"
+import { type CustomerData, normalizeCustomer } from "@/components/map/customer-data"
+import { type MapFilterState, type MapUrlState, parseMapSearchParams, toMapSearchParams } from "@/lib/map-url"
+
+export interface MapUrlSyncOptions {
+  initialUrlState: MapUrlState // 打开页面时链接中的状态
+  mapReady: boolean
+  viewport: { zoom: number; center: [number, number] } | null
+  filters: MapFilterState // 当前的筛选条件（搜索词为防抖后的）
+  selectedStoreId: string | undefined
+  applyFilters: (state: MapFilterState) => void // 前进/后退时恢复筛选条件
+  selectCustomer: (customer: CustomerData | null) => void // 恢复选中的记录（null 为关闭详情）
+}
+
+export interface MapUrlSync {
+  /**
+   * 按链接状态中的 record / store 选中门店
+   * 有 record 时选中该条记录，只有 store 时选中该门店最近一次巡店
+   *
+   * @param moveMap - 是否把地图移到该门店（链接中已有视野时不移动）
+   */
+  restoreSelection: (state: MapUrlState, moveMap: boolean) => Promise<void>
+}
+
+export function useMapUrlSync(mapRef: RefObject<any>, options: MapUrlSyncOptions): MapUrlSync {
+  const { initialUrlState, mapReady, viewport, filters, selectedStoreId } = options
+
+  // 当前历史记录对应的筛选条件 + 门店，变化时新增一条历史记录
+  const historyKeyRef = useRef(toMapSearchParams({ ...initialUrlState, record: "", zoom: null, center: null }).toString())
+  // 正在按链接恢复选中门店，期间不改写链接
+  const restoringSelectionRef = useRef(!!(initialUrlState.store || initialUrlState.record))
+
+  // 前进/后退的监听只注册一次，通过 ref 调用最新的回调
+  const handlersRef = useRef(options)
+  handlersRef.current = options
+
+  const restoreSelection = async (state: MapUrlState, moveMap: boolean) => {
+    const { selectCustomer } = handlersRef.current
+    if (!state.record && !state.store) {
+      selectCustomer(null)
+      return
+    }
+
+    restoringSelectionRef.current = true
+    try {
+      const params = state.record ? new URLSearchParams({ id: state.record }) : new URLSearchParams({ store: state.store })
+      const response = await fetch(`/api/customer-data?${params}`, { cache: "no-cache" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || "加载门店失败")
+
+      const visits: CustomerData[] = (data.customers || []).map(normalizeCustomer)
+      visits.sort((a, b) => String(b.record_date || "").localeCompare(String(a.record_date || "")))
+      const customer = visits[0]
+      if (!customer) {
+        selectCustomer(null)
+        return
+      }
+
+      // 链接中的 record 会被规整为 store，沿用当前历史记录，不新增
+      historyKeyRef.current = toMapSearchParams({ ...state, store: customer.storeId, record: "", zoom: null, center: null }).toString()
+      selectCustomer(customer)
+      if (moveMap) mapRef.current?.setZoomAndCenter(Math.max(mapRef.current.getZoom(), 15), customer.coordinates)
+    } catch (error) {
+      console.error("Error restoring selected store:", error)
+    } finally {
+      restoringSelectionRef.current = false
+    }
+  }
+
+  const historyKey = toMapSearchParams({ ...filters, store: selectedStoreId }).toString()
+
+  /**
+   * 把当前状态写入页面链接
+   */
+  useEffect(() => {
+    if (!viewport || restoringSelectionRef.current) return
+
+    const search = toMapSearchParams({ ...filters, store: selectedStoreId, zoom: viewport.zoom, center: viewport.center }).toString()
+    const url = search ? `?${search}` : window.location.pathname
+    if (historyKey !== historyKeyRef.current) {
+      historyKeyRef.current = historyKey
+      window.history.pushState(null, "", url)
+    } else if (`?${search}` !== window.location.search) {
+      window.history.replaceState(null, "", url)
+    }
+  }, [historyKey, viewport])
+
+  /**
+   * 地图就绪后恢复链接中选中的门店
+   */
+  useEffect(() => {
+    if (!mapReady) return
+    if (initialUrlState.store || initialUrlState.record) restoreSelection(initialUrlState, !initialUrlState.center)
+  }, [mapReady])
+
+  /**
+   * 浏览器前进/后退
+   */
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = parseMapSearchParams(new URLSearchParams(window.location.search))
+      historyKeyRef.current = toMapSearchParams({ ...state, record: "", zoom: null, center: null }).toString()
+
+      handlersRef.current.applyFilters(state)
+      if (state.zoom && state.center) mapRef.current?.setZoomAndCenter(state.zoom, state.center)
+      restoreSelection(state, !state.center)
+    }
+
+    window.addEventListener("popstate", handlePopState)
+    return () => window.removeEventListener("popstate", handlePopState)
+  }, [])
+
+  return { restoreSelection }
+}
@@ -0,0 +1,101 @@
+/**
+ * =====================================================
+ * 点聚合 (components/map/use-marker-cluster.ts)
+ * =====================================================
+ *
+ * 地图就绪后创建一次 MarkerCluster，之后记录变化时只更新数据
+ * - 一个门店一个点，显示最近一次巡店（见 groupByStore）
+ * - 聚合点显示数量，外圈按品牌比例着色；单点显示品牌颜色的图钉
+ * - 点击单点打开详情；点击聚合点放大，成员坐标相同（或已放到最大）时列出成员
+ * =====================================================
+ */
+
+import { type RefObject, useEffect, useRef } from "react"
+import { type CustomerData, groupByStore } from "@/components/map/customer-data"
+import { PIN_SIZE, createClusterContent, createPinContent } from "@/components/map/markers"
+import type { DataSourceInfo } from "@/lib/feishu/sources"
+
+// 点聚合: 网格大小（像素）和不再聚合的缩放级别
+const CLUSTER_GRID_SIZE = 60
+const CLUSTER_MAX_ZOOM = 17
+
+export interface MarkerClusterOptions {
+  mapReady: boolean
+  customers: CustomerData[] // 当前视野内符合筛选条件的记录
+  dataSources: DataSourceInfo[] // 有多个数据源时图钉中心点按数据源着色
+  visible: boolean // 热力图、分级设色时隐藏
+  onSelect: (customer: CustomerData) => void // 点击单点
+  onShowMembers: (members: CustomerData[]) => void // 点击无法再展开的聚合点
+}
+
+export function useMarkerCluster(mapRef: RefObject<any>, options: MarkerClusterOptions): void {
+  const { mapReady, customers, dataSources, visible } = options
+  const clusterRef = useRef<any>(null)
+
+  // 点击事件在创建聚合时绑定，通过 ref 调用最新的回调
+  const handlersRef = useRef(options)
+  handlersRef.current = options
+
+  useEffect(() => {
+    if (!mapReady || !mapRef.current) return
+
+    const AMap = window.AMap
+    if (!AMap) return
+
+    const sourceColors = dataSources.length > 1 ? Object.fromEntries(dataSources.map((s) => [s.id, s.color])) : {}
+    const points = groupByStore(customers).map(({ customer, visits }) => ({
+      lnglat: customer.coordinates,
+      customer,
+      visits,
+      sourceColor: sourceColors[customer.source] as string | undefined,
+    }))
+
+    if (clusterRef.current) {
+      clusterRef.current.setData(points)
+      return
+    }
+
+    const cluster = new AMap.MarkerCluster(mapRef.current, points, {
+      gridSize: CLUSTER_GRID_SIZE,
+      maxZoom: CLUSTER_MAX_ZOOM,
+      // 聚合点: 数量 + 品牌占比色环
+      renderClusterMarker: (context: any) => {
+        const members: CustomerData[] = context.clusterData.map((d: any) => d.customer)
+        const { content, size } = createClusterContent(members)
+        context.marker.setContent(content)
+        context.marker.setOffset(new AMap.Pixel(-size / 2, -size / 2))
+      },
+      // 单点: 品牌颜色图钉
+      renderMarker: (context: any) => {
+        const { customer, visits, sourceColor } = context.data[0]
+        context.marker.setContent(createPinContent(customer, visits, sourceColor))
+        context.marker.setOffset(new AMap.Pixel(-PIN_SIZE / 2, -PIN_SIZE * 1.2))
+      },
+    })
+
+    cluster.on("click", (item: any) => {
+      const members: CustomerData[] = (item.clusterData || []).map((d: any) => d.customer).filter(Boolean)
+      if (members.length === 1) {
+        handlersRef.current.onSelect(members[0])
+        return
+      }
+
+      const map = mapRef.current
+      const [lng0, lat0] = members[0]?.coordinates || [0, 0]
+      const sameSpot = members.every((c) => Math.abs(c.coordinates[0] - lng0) < 1e-5 && Math.abs(c.coordinates[1] - lat0) < 1e-5)
+
+      if (sameSpot || map.getZoom() >= CLUSTER_MAX_ZOOM) {
+        handlersRef.current.onShowMembers(members)
+      } else {
+        map.setZoomAndCenter(Math.min(map.getZoom() + 2, CLUSTER_MAX_ZOOM + 1), item.lnglat)
+      }
+    })
+
+    clusterRef.current = cluster
+  }, [mapReady, customers, dataSources])
+
+  // 聚合随记录一起创建，创建后也要按当前的显示方式显示或隐藏
+  useEffect(() => {
+    clusterRef.current?.setMap(visible ? mapRef.current : null)
+  }, [mapReady, visible, customers])
+}
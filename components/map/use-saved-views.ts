@@ -0,0 +1,152 @@
+/**
+ * =====================================================
+ * 常用视图 (components/map/use-saved-views.ts)
+ * =====================================================
+ *
+ * 在飞书中打开地图时识别当前用户（见 lib/feishu-login.ts），加载其常用视图（/api/views）:
+ * 保存当前的筛选条件、搜索词、视野和图层开关，一键切换，可设默认视图
+ * 不带参数打开地图时使用默认视图；不在飞书中打开时不可用
+ * =====================================================
+ */
+
+import { useEffect, useRef, useState } from "react"
+import type { FeishuUser } from "@/lib/feishu/user-auth"
+import { loginWithFeishu } from "@/lib/feishu-login"
+import { type MapUrlState, toMapSearchParams } from "@/lib/map-url"
+import type { SavedView, SavedViewState } from "@/lib/saved-views"
+
+export interface SavedViewsOptions {
+  mapReady: boolean
+  initialUrlState: MapUrlState // 打开页面时链接中的状态（带参数时不使用默认视图）
+  captureView: () => SavedViewState // 当前的筛选条件、视野和图层
+  applyViewState: (state: SavedViewState) => void // 切换到视图中的筛选条件、视野和图层
+}
+
+export interface SavedViewsState {
+  feishuUser: FeishuUser | null // 未登录时为 null
+  savedViews: SavedView[] | null
+  viewName: string // 保存视图时填写的名称
+  setViewName: (name: string) => void
+  saveStatus: "idle" | "saving" | "error"
+  saveError: string
+  applyView: (view: SavedView) => void
+  saveCurrentView: () => Promise<void>
+  toggleDefaultView: (view: SavedView) => Promise<void>
+  deleteView: (view: SavedView) => Promise<void>
+}
+
+export function useSavedViews({ mapReady, initialUrlState, captureView, applyViewState }: SavedViewsOptions): SavedViewsState {
+  const [feishuUser, setFeishuUser] = useState<FeishuUser | null>(null)
+  const [savedViews, setSavedViews] = useState<SavedView[] | null>(null)
+  const [viewName, setViewName] = useState("")
+  const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "error">("idle")
+  const [saveError, setSaveError] = useState("")
+  const defaultViewCheckedRef = useRef(false) // 已检查过默认视图（只在打开页面时使用一次）
+
+  /**
+   * 切换到保存的视图
+   */
+  const applyView = (view: SavedView) => {
+    applyViewState(view.state)
+    setViewName(view.name)
+  }
+
+  /**
+   * 识别飞书用户并加载其常用视图
+   */
+  useEffect(() => {
+    loginWithFeishu()
+      .then(async (user) => {
+        setFeishuUser(user)
+        if (!user) return
+        const res = await fetch("/api/views")
+        const data = await res.json().catch(() => ({}))
+        if (!res.ok) throw new Error(data?.error || "读取常用视图失败")
+        setSavedViews(data.views || [])
+      })
+      .catch((error) => console.error("Error loading saved views:", error))
+  }, [])
+
+  /**
+   * 不带参数打开地图时使用默认视图
+   */
+  useEffect(() => {
+    if (!mapReady || !savedViews || defaultViewCheckedRef.current) return
+    defaultViewCheckedRef.current = true
+    const defaultView = savedViews.find((v) => v.isDefault)
+    if (defaultView && !toMapSearchParams(initialUrlState).toString()) applyView(defaultView)
+  }, [mapReady, savedViews])
+
+  /**
+   * 保存当前视图（同名时覆盖）
+   */
+  const saveCurrentView = async () => {
+    if (!viewName.trim() || saveStatus === "saving") return
+    setSaveStatus("saving")
+    setSaveError("")
+    try {
+      const res = await fetch("/api/views", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: viewName.trim(), state: captureView() }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok || !data?.view) throw new Error(data?.error || "保存失败")
+      setSavedViews((prev) =>
+        [...(prev || []).filter((v) => v.id !== data.view.id), data.view].sort((a, b) => a.name.localeCompare(b.name, "zh-CN"))
+      )
+      setSaveStatus("idle")
+    } catch (err: any) {
+      setSaveStatus("error")
+      setSaveError(err?.message || "保存失败")
+    }
+  }
+
+  /**
+   * 设为默认视图 / 取消默认
+   */
+  const toggleDefaultView = async (view: SavedView) => {
+    try {
+      const res = await fetch(`/api/views/${encodeURIComponent(view.id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isDefault: !view.isDefault }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok || !data?.view) throw new Error(data?.error || "设置失败")
+      setSavedViews((prev) =>
+        (prev || []).map((v) => (v.id === view.id ? data.view : data.view.isDefault ? { ...v, isDefault: false } : v))
+      )
+    } catch (err: any) {
+      window.alert(err?.message || "设置失败")
+    }
+  }
+
+  /**
+   * 删除保存的视图
+   */
+  const deleteView = async (view: SavedView) => {
+    if (!window.confirm(`删除视图"${view.name}"？`)) return
+    try {
+      const res = await fetch(`/api/views/${encodeURIComponent(view.id)}`, { method: "DELETE" })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok && res.status !== 404) throw new Error(data?.error || "删除失败")
+      setSavedViews((prev) => (prev || []).filter((v) => v.id !== view.id))
+    } catch (err: any) {
+      window.alert(err?.message || "删除失败")
+    }
+  }
+
+  return {
+    feishuUser,
+    savedViews,
+    viewName,
+    setViewName,
+    saveStatus,
+    saveError,
+    applyView,
+    saveCurrentView,
+    toggleDefaultView,
+    deleteView,
+  }
+}
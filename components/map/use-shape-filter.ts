@@ -0,0 +1,202 @@
+/**
+ * =====================================================
+ * 画出的范围 (components/map/use-shape-filter.ts)
+ * =====================================================
+ *
+ * 在地图上画圆、矩形或多边形，只看范围内的记录（范围的格式和校验见 lib/shapes.ts）
+ * - 选择工具后画圆/矩形（拖动）或多边形（依次点击顶点，双击结束）
+ * - 画完后移除画出的图形，改为按范围筛选，当前范围统一用虚线绘制
+ * - 范围可命名保存（/api/shapes，需要登录），选用保存的范围时地图缩放到该范围
+ * =====================================================
+ */
+
+import { type RefObject, useEffect, useRef, useState } from "react"
+import type { SavedShape } from "@/lib/saved-shapes"
+import { type MapShape, MAX_POLYGON_POINTS } from "@/lib/shapes"
+
+// 画出的范围的样式
+const SHAPE_STYLE = {
+  strokeColor: "#2563eb",
+  strokeWeight: 2,
+  strokeStyle: "dashed",
+  fillColor: "#2563eb",
+  fillOpacity: 0.06,
+}
+
+export interface ShapeFilterState {
+  shape: MapShape | null // 当前范围
+  setShape: (shape: MapShape | null) => void
+  drawMode: MapShape["type"] | null // 正在画的形状
+  setDrawMode: (mode: MapShape["type"] | null) => void
+  drawingRef: RefObject<boolean> // 正在画范围（期间长按地图不新增记录）
+  savedShapes: SavedShape[]
+  shapeName: string // 保存范围时填写的名称
+  setShapeName: (name: string) => void
+  saveStatus: "idle" | "saving" | "error"
+  saveError: string
+  applySavedShape: (saved: SavedShape) => void
+  saveCurrentShape: () => Promise<void>
+  deleteSavedShape: (saved: SavedShape) => Promise<void>
+  clear: () => void
+}
+
+/**
+ * 画图工具画出的覆盖物 -> 范围（画得太小或顶点太多时返回 null）
+ */
+function overlayToShape(type: MapShape["type"], overlay: any): MapShape | null {
+  if (type === "circle") {
+    const center = overlay.getCenter()
+    const radius = overlay.getRadius()
+    return radius > 0 ? { type, center: [center.getLng(), center.getLat()], radius } : null
+  }
+  if (type === "rectangle") {
+    const bounds = overlay.getBounds()
+    const sw = bounds.getSouthWest()
+    const ne = bounds.getNorthEast()
+    if (sw.getLng() >= ne.getLng() || sw.getLat() >= ne.getLat()) return null
+    return { type, bounds: [sw.getLng(), sw.getLat(), ne.getLng(), ne.getLat()] }
+  }
+  const path: [number, number][] = (overlay.getPath() || []).map((p: any) => [p.getLng(), p.getLat()])
+  return path.length >= 3 && path.length <= MAX_POLYGON_POINTS ? { type, path } : null
+}
+
+/**
+ * @param initialShape - 页面链接中的范围
+ */
+export function useShapeFilter(mapRef: RefObject<any>, mapReady: boolean, initialShape: MapShape | null): ShapeFilterState {
+  const [shape, setShape] = useState<MapShape | null>(initialShape)
+  const [drawMode, setDrawMode] = useState<MapShape["type"] | null>(null)
+  const [savedShapes, setSavedShapes] = useState<SavedShape[]>([])
+  const [shapeName, setShapeName] = useState("")
+  const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "error">("idle")
+  const [saveError, setSaveError] = useState("")
+  const drawingRef = useRef(false)
+  const fitShapeRef = useRef(false) // 选用保存的范围后，把地图缩放到该范围
+
+  /**
+   * 画范围: 画完后移除画出的图形，改为按范围筛选
+   */
+  useEffect(() => {
+    drawingRef.current = !!drawMode
+    if (!mapReady || !mapRef.current || !window.AMap || !drawMode) return
+
+    const tool = new window.AMap.MouseTool(mapRef.current)
+    tool.on("draw", (event: any) => {
+      const drawn = overlayToShape(drawMode, event.obj)
+      tool.close(true)
+      setDrawMode(null)
+      if (drawn) setShape(drawn)
+    })
+    tool[drawMode]({ ...SHAPE_STYLE, strokeStyle: "solid" })
+
+    return () => tool.close(true)
+  }, [mapReady, drawMode])
+
+  /**
+   * 在地图上显示当前的范围
+   */
+  useEffect(() => {
+    if (!mapReady || !mapRef.current || !window.AMap || !shape) return
+    const AMap = window.AMap
+    const map = mapRef.current
+
+    const style = { ...SHAPE_STYLE, bubble: true } // 不拦截地图点击
+    const overlay =
+      shape.type === "circle"
+        ? new AMap.Circle({ center: shape.center, radius: shape.radius, ...style })
+        : shape.type === "rectangle"
+          ? new AMap.Rectangle({
+              bounds: new AMap.Bounds(shape.bounds.slice(0, 2), shape.bounds.slice(2)),
+              ...style,
+            })
+          : new AMap.Polygon({ path: shape.path, ...style })
+    map.add(overlay)
+    if (fitShapeRef.current) {
+      fitShapeRef.current = false
+      map.setFitView([overlay])
+    }
+
+    return () => map.remove(overlay)
+  }, [mapReady, shape])
+
+  /**
+   * 加载保存的范围
+   */
+  useEffect(() => {
+    fetch("/api/shapes")
+      .then((res) => (res.ok ? res.json() : { shapes: [] }))
+      .then((data) => setSavedShapes(data.shapes || []))
+      .catch((error) => console.error("Error fetching saved shapes:", error))
+  }, [])
+
+  /**
+   * 选用保存的范围，并把地图缩放到该范围
+   */
+  const applySavedShape = (saved: SavedShape) => {
+    fitShapeRef.current = true
+    setShape(saved.shape)
+    setShapeName(saved.name)
+  }
+
+  /**
+   * 保存当前范围（同名时覆盖）
+   */
+  const saveCurrentShape = async () => {
+    if (!shape || !shapeName.trim() || saveStatus === "saving") return
+    setSaveStatus("saving")
+    setSaveError("")
+    try {
+      const res = await fetch("/api/shapes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: shapeName.trim(), shape }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok || !data?.shape) throw new Error(data?.error || "保存失败")
+      setSavedShapes((prev) =>
+        [...prev.filter((s) => !(s.ownerId === data.shape.ownerId && s.name === data.shape.name)), data.shape].sort((a, b) =>
+          a.name.localeCompare(b.name, "zh-CN")
+        )
+      )
+      setSaveStatus("idle")
+    } catch (err: any) {
+      setSaveStatus("error")
+      setSaveError(err?.message || "保存失败")
+    }
+  }
+
+  /**
+   * 删除保存的范围
+   */
+  const deleteSavedShape = async (saved: SavedShape) => {
+    if (!window.confirm(`删除范围"${saved.name}"？`)) return
+    try {
+      const res = await fetch(`/api/shapes/${encodeURIComponent(saved.id)}`, { method: "DELETE" })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok && res.status !== 404) throw new Error(data?.error || "删除失败")
+      setSavedShapes((prev) => prev.filter((s) => s.id !== saved.id))
+    } catch (err: any) {
+      window.alert(err?.message || "删除失败")
+    }
+  }
+
+  return {
+    shape,
+    setShape,
+    drawMode,
+    setDrawMode,
+    drawingRef,
+    savedShapes,
+    shapeName,
+    setShapeName,
+    saveStatus,
+    saveError,
+    applySavedShape,
+    saveCurrentShape,
+    deleteSavedShape,
+    clear: () => {
+      setShape(null)
+      setShapeName("")
+    },
+  }
+}
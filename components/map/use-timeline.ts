@@ -0,0 +1,87 @@
+/**
+ * =====================================================
+ * 时间轴 (components/map/use-timeline.ts)
+ * =====================================================
+ *
+ * 打开时只显示截至所选月份的记录（截止日期见 CustomerMap 中的 buildFilterParams），
+ * 播放时每隔 TIMELINE_STEP_MS 前进一个月，到最后一个月停止
+ * 可选的月份为有记录的月份，限制在日期筛选范围内
+ * =====================================================
+ */
+
+import { useEffect, useState } from "react"
+
+// 时间轴播放时每个月停留的时间（毫秒）
+const TIMELINE_STEP_MS = 1200
+
+export interface TimelineState {
+  open: boolean
+  months: string[] // 可选的月份 YYYY-MM（从早到晚）
+  month: string | undefined // 当前月份，关闭时为 undefined
+  index: number // 当前月份在 months 中的下标
+  playing: boolean
+  toggle: () => void // 打开（定位到最后一个月）/ 关闭
+  togglePlay: () => void // 播放 / 暂停，已在最后一个月时从头播放
+  seek: (index: number) => void // 拖动到某个月（停止播放）
+  close: () => void
+}
+
+/**
+ * 月份的最后一天，"2024-02" -> "2024-02-29"
+ */
+export function monthEnd(month: string): string {
+  const [y, m] = month.split("-").map(Number)
+  const lastDay = new Date(Date.UTC(y, m, 0)).getUTCDate()
+  return `${month}-${String(lastDay).padStart(2, "0")}`
+}
+
+/**
+ * @param recordMonths - 各月份的记录数（分面统计）
+ * @param dateFrom - 日期筛选起 YYYY-MM-DD
+ * @param dateTo - 日期筛选止 YYYY-MM-DD
+ */
+export function useTimeline(recordMonths: Record<string, number>, dateFrom: string, dateTo: string): TimelineState {
+  const [open, setOpen] = useState(false)
+  const [index, setIndex] = useState(0)
+  const [playing, setPlaying] = useState(false)
+
+  const months = Object.keys(recordMonths)
+    .filter((m) => (!dateFrom || m >= dateFrom.slice(0, 7)) && (!dateTo || m <= dateTo.slice(0, 7)))
+    .sort()
+  const month = open ? months[Math.min(index, months.length - 1)] : undefined
+
+  useEffect(() => {
+    if (!playing) return
+    if (index >= months.length - 1) {
+      setPlaying(false)
+      return
+    }
+    const timer = setTimeout(() => setIndex((i) => i + 1), TIMELINE_STEP_MS)
+    return () => clearTimeout(timer)
+  }, [playing, index, months.length])
+
+  return {
+    open,
+    months,
+    month,
+    index,
+    playing,
+    toggle: () => {
+      if (!open) setIndex(Math.max(0, months.length - 1))
+      setPlaying(false)
+      setOpen(!open)
+    },
+    togglePlay: () => {
+      if (!playing && index >= months.length - 1) setIndex(0)
+      setPlaying(!playing)
+    },
+    seek: (next) => {
+      setPlaying(false)
+      setIndex(next)
+    },
+    close: () => {
+      setPlaying(false)
+      setOpen(false)
+    },
+  }
+}
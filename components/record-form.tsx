@@ -0,0 +1,197 @@
+/**
+ * =====================================================
+ * 巡店记录表单 (components/record-form.tsx)
+ * =====================================================
+ *
+ * 在地图上新增/编辑巡店记录，提交后写回飞书多维表格
+ *
+ * - 新增: 长按地图打开，经纬度预填为长按位置 → POST /api/customer-data
+ * - 编辑: 详情抽屉中点击"编辑" → PATCH /api/customer-data/:id（只提交修改过的字段）
+ * =====================================================
+ */
+
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+
+/**
+ * 表单字段
+ */
+export interface RecordFormValues {
+  name: string // 门店名称
+  coordinates: [number, number] // 坐标 [经度, 纬度]
+  brand: string // 竞品品牌
+  productName: string // 竞品产品
+  discountprice: string // 折扣/价格
+  distributor: string // 经销商
+  region: string // 省区
+  district: string // 片区
+  record_date: string // 记录日期 YYYY-MM-DD
+}
+
+interface RecordFormProps {
+  mode: "create" | "edit"
+  recordId?: string // 编辑时的 record_id
+  initial: RecordFormValues
+  regions: string[] // 省区可选值
+  onSaved: (customer: any) => void // 保存成功，参数为接口返回的记录
+  onCancel: () => void
+}
+
+// 文本输入项
+const TEXT_FIELDS: Array<{ key: keyof RecordFormValues; label: string; placeholder?: string }> = [
+  { key: "name", label: "门店名称", placeholder: "必填" },
+  { key: "brand", label: "竞品品牌", placeholder: "如：雕牌" },
+  { key: "productName", label: "竞品产品" },
+  { key: "discountprice", label: "折扣/价格", placeholder: "如：原价19.9，促销15.9" },
+  { key: "distributor", label: "经销商" },
+  { key: "district", label: "片区" },
+]
+
+export default function RecordForm({ mode, recordId, initial, regions, onSaved, onCancel }: RecordFormProps) {
+  const [values, setValues] = useState<RecordFormValues>(initial)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const setField = <K extends keyof RecordFormValues>(key: K, value: RecordFormValues[K]) => {
+    setValues((prev) => ({ ...prev, [key]: value }))
+  }
+
+  /**
+   * 组装请求体：新增时提交全部字段，编辑时只提交修改过的字段
+   */
+  const buildPayload = (): Record<string, any> => {
+    const payload: Record<string, any> = {}
+    for (const key of Object.keys(values) as Array<keyof RecordFormValues>) {
+      const changed = JSON.stringify(values[key]) !== JSON.stringify(initial[key])
+      if (mode === "create" || changed) payload[key] = values[key]
+    }
+    if ("record_date" in payload && !payload.record_date) payload.record_date = null
+    return payload
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (saving) return
+
+    if (!values.name.trim()) {
+      setError("门店名称不能为空")
+      return
+    }
+    if (!values.coordinates.every(Number.isFinite)) {
+      setError("经纬度格式不正确")
+      return
+    }
+
+    const payload = buildPayload()
+    if (mode === "edit" && Object.keys(payload).length === 0) {
+      onCancel()
+      return
+    }
+
+    setSaving(true)
+    setError("")
+    try {
+      const res = await fetch(mode === "create" ? "/api/customer-data" : `/api/customer-data/${encodeURIComponent(recordId || "")}`, {
+        method: mode === "create" ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok || !data?.customer) {
+        throw new Error(data?.error || "保存失败")
+      }
+      onSaved(data.customer)
+    } catch (err: any) {
+      setError(err?.message || "保存失败")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = "w-full text-sm border rounded px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 text-sm">
+      {TEXT_FIELDS.map(({ key, label, placeholder }) => (
+        <label key={key} className="flex items-center justify-between gap-3 py-1">
+          <span className="text-gray-600 flex-shrink-0 w-20">{label}</span>
+          <input
+            type="text"
+            value={values[key] as string}
+            placeholder={placeholder}
+            onChange={(e) => setField(key, e.target.value)}
+            className={inputClass}
+          />
+        </label>
+      ))}
+
+      <label className="flex items-center justify-between gap-3 py-1">
+        <span className="text-gray-600 flex-shrink-0 w-20">省区</span>
+        <select value={values.region} onChange={(e) => setField("region", e.target.value)} className={inputClass}>
+          <option value="">未填写</option>
+          {/* 保留不在可选列表中的已有值 */}
+          {[...new Set([...regions, values.region].filter(Boolean))].map((region) => (
+            <option key={region} value={region}>
+              {region}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center justify-between gap-3 py-1">
+        <span className="text-gray-600 flex-shrink-0 w-20">记录日期</span>
+        <input
+          type="date"
+          value={values.record_date}
+          onChange={(e) => setField("record_date", e.target.value)}
+          className={inputClass}
+        />
+      </label>
+
+      <div className="flex items-center justify-between gap-3 py-1">
+        <span className="text-gray-600 flex-shrink-0 w-20">经纬度</span>
+        <div className="flex gap-2 w-full">
+          {[0, 1].map((i) => (
+            <input
+              key={i}
+              type="number"
+              step="any"
+              value={Number.isFinite(values.coordinates[i]) ? values.coordinates[i] : ""}
+              placeholder={i === 0 ? "经度" : "纬度"}
+              onChange={(e) => {
+                const next = [...values.coordinates] as [number, number]
+                next[i] = e.target.value === "" ? NaN : Number(e.target.value)
+                setField("coordinates", next)
+              }}
+              className={inputClass}
+            />
+          ))}
+        </div>
+      </div>
+
+      {error && <div className="text-xs text-red-600">{error}</div>}
+
+      <div className="flex gap-2 pt-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 py-2 text-sm rounded bg-gray-100 hover:bg-gray-200 transition-colors"
+          disabled={saving}
+        >
+          取消
+        </button>
+        <button
+          type="submit"
+          className={`flex-1 py-2 text-sm rounded bg-blue-500 text-white hover:bg-blue-600 transition-colors ${
+            saving ? "opacity-70" : ""
+          }`}
+          disabled={saving}
+        >
+          {saving ? "保存中..." : mode === "create" ? "新增记录" : "保存修改"}
+        </button>
+      </div>
+    </form>
+  )
+}
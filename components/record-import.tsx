@@ -0,0 +1,290 @@
+/**
+ * =====================================================
+ * 批量导入 (components/record-import.tsx)
+ * =====================================================
+ *
+ * 上传 Excel / CSV 文件，把巡店记录批量写入飞书多维表格
+ *
+ * 1. 选择文件 → POST /api/import/preview，逐行校验（不写入）
+ * 2. 查看列对应关系和每一行的问题，可下载错误报告
+ * 3. 确认后 → POST /api/import，只写入校验通过的行；中途失败可重试，已写入的行不会重复新增
+ *
+ * 有多个数据源时可选择写入哪一张表格（默认第一个），校验按该表格的字段映射进行
+ * 需要在飞书中打开（免登，见 lib/feishu-login.ts），未登录时不能上传
+ * =====================================================
+ */
+
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import type { DataSourceInfo } from "@/lib/feishu/sources"
+import type { FeishuUser } from "@/lib/feishu/user-auth"
+import { loginWithFeishu } from "@/lib/feishu-login"
+import type { GeocodeConfidence } from "@/lib/geocode"
+import type { ImportPreview } from "@/lib/import"
+
+const CONFIDENCE_LABELS: Record<GeocodeConfidence, string> = { high: "高", medium: "中", low: "低" }
+
+export default function RecordImport() {
+  const [fileName, setFileName] = useState("")
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [status, setStatus] = useState<"idle" | "checking" | "ready" | "importing" | "done">("idle")
+  const [error, setError] = useState("")
+  const [created, setCreated] = useState(0)
+  const [skipped, setSkipped] = useState(0) // 之前已写入、本次跳过的行数
+  const [importId, setImportId] = useState("") // 导入批次，每次预览后重新生成
+  const [showValid, setShowValid] = useState(false) // 是否同时列出校验通过的行
+  const [sources, setSources] = useState<DataSourceInfo[]>([])
+  const [sourceId, setSourceId] = useState("") // 写入的数据源，空字符串为第一个
+  const [feishuUser, setFeishuUser] = useState<FeishuUser | null | undefined>(undefined) // 识别中为 undefined，未登录为 null
+
+  useEffect(() => {
+    loginWithFeishu()
+      .then(setFeishuUser)
+      .catch((error) => {
+        console.error("Error logging in with Feishu:", error)
+        setFeishuUser(null)
+      })
+  }, [])
+
+  useEffect(() => {
+    fetch("/api/sources")
+      .then((res) => (res.ok ? res.json() : { sources: [] }))
+      .then((data) => setSources(data.sources || []))
+      .catch(() => setSources([]))
+  }, [])
+
+  /**
+   * 选择文件后立即上传校验
+   */
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = "" // 允许重新选择同一个文件
+    if (!file) return
+
+    setFileName(file.name)
+    setPreview(null)
+    setError("")
+    setStatus("checking")
+    try {
+      const form = new FormData()
+      form.append("file", file)
+      if (sourceId) form.append("source", sourceId)
+      const res = await fetch("/api/import/preview", { method: "POST", body: form })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data?.error || "读取文件失败")
+      setPreview(data)
+      setImportId(crypto.randomUUID())
+      setStatus("ready")
+    } catch (err: any) {
+      setError(err?.message || "读取文件失败")
+      setStatus("idle")
+    }
+  }
+
+  /**
+   * 写入校验通过的行
+   */
+  const handleImport = async () => {
+    if (!preview || status !== "ready") return
+    const records = preview.rows.filter((r) => r.input).map((r) => ({ row: r.row, ...r.input }))
+
+    setStatus("importing")
+    setError("")
+    try {
+      const res = await fetch("/api/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ source: sourceId || undefined, importId, records }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data?.error || "导入失败")
+      setCreated(data.created || 0)
+      setSkipped(data.skipped || 0)
+      setStatus("done")
+    } catch (err: any) {
+      setError(err?.message || "导入失败")
+      setStatus("ready")
+    }
+  }
+
+  /**
+   * 下载错误报告（CSV: 行号、门店名称、问题）
+   */
+  const downloadErrors = () => {
+    if (!preview) return
+    const cell = (v: string | number) => `"${String(v).replace(/"/g, '""')}"`
+    const lines = [["行号", "门店名称", "问题"].map(cell).join(",")]
+    for (const r of preview.rows) {
+      if (r.errors.length) lines.push([r.row, r.name, r.errors.join("；")].map(cell).join(","))
+    }
+    const blob = new Blob(["\uFEFF" + lines.join("\r\n")], { type: "text/csv;charset=utf-8" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `导入错误报告-${fileName.replace(/\.[^.]+$/, "")}.csv`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const invalidCount = preview ? preview.total - preview.valid : 0
+  const listedRows = preview ? preview.rows.filter((r) => showValid || r.errors.length) : []
+
+  return (
+    <div className="max-w-3xl mx-auto p-4 space-y-4 text-sm">
+      <div className="flex items-center justify-between">
+        <h1 className="text-lg font-semibold">批量导入巡店记录</h1>
+        <a href="/" className="text-xs text-blue-600 hover:underline">
+          返回地图
+        </a>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4 space-y-2">
+        <div className="text-xs text-gray-500">
+          支持 .xlsx 和 .csv 文件，第一行为表头。表头与多维表格的列名相同即可自动对应（如 门店、竞品品牌、折扣/价格、记录日期、经度、纬度）；
+          没有经纬度的行会尝试根据地址解析。
+        </div>
+        <label className="inline-flex items-center gap-2 px-3 py-2 rounded bg-blue-500 text-white hover:bg-blue-600 cursor-pointer transition-colors">
+          <input
+            type="file"
+            accept=".xlsx,.csv"
+            className="hidden"
+            onChange={handleFile}
+            disabled={!feishuUser || status === "checking" || status === "importing"}
+          />
+          {status === "checking" ? "校验中..." : "选择文件"}
+        </label>
+        {fileName && <span className="ml-2 text-xs text-gray-600">{fileName}</span>}
+        {feishuUser === null && <div className="text-xs text-gray-400">在飞书中打开本页面后可导入</div>}
+        {sources.length > 1 && (
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            写入
+            <select
+              value={sourceId || sources[0].id}
+              onChange={(e) => {
+                // 换了表格后字段映射可能不同，需要重新选择文件校验
+                setSourceId(e.target.value)
+                setPreview(null)
+                setStatus("idle")
+              }}
+              disabled={status === "checking" || status === "importing"}
+              className="border rounded px-1 py-0.5"
+            >
+              {sources.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.displayName}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {error && <div className="text-xs text-red-600">{error}</div>}
+      </div>
+
+      {preview && (
+        <>
+          {/* 列对应关系 */}
+          <div className="bg-white rounded-lg shadow p-4">
+            <div className="text-xs text-gray-600 mb-2">列对应关系</div>
+            <div className="flex flex-wrap gap-1">
+              {preview.columns.map((col, i) => (
+                <span
+                  key={i}
+                  className={`text-[11px] px-2 py-0.5 rounded ${col.key ? "bg-blue-50 text-blue-700" : "bg-gray-100 text-gray-400 line-through"}`}
+                  title={col.key ? `导入为 ${col.label}` : "不导入"}
+                >
+                  {col.header || `第 ${i + 1} 列`}
+                  {col.key && col.label !== col.header ? ` → ${col.label}` : ""}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {/* 校验结果 */}
+          <div className="bg-white rounded-lg shadow p-4 space-y-2">
+            <div className="flex flex-wrap items-center gap-3">
+              <span>
+                共 <b>{preview.total}</b> 行，可导入 <b className="text-green-600">{preview.valid}</b> 行
+                {invalidCount > 0 && (
+                  <>
+                    ，有问题 <b className="text-red-600">{invalidCount}</b> 行
+                  </>
+                )}
+                {preview.geocoded > 0 && <span className="text-gray-500">（{preview.geocoded} 行坐标由地址解析）</span>}
+                {preview.geocodePending > 0 && (
+                  <span className="text-orange-500">；{preview.geocodePending} 行的地址正在后台解析，几分钟后重新选择文件即可导入</span>
+                )}
+              </span>
+              {invalidCount > 0 && (
+                <button onClick={downloadErrors} className="text-xs text-blue-600 hover:underline">
+                  下载错误报告
+                </button>
+              )}
+              <label className="flex items-center gap-1 text-xs text-gray-500 ml-auto">
+                <input type="checkbox" checked={showValid} onChange={(e) => setShowValid(e.target.checked)} />
+                显示全部行
+              </label>
+            </div>
+
+            {listedRows.length > 0 && (
+              <div className="max-h-[50vh] overflow-y-auto border rounded">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr className="text-gray-500">
+                      <th className="text-left font-normal px-2 py-1 w-12">行号</th>
+                      <th className="text-left font-normal px-2 py-1">门店名称</th>
+                      <th className="text-left font-normal px-2 py-1">结果</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {listedRows.map((r) => (
+                      <tr key={r.row} className="border-t">
+                        <td className="px-2 py-1 text-gray-400 font-mono">{r.row}</td>
+                        <td className="px-2 py-1">{r.name || <span className="text-gray-400">（空）</span>}</td>
+                        <td className="px-2 py-1">
+                          {r.errors.length ? (
+                            <span className="text-red-600">{r.errors.join("；")}</span>
+                          ) : (
+                            <span className="text-green-600">
+                              可导入
+                              {r.geocode && r.input && (
+                                <span className={r.geocode.confidence === "low" ? "text-orange-500" : "text-gray-400"}>
+                                  （地址解析: {r.input.coordinates.join(", ")}，可信度{CONFIDENCE_LABELS[r.geocode.confidence]}
+                                  {r.geocode.level ? ` · ${r.geocode.level}` : ""}）
+                                </span>
+                              )}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {status === "done" ? (
+              <div className="text-green-600">
+                已导入 {created} 条记录{skipped > 0 ? `（另有 ${skipped} 条之前已写入，已跳过）` : ""}。
+                <a href="/" className="text-blue-600 hover:underline ml-1">
+                  在地图中查看
+                </a>
+              </div>
+            ) : (
+              <button
+                onClick={handleImport}
+                disabled={preview.valid === 0 || status !== "ready"}
+                className={`w-full py-2 rounded bg-blue-500 text-white hover:bg-blue-600 transition-colors ${
+                  preview.valid === 0 || status !== "ready" ? "opacity-50" : ""
+                }`}
+              >
+                {status === "importing" ? "导入中..." : `导入 ${preview.valid} 条可导入的记录`}
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
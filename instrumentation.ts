@@ -0,0 +1,22 @@
+/**
+ * =====================================================
+ * 服务启动钩子 (instrumentation.ts)
+ * =====================================================
+ *
+ * Next.js 在服务启动时调用 register()
+ * 在这里校验配置，配置有误时直接启动失败，避免线上静默丢数据
+ * =====================================================
+ */
+
+export async function register() {
+  // 只在 Node.js 运行时校验（Edge 运行时不读取这些配置）
+  if (process.env.NEXT_RUNTIME !== "nodejs") return
+
+  const { validateFieldMappings } = await import("@/lib/feishu/field-mapping")
+  validateFieldMappings()
+  console.log("字段映射配置校验通过")
+
+  const { validateDataSources } = await import("@/lib/feishu/sources")
+  validateDataSources()
+  console.log("数据源配置校验通过")
+}
@@ -0,0 +1,173 @@
+/**
+ * =====================================================
+ * AI 分析筛选结果 (lib/ai-summary.ts)
+ * =====================================================
+ *
+ * 把一组巡店记录的品牌、产品、省区分布和价格统计组装成提示词，调用火山方舟（豆包）生成文字总结
+ * 地图上的"AI 分析"（/api/feishu/send-filtered）和推送到飞书群（/api/feishu/send-group）共用
+ *
+ * 环境变量: DOUBAO_API_KEY、DOUBAO_Endpoint
+ * =====================================================
+ */
+
+import { type PriceStat, summarizePrices } from "@/lib/price"
+
+const DOUBAO_API_KEY = process.env.DOUBAO_API_KEY || ""
+const DOUBAO_ENDPOINT = process.env.DOUBAO_Endpoint || ""
+const DOUBAO_API_URL = "https://ark.cn-beijing.volces.com/api/v3/chat/completions"
+
+/**
+ * 筛选条件的文字说明（没有的条件填"无"/"不限"）
+ */
+export interface SummaryFilters {
+  总数: number
+  搜索关键词: string
+  省区筛选: string
+  品牌筛选: string
+  范围: string
+  记录日期: string
+}
+
+/**
+ * 缺少的环境变量（都配置了时返回 null）
+ */
+export function getAiConfigError(): string | null {
+  if (!DOUBAO_API_KEY) return "缺少DOUBAO_API_KEY环境变量"
+  if (!DOUBAO_ENDPOINT) return "缺少DOUBAO_Endpoint环境变量"
+  return null
+}
+
+/**
+ * 组装提示词
+ */
+function buildPrompt(customers: any[], dataSummary: SummaryFilters): string {
+  // 统计信息
+  const brandCount: Record<string, number> = {}
+  const provinceCount: Record<string, number> = {}
+  const productCount: Record<string, number> = {}
+  const discountInfo: string[] = []
+
+  customers.forEach((customer: any) => {
+    const brand = customer.brand || "未知"
+    const province = customer.region || customer.province || "未知"
+    const product = customer.productName || "未知"
+    const discount = customer.discountprice || ""
+
+    brandCount[brand] = (brandCount[brand] || 0) + 1
+    provinceCount[province] = (provinceCount[province] || 0) + 1
+    productCount[product] = (productCount[product] || 0) + 1
+
+    if (discount) {
+      discountInfo.push(`${product}: ${discount}`)
+    }
+  })
+
+  // 价格统计（按记录中解析好的价格取实际成交价）
+  const formatPriceStats = (rows: PriceStat[]) =>
+    rows
+      .slice(0, 5)
+      .map((row) => `- ${row.name}：最低 ${row.min} 元，中位 ${row.median} 元，最高 ${row.max} 元（${row.count}条）`)
+      .join("\n")
+  const productPrices = formatPriceStats(summarizePrices(customers, (c) => c.productName))
+  const regionPrices = formatPriceStats(summarizePrices(customers, (c) => c.region || c.province))
+
+  // 构建提示词
+  return `你是一个竞品数据分析助手。用户通过搜索或筛选按钮查看了特定的竞品信息记录，请帮用户总结这些筛选结果。
+
+## 用户筛选条件
+- 搜索关键词：${dataSummary.搜索关键词}
+- 省区筛选：${dataSummary.省区筛选}
+- 品牌筛选：${dataSummary.品牌筛选}
+- 记录日期：${dataSummary.记录日期}
+- 绘制范围：${dataSummary.范围}
+
+## 筛选结果数据（共 ${dataSummary.总数} 条记录）
+
+### 竞品品牌分布
+${Object.entries(brandCount)
+  .sort(([, a], [, b]) => b - a)
+  .map(([brand, count]) => `- ${brand}：${count}条 (${((count / dataSummary.总数) * 100).toFixed(1)}%)`)
+  .join("\n")}
+
+### 竞品产品分布（Top 5）
+${Object.entries(productCount)
+  .sort(([, a], [, b]) => b - a)
+  .slice(0, 5)
+  .map(([product, count]) => `- ${product}：${count}条 (${((count / dataSummary.总数) * 100).toFixed(1)}%)`)
+  .join("\n")}
+
+### 省区分布
+${Object.entries(provinceCount)
+  .sort(([, a], [, b]) => b - a)
+  .map(([province, count]) => `- ${province}：${count}条 (${((count / dataSummary.总数) * 100).toFixed(1)}%)`)
+  .join("\n")}
+
+### 价格统计（按产品，Top 5）
+${productPrices || "- 暂无可识别的价格"}
+
+### 价格统计（按省区）
+${regionPrices || "- 暂无可识别的价格"}
+
+### 折扣/价格信息样例（最多展示5条）
+${discountInfo.slice(0, 5).map(info => `- ${info}`).join("\n") || "- 暂无折扣信息"}
+
+## 分析要求
+请用通俗易懂的语言总结上述数据，重点说明：
+1. 根据用户的筛选条件（${dataSummary.搜索关键词 !== "无" ? "关键词「" + dataSummary.搜索关键词 + "」" : ""}${dataSummary.省区筛选 !== "无" ? "、省区「" + dataSummary.省区筛选 + "」" : ""}${dataSummary.品牌筛选 !== "无" ? "、品牌「" + dataSummary.品牌筛选 + "」" : ""}${dataSummary.范围 !== "不限" ? "、地图上绘制的范围「" + dataSummary.范围 + "」" : ""}），找到了多少条相关竞品记录
+2. 主要是什么品牌的产品，各占比多少
+3. 主要的竞品产品有哪些
+4. 折扣/价格的整体情况如何（如果有），各产品、各省区的价格区间差异
+5. 地域分布特点${dataSummary.范围 !== "不限" ? "（结果只包含绘制范围内的门店，请结合该范围说明）" : ""}
+
+要求简洁专业，2-3段话即可，不要使用列表格式，使用自然的段落叙述。`
+}
+
+/**
+ * 生成筛选结果的文字总结
+ *
+ * @param customers - 参与分析的记录（地图视野内的记录）
+ * @throws 缺少环境变量、调用失败或没有返回内容时抛出错误
+ */
+export async function summarizeCustomers(customers: any[], dataSummary: SummaryFilters): Promise<string> {
+  const configError = getAiConfigError()
+  if (configError) throw new Error(configError)
+
+  const prompt = buildPrompt(customers, dataSummary)
+
+  // 调用火山方舟 Doubao API
+  const res = await fetch(DOUBAO_API_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${DOUBAO_API_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: DOUBAO_ENDPOINT, // 使用 endpoint ID 作为模型参数
+      messages: [
+        {
+          role: "user",
+          content: prompt,
+        },
+      ],
+      temperature: 0.7,
+    }),
+  })
+
+  if (!res.ok) {
+    const errorText = await res.text()
+    console.error("Doubao API call failed", {
+      status: res.status,
+      response: errorText,
+    })
+    throw new Error(`Doubao API 调用失败: ${res.status}`)
+  }
+
+  const data = await res.json()
+  const summary = data?.choices?.[0]?.message?.content || ""
+
+  if (!summary) {
+    throw new Error("AI 未返回有效的分析结果")
+  }
+
+  return summary
+}
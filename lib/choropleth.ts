@@ -0,0 +1,75 @@
+/**
+ * =====================================================
+ * 分级设色统计 (lib/choropleth.ts)
+ * =====================================================
+ *
+ * 按省/市统计记录数或某品牌占比，并划分颜色等级
+ * =====================================================
+ */
+
+import { type RegionBoundary, findRegion } from "@/lib/region-boundaries"
+
+/**
+ * - count: 记录数
+ * - share: 选定品牌的记录数占该区域记录数的比例
+ */
+export type ChoroplethMetric = "count" | "share"
+
+export interface RegionStat {
+  count: number // 区域内记录数
+  brandCount: number // 其中选定品牌的记录数
+  value: number // 用于着色的值
+}
+
+// 由浅到深的颜色等级
+export const CHOROPLETH_COLORS = ["#fee5d9", "#fcbba1", "#fc9272", "#fb6a4a", "#de2d26", "#a50f15"]
+
+/**
+ * 统计每个区域的记录数和品牌占比
+ *
+ * @param points - 记录坐标和品牌列表
+ * @param regions - 行政区边界
+ * @param brand - 计算占比的品牌
+ * @returns adcode -> 统计值（没有记录的区域不出现）
+ */
+export function aggregateByRegion(
+  points: Array<{ coordinates: [number, number]; brands: string[] }>,
+  regions: RegionBoundary[],
+  metric: ChoroplethMetric,
+  brand: string
+): Map<string, RegionStat> {
+  const stats = new Map<string, RegionStat>()
+
+  for (const p of points) {
+    const region = findRegion(p.coordinates, regions)
+    if (!region) continue
+    const stat = stats.get(region.adcode) || { count: 0, brandCount: 0, value: 0 }
+    stat.count++
+    if (p.brands.includes(brand)) stat.brandCount++
+    stats.set(region.adcode, stat)
+  }
+
+  for (const stat of stats.values()) {
+    stat.value = metric === "share" ? stat.brandCount / stat.count : stat.count
+  }
+  return stats
+}
+
+/**
+ * 颜色等级的上限值（与 CHOROPLETH_COLORS 一一对应）
+ * - 记录数: 按最大值等分，取整
+ * - 占比: 固定等分 0~100%
+ */
+export function choroplethBreaks(values: number[], metric: ChoroplethMetric): number[] {
+  const classes = CHOROPLETH_COLORS.length
+  if (metric === "share") {
+    return CHOROPLETH_COLORS.map((_, i) => (i + 1) / classes)
+  }
+  const step = Math.max(1, Math.ceil(Math.max(0, ...values) / classes))
+  return CHOROPLETH_COLORS.map((_, i) => (i + 1) * step)
+}
+
+export function choroplethColor(value: number, breaks: number[]): string {
+  const index = breaks.findIndex((upper) => value <= upper)
+  return CHOROPLETH_COLORS[index === -1 ? CHOROPLETH_COLORS.length - 1 : index]
+}
@@ -0,0 +1,132 @@
+/**
+ * =====================================================
+ * 坐标系转换 (lib/coords.ts)
+ * =====================================================
+ *
+ * 记录中的坐标来自不同的来源，坐标系不同:
+ * - wgs84: GPS 原始坐标（手机定位、GeoJSON / KML 等通用格式）
+ * - gcj02: 国测局坐标（高德地图、飞书地理位置字段）
+ * - bd09: 百度坐标（从百度地图复制的坐标）
+ *
+ * 地图（高德）使用 GCJ-02，读取记录时按字段映射中声明的坐标系统一转换为 GCJ-02，
+ * 写回飞书时再转换为该字段声明的坐标系（见 lib/feishu/transform.ts、lib/feishu/write.ts）
+ *
+ * 中国境外不做偏移（GCJ-02 只在境内加偏）
+ *
+ * 另有两点间球面距离 distanceMeters（不依赖 Node.js 模块，前端也可以使用）
+ * =====================================================
+ */
+
+export const COORD_SYSTEMS = ["wgs84", "gcj02", "bd09"] as const
+
+export type CoordSystem = (typeof COORD_SYSTEMS)[number]
+
+type LngLat = [number, number]
+
+const A = 6378245.0 // 克拉索夫斯基椭球长半轴
+const EE = 0.00669342162296594323 // 偏心率平方
+const X_PI = (Math.PI * 3000.0) / 180.0
+
+function outOfChina([lng, lat]: LngLat): boolean {
+  return lng < 72.004 || lng > 137.8347 || lat < 0.8293 || lat > 55.8271
+}
+
+function transformLat(x: number, y: number): number {
+  let ret = -100.0 + 2.0 * x + 3.0 * y + 0.2 * y * y + 0.1 * x * y + 0.2 * Math.sqrt(Math.abs(x))
+  ret += ((20.0 * Math.sin(6.0 * x * Math.PI) + 20.0 * Math.sin(2.0 * x * Math.PI)) * 2.0) / 3.0
+  ret += ((20.0 * Math.sin(y * Math.PI) + 40.0 * Math.sin((y / 3.0) * Math.PI)) * 2.0) / 3.0
+  ret += ((160.0 * Math.sin((y / 12.0) * Math.PI) + 320 * Math.sin((y * Math.PI) / 30.0)) * 2.0) / 3.0
+  return ret
+}
+
+function transformLng(x: number, y: number): number {
+  let ret = 300.0 + x + 2.0 * y + 0.1 * x * x + 0.1 * x * y + 0.1 * Math.sqrt(Math.abs(x))
+  ret += ((20.0 * Math.sin(6.0 * x * Math.PI) + 20.0 * Math.sin(2.0 * x * Math.PI)) * 2.0) / 3.0
+  ret += ((20.0 * Math.sin(x * Math.PI) + 40.0 * Math.sin((x / 3.0) * Math.PI)) * 2.0) / 3.0
+  ret += ((150.0 * Math.sin((x / 12.0) * Math.PI) + 300.0 * Math.sin((x / 30.0) * Math.PI)) * 2.0) / 3.0
+  return ret
+}
+
+export function wgs84ToGcj02([lng, lat]: LngLat): LngLat {
+  if (outOfChina([lng, lat])) return [lng, lat]
+  let dLat = transformLat(lng - 105.0, lat - 35.0)
+  let dLng = transformLng(lng - 105.0, lat - 35.0)
+  const radLat = (lat / 180.0) * Math.PI
+  let magic = Math.sin(radLat)
+  magic = 1 - EE * magic * magic
+  const sqrtMagic = Math.sqrt(magic)
+  dLat = (dLat * 180.0) / (((A * (1 - EE)) / (magic * sqrtMagic)) * Math.PI)
+  dLng = (dLng * 180.0) / ((A / sqrtMagic) * Math.cos(radLat) * Math.PI)
+  return [lng + dLng, lat + dLat]
+}
+
+/**
+ * GCJ-02 → WGS-84（迭代求逆，误差在厘米级）
+ */
+export function gcj02ToWgs84([lng, lat]: LngLat): LngLat {
+  if (outOfChina([lng, lat])) return [lng, lat]
+  let wgs: LngLat = [lng, lat]
+  for (let i = 0; i < 5; i++) {
+    const [gLng, gLat] = wgs84ToGcj02(wgs)
+    wgs = [wgs[0] - (gLng - lng), wgs[1] - (gLat - lat)]
+  }
+  return wgs
+}
+
+export function bd09ToGcj02([lng, lat]: LngLat): LngLat {
+  const x = lng - 0.0065
+  const y = lat - 0.006
+  const z = Math.sqrt(x * x + y * y) - 0.00002 * Math.sin(y * X_PI)
+  const theta = Math.atan2(y, x) - 0.000003 * Math.cos(x * X_PI)
+  return [z * Math.cos(theta), z * Math.sin(theta)]
+}
+
+export function gcj02ToBd09([lng, lat]: LngLat): LngLat {
+  const z = Math.sqrt(lng * lng + lat * lat) + 0.00002 * Math.sin(lat * X_PI)
+  const theta = Math.atan2(lat, lng) + 0.000003 * Math.cos(lng * X_PI)
+  return [z * Math.cos(theta) + 0.0065, z * Math.sin(theta) + 0.006]
+}
+
+// 保留 6 位小数（约 0.1 米），与飞书地理位置字段的精度一致
+function round([lng, lat]: LngLat): LngLat {
+  return [Math.round(lng * 1e6) / 1e6, Math.round(lat * 1e6) / 1e6]
+}
+
+/**
+ * 任意坐标系 → GCJ-02
+ */
+export function toGcj02(coordinates: LngLat, from: CoordSystem = "gcj02"): LngLat {
+  switch (from) {
+    case "wgs84":
+      return round(wgs84ToGcj02(coordinates))
+    case "bd09":
+      return round(bd09ToGcj02(coordinates))
+    default:
+      return coordinates
+  }
+}
+
+/**
+ * GCJ-02 → 任意坐标系
+ */
+export function fromGcj02(coordinates: LngLat, to: CoordSystem = "gcj02"): LngLat {
+  switch (to) {
+    case "wgs84":
+      return round(gcj02ToWgs84(coordinates))
+    case "bd09":
+      return round(gcj02ToBd09(coordinates))
+    default:
+      return coordinates
+  }
+}
+
+/**
+ * 两点间的球面距离（米）
+ */
+export function distanceMeters([lng1, lat1]: [number, number], [lng2, lat2]: [number, number]): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(lat2 - lat1)
+  const dLng = toRad(lng2 - lng1)
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
@@ -0,0 +1,239 @@
+/**
+ * =====================================================
+ * 客户数据查询 (lib/customer-query.ts)
+ * =====================================================
+ *
+ * /api/customer-data 的筛选、搜索、分页和分面统计
+ * 前端只请求符合条件的记录，不再下载全部数据后在浏览器里筛选
+ *
+ * 查询参数:
+ * - region: 省区，可重复或用逗号分隔（多选）
+ * - brand: 竞品品牌，可重复或用逗号分隔（多选）
+ * - source: 数据源 id（见 lib/feishu/sources.ts），可重复或用逗号分隔，不传表示全部数据源
+ * - q: 关键词，匹配门店名称/产品/品牌/地址
+ * - from / to: 记录日期范围 YYYY-MM-DD（含首尾）
+ * - bbox: 地图范围 "西经度,南纬度,东经度,北纬度"
+ * - shape: 地图上画出的范围（圆 / 矩形 / 多边形，格式见 lib/shapes.ts）
+ * - store: 门店 storeId，只返回该门店的巡店记录
+ * - id: 记录 record_id，可重复或用逗号分隔
+ * - limit: 每页条数（不传则返回全部，传 0 只返回总数和分面统计）
+ * - cursor: 上一页返回的 nextCursor
+ * - priceStats: 传 1 时附带符合条件记录的价格统计（按产品、按省区）
+ * =====================================================
+ */
+
+import type { CustomerRecord } from "@/lib/feishu/transform"
+import { type PriceStat, summarizePrices } from "@/lib/price"
+import { type MapShape, parseShape, shapeContains } from "@/lib/shapes"
+
+// 单页最大条数
+export const MAX_PAGE_SIZE = 5000
+
+export interface CustomerQuery {
+  regions: string[]
+  brands: string[]
+  sources: string[]
+  keyword: string
+  dateFrom: string | null
+  dateTo: string | null
+  bbox: [number, number, number, number] | null // [西, 南, 东, 北]
+  shape: MapShape | null
+  storeId: string | null
+  ids: string[]
+  limit: number | null
+  offset: number
+  priceStats: boolean
+}
+
+/**
+ * 分面统计：在其他条件都生效的前提下，每个省区/品牌/月份/数据源各有多少条记录
+ * （统计省区时不应用省区条件，统计品牌时不应用品牌条件，统计月份时不应用日期条件，
+ * 统计数据源时不应用数据源条件，便于多选、时间轴和图层开关）
+ */
+export interface CustomerFacets {
+  regions: Record<string, number>
+  brands: Record<string, number>
+  months: Record<string, number> // "YYYY-MM" -> 记录数（没有记录日期的不统计）
+  sources: Record<string, number> // 数据源 id -> 记录数
+}
+
+export interface CustomerQueryResult {
+  customers: CustomerRecord[]
+  total: number // 符合条件的总条数（不受分页影响）
+  facets: CustomerFacets
+  nextCursor: string | null
+  priceStats?: {
+    byProduct: PriceStat[]
+    byRegion: PriceStat[]
+  }
+}
+
+/**
+ * 拆分品牌字段（支持"雕牌、其他"这种格式）
+ */
+export function splitBrands(brand: string): string[] {
+  return (brand || "").split(/[、,，]/).map((name) => name.trim()).filter(Boolean)
+}
+
+function readList(params: URLSearchParams, key: string): string[] {
+  return params
+    .getAll(key)
+    .flatMap((v) => v.split(","))
+    .map((v) => v.trim())
+    .filter(Boolean)
+}
+
+function readDate(params: URLSearchParams, key: string): string | null {
+  const v = params.get(key)
+  return v && /^\d{4}-\d{2}-\d{2}$/.test(v) ? v : null
+}
+
+/**
+ * 分页游标：对偏移量做 base64 编码，前端只需原样传回
+ */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(String(offset)).toString("base64url")
+}
+
+function decodeCursor(cursor: string | null): number {
+  if (!cursor) return 0
+  const n = parseInt(Buffer.from(cursor, "base64url").toString(), 10)
+  return Number.isFinite(n) && n > 0 ? n : 0
+}
+
+/**
+ * 解析查询参数
+ *
+ * @throws 参数格式错误时抛出错误（由路由返回 400）
+ */
+export function parseCustomerQuery(params: URLSearchParams): CustomerQuery {
+  let bbox: CustomerQuery["bbox"] = null
+  const rawBbox = params.get("bbox")
+  if (rawBbox) {
+    const parts = rawBbox.split(",").map(Number)
+    if (parts.length !== 4 || !parts.every(Number.isFinite)) {
+      throw new Error("bbox 格式应为 西经度,南纬度,东经度,北纬度")
+    }
+    bbox = parts as [number, number, number, number]
+  }
+
+  const rawShape = params.get("shape")
+  const shape = parseShape(rawShape)
+  if (rawShape && !shape) throw new Error("shape 格式无效")
+
+  let limit: number | null = null
+  const rawLimit = params.get("limit")
+  if (rawLimit) {
+    const n = parseInt(rawLimit, 10)
+    if (!Number.isFinite(n) || n < 0) throw new Error("limit 必须是非负整数")
+    limit = Math.min(n, MAX_PAGE_SIZE)
+  }
+
+  return {
+    regions: readList(params, "region"),
+    brands: readList(params, "brand"),
+    sources: readList(params, "source"),
+    keyword: (params.get("q") || "").trim().toLowerCase(),
+    dateFrom: readDate(params, "from"),
+    dateTo: readDate(params, "to"),
+    bbox,
+    shape,
+    storeId: params.get("store") || null,
+    ids: readList(params, "id"),
+    limit,
+    offset: decodeCursor(params.get("cursor")),
+    priceStats: params.get("priceStats") === "1",
+  }
+}
+
+// 各个筛选条件，分面统计时需要单独跳过某一个
+type Predicate = (c: CustomerRecord) => boolean
+
+function buildPredicates(query: CustomerQuery): {
+  region: Predicate
+  brand: Predicate
+  date: Predicate
+  source: Predicate
+  rest: Predicate
+} {
+  const { keyword, dateFrom, dateTo, bbox, shape, storeId, ids } = query
+
+  const region: Predicate = (c) => !query.regions.length || query.regions.includes(c.region || "")
+
+  const brand: Predicate = (c) => {
+    if (!query.brands.length) return true
+    const customerBrands = splitBrands(c.brand)
+    return query.brands.some((b) => customerBrands.includes(b))
+  }
+
+  const source: Predicate = (c) => !query.sources.length || query.sources.includes(c.source)
+
+  // 记录日期为 YYYY-MM-DD，可以直接按字符串比较
+  const date: Predicate = (c) => {
+    if (dateFrom && (!c.record_date || c.record_date < dateFrom)) return false
+    if (dateTo && (!c.record_date || c.record_date > dateTo)) return false
+    return true
+  }
+
+  const rest: Predicate = (c) => {
+    if (storeId && c.storeId !== storeId) return false
+    if (ids.length && !ids.includes(c.id)) return false
+    if (keyword) {
+      const hit = [c.name, c.productName, c.brand, c.address].some((v) => (v || "").toLowerCase().includes(keyword))
+      if (!hit) return false
+    }
+    if (bbox) {
+      const [lng, lat] = c.coordinates
+      if (lng < bbox[0] || lat < bbox[1] || lng > bbox[2] || lat > bbox[3]) return false
+    }
+    if (shape && !shapeContains(shape, c.coordinates)) return false
+    return true
+  }
+
+  return { region, brand, date, source, rest }
+}
+
+/**
+ * 按查询条件筛选、统计并分页
+ */
+export function queryCustomers(all: CustomerRecord[], query: CustomerQuery): CustomerQueryResult {
+  const { region, brand, date, source, rest } = buildPredicates(query)
+
+  const matched: CustomerRecord[] = []
+  const facets: CustomerFacets = { regions: {}, brands: {}, months: {}, sources: {} }
+
+  for (const c of all) {
+    if (!rest(c)) continue
+    const inRegion = region(c)
+    const inBrand = brand(c)
+    const inDate = date(c)
+    const inSource = source(c)
+
+    if (inSource && inBrand && inDate && c.region) facets.regions[c.region] = (facets.regions[c.region] || 0) + 1
+    if (inSource && inRegion && inDate) {
+      for (const b of splitBrands(c.brand)) facets.brands[b] = (facets.brands[b] || 0) + 1
+    }
+    if (inSource && inRegion && inBrand && c.record_date) {
+      const month = c.record_date.slice(0, 7)
+      facets.months[month] = (facets.months[month] || 0) + 1
+    }
+    if (inRegion && inBrand && inDate) facets.sources[c.source] = (facets.sources[c.source] || 0) + 1
+    if (inSource && inRegion && inBrand && inDate) matched.push(c)
+  }
+
+  const start = Math.min(query.offset, matched.length)
+  const end = query.limit !== null ? start + query.limit : matched.length
+
+  return {
+    customers: matched.slice(start, end),
+    total: matched.length,
+    facets,
+    nextCursor: query.limit !== 0 && end < matched.length ? encodeCursor(end) : null,
+    ...(query.priceStats && {
+      priceStats: {
+        byProduct: summarizePrices(matched, (c) => c.productName),
+        byRegion: summarizePrices(matched, (c) => c.region),
+      },
+    }),
+  }
+}
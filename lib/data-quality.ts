@@ -0,0 +1,210 @@
+/**
+ * =====================================================
+ * 数据质量检查 (lib/data-quality.ts)
+ * =====================================================
+ *
+ * 列出需要在飞书中修正的记录:
+ * - rejected: 无法在地图上展示的记录（缺少门店名称、坐标等），附带原因
+ * - 可疑记录: 能展示但可能有错
+ *   - outside_china: 坐标不在中国范围内
+ *   - swapped: 经纬度填反（转换时已自动对调，见 lib/feishu/transform.ts）
+ *   - duplicate_record: 同一门店、同一天、同一产品、同样价格的重复记录
+ *   - duplicate_store: 同名门店相距不远却被归为两个门店（见 lib/stores.ts），可能是坐标有误
+ *   - missing_brand: 缺少竞品品牌
+ *   - invalid_date: 记录日期有值但无法解析
+ *
+ * 每个数据源（见 lib/feishu/sources.ts）分别检查，每条问题都带上飞书记录链接，方便巡店人员直接修改
+ * =====================================================
+ */
+
+import { distanceMeters } from "@/lib/coords"
+import { feishuRecordUrl } from "@/lib/feishu/config"
+import { type SourceDataset, getCustomerDataset } from "@/lib/feishu/customers"
+import { resolveColumn } from "@/lib/feishu/field-mapping"
+import { type DataSource, type DataSourceInfo, toSourceInfo } from "@/lib/feishu/sources"
+import { type CustomerRecord, readAsText } from "@/lib/feishu/transform"
+import { compareVisits, normalizeStoreName } from "@/lib/stores"
+
+export type QualityIssueKind =
+  | "rejected"
+  | "outside_china"
+  | "swapped"
+  | "duplicate_record"
+  | "duplicate_store"
+  | "missing_brand"
+  | "invalid_date"
+
+export interface QualityIssue {
+  recordId: string
+  source: string // 数据源 id
+  kind: QualityIssueKind
+  name: string // 门店名称（读不到时为空）
+  message: string
+  record_date: string | null
+  coordinates: [number, number] | null // rejected 记录为 null
+  feishuUrl: string | null // 没有 record_id 时为 null
+}
+
+export interface QualityReport {
+  generatedAt: string
+  total: number // 记录总数
+  sources: DataSourceInfo[]
+  rejected: QualityIssue[]
+  suspicious: QualityIssue[]
+  counts: Record<QualityIssueKind, number>
+}
+
+// 中国范围（粗略的外接矩形，只用来发现明显填错的坐标）
+const CHINA_BOUNDS = { minLng: 73.5, maxLng: 135.1, minLat: 18.1, maxLat: 53.6 }
+
+// 同名门店相距多少米以内视为可能重复
+export const DUPLICATE_STORE_RADIUS_M = 1000
+
+const KIND_ORDER: QualityIssueKind[] = [
+  "rejected",
+  "outside_china",
+  "swapped",
+  "duplicate_store",
+  "duplicate_record",
+  "missing_brand",
+  "invalid_date",
+]
+
+function isInChina([lng, lat]: [number, number]): boolean {
+  return lng >= CHINA_BOUNDS.minLng && lng <= CHINA_BOUNDS.maxLng && lat >= CHINA_BOUNDS.minLat && lat <= CHINA_BOUNDS.maxLat
+}
+
+function issueOf(source: DataSource, customer: CustomerRecord, kind: QualityIssueKind, message: string): QualityIssue {
+  return {
+    recordId: customer.id,
+    source: source.id,
+    kind,
+    name: customer.name,
+    message,
+    record_date: customer.record_date,
+    coordinates: customer.coordinates,
+    feishuUrl: feishuRecordUrl(source, customer.id),
+  }
+}
+
+/**
+ * 重复记录: 同一门店、同一天、同一产品、同样价格文本，保留最早的一条，其余标记
+ */
+function findDuplicateRecords(source: DataSource, customers: CustomerRecord[]): QualityIssue[] {
+  const seen = new Map<string, CustomerRecord>()
+  const issues: QualityIssue[] = []
+  for (const c of [...customers].sort(compareVisits)) {
+    if (!c.record_date) continue
+    const key = [c.storeId, c.record_date, c.productName.replace(/\s+/g, ""), c.discountprice.trim()].join("|")
+    const first = seen.get(key)
+    if (first) issues.push(issueOf(source, c, "duplicate_record", `与记录 ${first.id} 重复（同一门店、同一天、同一产品）`))
+    else seen.set(key, c)
+  }
+  return issues
+}
+
+/**
+ * 可能重复的门店: 同名但被归为不同门店、相距不超过 DUPLICATE_STORE_RADIUS_M 米
+ * 标记较晚出现的门店的第一条记录
+ */
+function findDuplicateStores(source: DataSource, customers: CustomerRecord[]): QualityIssue[] {
+  // storeId -> 该门店最早的一条记录
+  const firstVisits = new Map<string, CustomerRecord>()
+  for (const c of [...customers].sort(compareVisits)) {
+    if (c.storeId && !firstVisits.has(c.storeId)) firstVisits.set(c.storeId, c)
+  }
+
+  const byName = new Map<string, CustomerRecord[]>()
+  for (const c of firstVisits.values()) {
+    const key = normalizeStoreName(c.name)
+    const list = byName.get(key)
+    if (list) list.push(c)
+    else byName.set(key, [c])
+  }
+
+  const issues: QualityIssue[] = []
+  for (const stores of byName.values()) {
+    for (let i = 1; i < stores.length; i++) {
+      const match = stores
+        .slice(0, i)
+        .map((other) => ({ other, distance: distanceMeters(other.coordinates, stores[i].coordinates) }))
+        .find(({ distance }) => distance <= DUPLICATE_STORE_RADIUS_M)
+      if (match) {
+        issues.push(
+          issueOf(source, stores[i], "duplicate_store", `可能与记录 ${match.other.id} 是同一门店（同名，相距 ${Math.round(match.distance)} 米），请核对坐标`)
+        )
+      }
+    }
+  }
+  return issues
+}
+
+/**
+ * 检查单个数据源
+ */
+function checkSource({ source, customers, failed, warnings }: SourceDataset): { rejected: QualityIssue[]; suspicious: QualityIssue[] } {
+  const specs = source.mapping.fields
+
+  const rejected: QualityIssue[] = failed.map((f) => {
+    const fields = f.raw?.fields || {}
+    const nameColumn = specs.name && resolveColumn(fields, specs.name)
+    return {
+      recordId: f.id || "",
+      source: source.id,
+      kind: "rejected",
+      name: nameColumn ? readAsText(fields[nameColumn]) : "",
+      message: f.reason,
+      record_date: null,
+      coordinates: null,
+      feishuUrl: f.id ? feishuRecordUrl(source, f.id) : null,
+    }
+  })
+
+  const suspicious: QualityIssue[] = []
+  for (const c of customers) {
+    const warning = warnings.get(c.id)
+    if (!isInChina(c.coordinates)) {
+      suspicious.push(issueOf(source, c, "outside_china", `坐标 ${c.coordinates.join(", ")} 不在中国范围内`))
+    }
+    if (warning?.swapped) {
+      suspicious.push(issueOf(source, c, "swapped", "经纬度填反，地图上已按对调后的坐标显示"))
+    }
+    if (!c.brand) {
+      suspicious.push(issueOf(source, c, "missing_brand", `缺少${specs.brand?.label || "竞品品牌"}`))
+    }
+    if (warning?.invalidDate) {
+      suspicious.push(issueOf(source, c, "invalid_date", `${specs.record_date?.label || "记录日期"}无法解析: ${warning.invalidDate}`))
+    }
+  }
+  suspicious.push(...findDuplicateStores(source, customers), ...findDuplicateRecords(source, customers))
+
+  return { rejected, suspicious }
+}
+
+/**
+ * 生成数据质量报告
+ */
+export async function getQualityReport(): Promise<QualityReport> {
+  const dataset = await getCustomerDataset()
+  const checked = dataset.sources.map(checkSource)
+  const rejected = checked.flatMap((c) => c.rejected)
+  const suspicious = checked.flatMap((c) => c.suspicious)
+
+  // 按问题类型、再按日期（新的在前）排列
+  suspicious.sort(
+    (a, b) =>
+      KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || (b.record_date || "").localeCompare(a.record_date || "")
+  )
+
+  const counts = Object.fromEntries(KIND_ORDER.map((kind) => [kind, 0])) as Record<QualityIssueKind, number>
+  for (const issue of [...rejected, ...suspicious]) counts[issue.kind]++
+
+  return {
+    generatedAt: new Date(dataset.fetchedAt).toISOString(),
+    total: dataset.total,
+    sources: dataset.sources.map((part) => toSourceInfo(part.source)),
+    rejected,
+    suspicious,
+    counts,
+  }
+}
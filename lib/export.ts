@@ -0,0 +1,193 @@
+/**
+ * =====================================================
+ * 记录导出 (lib/export.ts)
+ * =====================================================
+ *
+ * 把筛选后的巡店记录导出为文件:
+ * - xlsx / csv: 中文表头，包含全部映射字段、经纬度和解析后的价格，坐标与地图一致（GCJ-02）
+ * - geojson / kml: 点要素，供 GIS 工具使用，属性与表格列相同；
+ *   两种格式规定使用 WGS-84，坐标（包括属性中的经纬度）转换为 WGS-84（见 lib/coords.ts）
+ *
+ * 表头优先使用第一个数据源字段映射中的 label；有多个数据源时增加"数据源"列
+ * =====================================================
+ */
+
+import ExcelJS from "exceljs"
+import { fromGcj02 } from "@/lib/coords"
+import type { MappedFieldKey } from "@/lib/feishu/field-mapping"
+import { getDataSources, getPrimarySource } from "@/lib/feishu/sources"
+import type { CustomerRecord } from "@/lib/feishu/transform"
+
+export const EXPORT_FORMATS = ["xlsx", "csv", "geojson", "kml"] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+export interface ExportFile {
+  body: string | Uint8Array
+  contentType: string
+  extension: string
+}
+
+interface ExportColumn {
+  header: string
+  width: number // xlsx 列宽（字符数）
+  value: (c: CustomerRecord) => string | number | null
+}
+
+/**
+ * 导出的列（顺序即文件中的列顺序）
+ */
+function exportColumns(): ExportColumn[] {
+  const mapping = getPrimarySource().mapping
+  const label = (key: MappedFieldKey, fallback: string) => mapping.fields[key]?.label || fallback
+  const sources = getDataSources()
+  const sourceNames = new Map(sources.map((s) => [s.id, s.displayName]))
+
+  return [
+    { header: "记录ID", width: 20, value: (c) => c.id },
+    { header: label("name", "门店名称"), width: 24, value: (c) => c.name },
+    { header: label("longitude", "经度"), width: 12, value: (c) => c.coordinates[0] },
+    { header: label("latitude", "纬度"), width: 12, value: (c) => c.coordinates[1] },
+    { header: label("address", "地址"), width: 36, value: (c) => c.address },
+    { header: label("productName", "竞品产品"), width: 20, value: (c) => c.productName },
+    { header: label("brand", "竞品品牌"), width: 12, value: (c) => c.brand },
+    { header: label("discountprice", "折扣/价格"), width: 20, value: (c) => c.discountprice },
+    { header: label("distributor", "经销商"), width: 16, value: (c) => c.distributor },
+    { header: label("region", "省区"), width: 12, value: (c) => c.region },
+    { header: label("district", "片区"), width: 12, value: (c) => c.district },
+    { header: label("record_date", "记录日期"), width: 12, value: (c) => c.record_date },
+    { header: "原价", width: 8, value: (c) => c.price.listPrice },
+    { header: "促销价", width: 8, value: (c) => c.price.promoPrice },
+    { header: "折扣率", width: 8, value: (c) => c.price.discountRate },
+    { header: "规格", width: 12, value: (c) => c.price.unit },
+    { header: "促销方式", width: 12, value: (c) => c.price.promoType },
+    { header: "门店ID", width: 18, value: (c) => c.storeId || "" },
+    ...(sources.length > 1 ? [{ header: "数据源", width: 16, value: (c: CustomerRecord) => sourceNames.get(c.source) || c.source }] : []),
+  ]
+}
+
+/**
+ * 导出文件的默认名称（不含扩展名），如 "竞品巡店记录-20250101"
+ */
+export function exportFileName(now = new Date()): string {
+  const title = getPrimarySource().displayName || "巡店记录"
+  return `${title}-${now.toISOString().slice(0, 10).replace(/-/g, "")}`
+}
+
+/**
+ * 以 = + - @（或制表符、回车）开头的文本在 Excel 中会被当作公式，前面加 ' 作为普通文本
+ * 只处理文本，数字（如经纬度、折扣率）原样写入
+ */
+function spreadsheetValue(value: string | number | null): string | number | null {
+  return typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+}
+
+function csvCell(value: string | number | null): string {
+  if (value === null || value === undefined) return ""
+  const text = String(spreadsheetValue(value))
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * CSV（带 BOM，Excel 直接打开中文不乱码）
+ */
+function toCsv(customers: CustomerRecord[], columns: ExportColumn[]): string {
+  const lines = [columns.map((col) => csvCell(col.header)).join(",")]
+  for (const c of customers) {
+    lines.push(columns.map((col) => csvCell(col.value(c))).join(","))
+  }
+  return "\uFEFF" + lines.join("\r\n") + "\r\n"
+}
+
+async function toXlsx(customers: CustomerRecord[], columns: ExportColumn[]): Promise<Uint8Array> {
+  const workbook = new ExcelJS.Workbook()
+  const sheet = workbook.addWorksheet("巡店记录", { views: [{ state: "frozen", ySplit: 1 }] })
+  sheet.columns = columns.map((col) => ({ header: String(spreadsheetValue(col.header)), width: col.width }))
+  sheet.getRow(1).font = { bold: true }
+  for (const c of customers) {
+    sheet.addRow(columns.map((col) => spreadsheetValue(col.value(c))))
+  }
+  const buffer = await workbook.xlsx.writeBuffer()
+  return new Uint8Array(buffer as ArrayBuffer)
+}
+
+function properties(c: CustomerRecord, columns: ExportColumn[]): Record<string, string | number | null> {
+  const props: Record<string, string | number | null> = {}
+  for (const col of columns) props[col.header] = col.value(c)
+  return props
+}
+
+function toGeoJson(customers: CustomerRecord[], columns: ExportColumn[]): string {
+  return JSON.stringify({
+    type: "FeatureCollection",
+    features: customers.map((c) => ({
+      type: "Feature",
+      id: c.id,
+      geometry: { type: "Point", coordinates: c.coordinates },
+      properties: properties(c, columns),
+    })),
+  })
+}
+
+function xmlEscape(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+function toKml(customers: CustomerRecord[], columns: ExportColumn[], title: string): string {
+  const placemarks = customers.map((c) => {
+    const data = Object.entries(properties(c, columns))
+      .filter(([, value]) => value !== null && value !== "")
+      .map(([name, value]) => `<Data name="${xmlEscape(name)}"><value>${xmlEscape(String(value))}</value></Data>`)
+      .join("")
+    return [
+      "<Placemark>",
+      `<name>${xmlEscape(c.name)}</name>`,
+      `<description>${xmlEscape([c.brand, c.productName, c.discountprice, c.record_date].filter(Boolean).join(" · "))}</description>`,
+      `<ExtendedData>${data}</ExtendedData>`,
+      `<Point><coordinates>${c.coordinates[0]},${c.coordinates[1]},0</coordinates></Point>`,
+      "</Placemark>",
+    ].join("")
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    `<Document><name>${xmlEscape(title)}</name>`,
+    ...placemarks,
+    "</Document>",
+    "</kml>",
+  ].join("\n")
+}
+
+function toWgs84(customers: CustomerRecord[]): CustomerRecord[] {
+  return customers.map((c) => ({ ...c, coordinates: fromGcj02(c.coordinates, "wgs84") }))
+}
+
+/**
+ * 把记录导出为指定格式
+ *
+ * @param customers - 要导出的记录（已按筛选条件过滤）
+ * @param format - 导出格式
+ */
+export async function exportCustomers(customers: CustomerRecord[], format: ExportFormat): Promise<ExportFile> {
+  const columns = exportColumns()
+
+  switch (format) {
+    case "xlsx":
+      return {
+        body: await toXlsx(customers, columns),
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        extension: "xlsx",
+      }
+    case "csv":
+      return { body: toCsv(customers, columns), contentType: "text/csv; charset=utf-8", extension: "csv" }
+    case "geojson":
+      return { body: toGeoJson(toWgs84(customers), columns), contentType: "application/geo+json; charset=utf-8", extension: "geojson" }
+    case "kml":
+      return {
+        body: toKml(toWgs84(customers), columns, exportFileName()),
+        contentType: "application/vnd.google-earth.kml+xml; charset=utf-8",
+        extension: "kml",
+      }
+  }
+}
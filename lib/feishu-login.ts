@@ -0,0 +1,80 @@
+/**
+ * =====================================================
+ * 页面端飞书登录 (lib/feishu-login.ts)
+ * =====================================================
+ *
+ * 在飞书客户端中打开地图时，用飞书网页应用 JSSDK 免登:
+ * 已登录（Cookie 有效）时直接返回用户；否则加载 JSSDK，调用 requestAuthCode 拿到授权码，
+ * 交给 POST /api/auth/feishu 换取用户身份（见 lib/feishu/user-auth.ts）
+ *
+ * 不在飞书中打开（普通浏览器）或免登失败时返回 null，常用视图等功能不可用
+ * 只在浏览器中使用
+ * =====================================================
+ */
+
+import type { FeishuUser } from "@/lib/feishu/user-auth"
+
+const H5_SDK_URL = "https://lf1-cdn-tos.bytegoofy.com/goofy/lark/op/h5-js-sdk-1.5.26.js"
+
+// JSSDK 加载和授权的等待时间（毫秒）
+const SDK_TIMEOUT_MS = 10000
+
+function isInFeishu(): boolean {
+  return /Lark|Feishu/i.test(navigator.userAgent)
+}
+
+function loadSdk(): Promise<void> {
+  if ((window as any).h5sdk) return Promise.resolve()
+  return new Promise((resolve, reject) => {
+    const script = document.createElement("script")
+    script.src = H5_SDK_URL
+    script.onload = () => resolve()
+    script.onerror = () => reject(new Error("飞书 JSSDK 加载失败"))
+    document.head.appendChild(script)
+  })
+}
+
+function requestAuthCode(appId: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const { h5sdk, tt } = window as any
+    const timer = setTimeout(() => reject(new Error("飞书免登超时")), SDK_TIMEOUT_MS)
+    h5sdk.error((err: any) => {
+      clearTimeout(timer)
+      reject(new Error(`飞书 JSSDK 出错: ${JSON.stringify(err)}`))
+    })
+    h5sdk.ready(() => {
+      tt.requestAuthCode({
+        appId,
+        success: (res: { code: string }) => {
+          clearTimeout(timer)
+          resolve(res.code)
+        },
+        fail: (err: any) => {
+          clearTimeout(timer)
+          reject(new Error(`获取飞书授权码失败: ${JSON.stringify(err)}`))
+        },
+      })
+    })
+  })
+}
+
+/**
+ * 获取当前飞书用户，必要时免登
+ */
+export async function loginWithFeishu(): Promise<FeishuUser | null> {
+  const res = await fetch("/api/auth/feishu")
+  const { user, appId } = await res.json().catch(() => ({}))
+  if (user) return user
+  if (!appId || !isInFeishu()) return null
+
+  await loadSdk()
+  const code = await requestAuthCode(appId)
+  const login = await fetch("/api/auth/feishu", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ code }),
+  })
+  const data = await login.json().catch(() => ({}))
+  if (!login.ok || !data?.user) throw new Error(data?.error || "飞书登录失败")
+  return data.user
+}
@@ -0,0 +1,60 @@
+/**
+ * =====================================================
+ * 飞书群自定义机器人 (lib/feishu/bot.ts)
+ * =====================================================
+ *
+ * 通过群机器人的 Webhook 地址向飞书群发送消息
+ * 机器人开启"签名校验"时需配置 FEISHU_BOT_SECRET
+ *
+ * 签名: base64(HmacSHA256(key = timestamp + "\n" + secret, 消息为空))
+ * =====================================================
+ */
+
+import { createHmac } from "crypto"
+
+export interface BotMessage {
+  msg_type: "text" | "post" | "interactive"
+  content?: Record<string, any>
+  card?: Record<string, any>
+}
+
+/**
+ * 是否配置了群机器人
+ */
+export function isBotConfigured(): boolean {
+  return !!process.env.FEISHU_BOT_WEBHOOK
+}
+
+export function signBotRequest(timestamp: number, secret: string): string {
+  return createHmac("sha256", `${timestamp}\n${secret}`).update("").digest("base64")
+}
+
+/**
+ * 发送群消息
+ *
+ * @throws 未配置 Webhook 或飞书返回错误时抛出
+ */
+export async function sendBotMessage(message: BotMessage): Promise<void> {
+  const webhook = process.env.FEISHU_BOT_WEBHOOK
+  if (!webhook) throw new Error("缺少环境变量: FEISHU_BOT_WEBHOOK")
+
+  const body: Record<string, any> = { ...message }
+  const secret = process.env.FEISHU_BOT_SECRET
+  if (secret) {
+    const timestamp = Math.floor(Date.now() / 1000)
+    body.timestamp = String(timestamp)
+    body.sign = signBotRequest(timestamp, secret)
+  }
+
+  const res = await fetch(webhook, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  })
+  const data = await res.json().catch(() => ({}))
+  // 飞书成功时返回 { code: 0 }，旧版接口返回 { StatusCode: 0 }
+  const code = data?.code ?? data?.StatusCode
+  if (!res.ok || (code !== undefined && code !== 0)) {
+    throw new Error(`飞书群机器人发送失败: ${data?.msg || data?.StatusMessage || res.status}`)
+  }
+}
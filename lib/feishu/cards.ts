@@ -0,0 +1,88 @@
+/**
+ * =====================================================
+ * 飞书消息卡片 (lib/feishu/cards.ts)
+ * =====================================================
+ *
+ * 推送到飞书群的交互式卡片
+ * =====================================================
+ */
+
+import type { BotMessage } from "./bot"
+
+export interface FilteredResultCardInput {
+  regions: string[]
+  brands: string[]
+  sourceNames?: string[] // 只显示部分数据源时的数据源名称
+  q: string
+  from: string
+  to: string
+  shape?: string // 地图上画出的范围的文字说明
+  total: number // 符合条件的记录总数
+  analyzed: number // AI 分析的记录数（地图视野内）
+  topProducts: Array<{ name: string; count: number }>
+  summary: string // AI 分析结果（服务端生成）
+  sender?: string // 发送人（飞书用户姓名）
+  link: string // 打开地图并应用相同筛选条件的链接
+}
+
+/**
+ * 筛选条件等来自页面输入的文字不应在卡片中变成链接、@ 或格式，把 lark_md 的特殊符号换成全角
+ */
+function plainMd(value: string): string {
+  return value.replace(/[[\]()<>*_~`]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) + 0xfee0))
+}
+
+function shortField(label: string, value: string) {
+  return { is_short: true, text: { tag: "lark_md", content: `**${label}**\n${plainMd(value)}` } }
+}
+
+/**
+ * 筛选结果 + AI 分析卡片
+ */
+export function buildFilteredResultCard(input: FilteredResultCardInput): BotMessage {
+  const dateRange = input.from || input.to ? `${input.from || "不限"} 至 ${input.to || "不限"}` : "不限"
+  const products = input.topProducts.length
+    ? input.topProducts.map((p, i) => `${i + 1}. ${p.name}（${p.count}）`).join("\n")
+    : "暂无数据"
+
+  return {
+    msg_type: "interactive",
+    card: {
+      config: { wide_screen_mode: true },
+      header: {
+        template: "blue",
+        title: { tag: "plain_text", content: `竞品巡店筛选结果（${input.total} 条）` },
+      },
+      elements: [
+        {
+          tag: "div",
+          fields: [
+            shortField("省区", input.regions.join("、") || "全部"),
+            shortField("品牌", input.brands.join("、") || "全部"),
+            ...(input.sourceNames?.length ? [shortField("数据源", input.sourceNames.join("、"))] : []),
+            shortField("关键词", input.q || "无"),
+            shortField("记录日期", dateRange),
+            ...(input.shape ? [shortField("范围", input.shape)] : []),
+            shortField("记录总数", String(input.total)),
+            shortField("分析范围", `地图视野内 ${input.analyzed} 条`),
+            ...(input.sender ? [shortField("发送人", input.sender)] : []),
+          ],
+        },
+        { tag: "div", text: { tag: "lark_md", content: `**主要竞品产品**\n${products}` } },
+        { tag: "hr" },
+        { tag: "div", text: { tag: "lark_md", content: `**AI 分析**\n${input.summary}` } },
+        {
+          tag: "action",
+          actions: [
+            {
+              tag: "button",
+              type: "primary",
+              text: { tag: "plain_text", content: "在地图中查看" },
+              url: input.link,
+            },
+          ],
+        },
+      ],
+    },
+  }
+}
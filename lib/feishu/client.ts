@@ -0,0 +1,253 @@
+/**
+ * =====================================================
+ * 飞书开放平台 API 调用 (lib/feishu/client.ts)
+ * =====================================================
+ *
+ * 封装多维表格相关的接口，供各个 API 路由共用
+ * 多维表格接口的第一个参数是要访问的数据表（见 lib/feishu/sources.ts）
+ *
+ * 飞书API调用流程:
+ * 1. 获取 tenant_access_token（见 token.ts，带缓存）
+ * 2. 用 token 调用多维表格API
+ *
+ * 每一页请求都通过 feishuRequest 发出：如果中途 token 失效，
+ * 会刷新 token 后重试这一页一次，长表格翻页不会半途失败
+ * =====================================================
+ */
+
+import { FEISHU_API_BASE, type TableRef } from "./config"
+import { TOKEN_INVALID_CODES, getAccessToken, invalidateAccessToken } from "./token"
+
+export { FEISHU_API_BASE, type TableRef, getMissingEnvVars } from "./config"
+
+/**
+ * 调用飞书开放平台接口，返回解析后的 JSON
+ *
+ * @param url - 完整请求地址
+ * @param init - fetch 参数（Authorization 头会自动添加）
+ */
+export async function feishuRequest(url: string, init: RequestInit = {}): Promise<any> {
+  const send = async (token: string) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        "Authorization": `Bearer ${token}`,
+        "Content-Type": "application/json",
+        ...init.headers,
+      },
+    })
+    return response.json()
+  }
+
+  const token = await getAccessToken()
+  let data = await send(token)
+
+  // token 失效：刷新后重试一次
+  if (TOKEN_INVALID_CODES.has(data?.code)) {
+    console.warn(`飞书token失效 (code ${data.code})，刷新后重试`)
+    invalidateAccessToken(token)
+    data = await send(await getAccessToken())
+  }
+
+  return data
+}
+
+function tableUrl(table: TableRef, path = ""): string {
+  return `${FEISHU_API_BASE}/bitable/v1/apps/${table.appToken}/tables/${table.tableId}${path}`
+}
+
+/**
+ * 从飞书多维表格获取所有记录
+ *
+ * automatic_fields=true 会额外返回 created_time / last_modified_time，
+ * 记录缓存靠它判断增量刷新的起点
+ */
+export async function getTableRecords(table: TableRef): Promise<any[]> {
+  const allRecords: any[] = []
+  let pageToken = ""
+
+  do {
+    const url = tableUrl(table, `/records?page_size=500&automatic_fields=true${pageToken ? `&page_token=${pageToken}` : ""}`)
+
+    const data = await feishuRequest(url, { method: "GET" })
+
+    if (data.code !== 0) {
+      throw new Error(`获取飞书数据失败: ${data.msg}`)
+    }
+
+    if (data.data?.items) {
+      allRecords.push(...data.data.items)
+    }
+
+    pageToken = data.data?.page_token || ""
+
+  } while (pageToken)
+
+  return allRecords
+}
+
+/**
+ * 获取某个时间之后修改过的记录（增量刷新用）
+ *
+ * 依赖表格中的"最后更新时间"类字段，列名由 FEISHU_MODIFIED_TIME_FIELD 指定
+ * 飞书的日期筛选按天比较，所以返回结果可能包含少量未变化的记录，按 record_id 合并即可
+ *
+ * @param since - 毫秒时间戳
+ */
+export async function getRecordsModifiedSince(table: TableRef, since: number): Promise<any[]> {
+  const fieldName = process.env.FEISHU_MODIFIED_TIME_FIELD || "最后更新时间"
+  const allRecords: any[] = []
+  let pageToken = ""
+
+  do {
+    const url = tableUrl(table, `/records/search?page_size=500${pageToken ? `&page_token=${pageToken}` : ""}`)
+
+    const data = await feishuRequest(url, {
+      method: "POST",
+      body: JSON.stringify({
+        automatic_fields: true,
+        filter: {
+          conjunction: "and",
+          conditions: [
+            // 往前多取一天，避免按天比较时漏掉当天的修改
+            { field_name: fieldName, operator: "isGreater", value: ["ExactDate", String(since - 24 * 60 * 60 * 1000)] },
+          ],
+        },
+      }),
+    })
+
+    if (data.code !== 0) {
+      throw new Error(`增量获取飞书数据失败: ${data.msg}`)
+    }
+
+    if (data.data?.items) {
+      allRecords.push(...data.data.items)
+    }
+
+    pageToken = data.data?.has_more ? data.data?.page_token || "" : ""
+
+  } while (pageToken)
+
+  return allRecords
+}
+
+/**
+ * 按 record_id 批量获取记录（每次最多 100 条）
+ *
+ * @returns 找到的记录；已被删除的记录不会出现在结果中
+ */
+export async function getRecordsByIds(table: TableRef, recordIds: string[]): Promise<any[]> {
+  const allRecords: any[] = []
+
+  for (let i = 0; i < recordIds.length; i += 100) {
+    const data = await feishuRequest(tableUrl(table, "/records/batch_get"), {
+      method: "POST",
+      body: JSON.stringify({
+        record_ids: recordIds.slice(i, i + 100),
+        automatic_fields: true,
+      }),
+    })
+
+    if (data.code !== 0) {
+      throw new Error(`获取飞书记录失败: ${data.msg}`)
+    }
+
+    if (data.data?.records) {
+      allRecords.push(...data.data.records)
+    }
+  }
+
+  return allRecords
+}
+
+/**
+ * 获取数据表的字段（列）列表
+ *
+ * @returns [{ field_name, type, ... }]
+ */
+export async function getTableFields(table: TableRef): Promise<any[]> {
+  const allFields: any[] = []
+  let pageToken = ""
+
+  do {
+    const data = await feishuRequest(tableUrl(table, `/fields?page_size=100${pageToken ? `&page_token=${pageToken}` : ""}`), { method: "GET" })
+
+    if (data.code !== 0) {
+      throw new Error(`获取飞书字段列表失败: ${data.msg}`)
+    }
+
+    if (data.data?.items) {
+      allFields.push(...data.data.items)
+    }
+
+    pageToken = data.data?.has_more ? data.data?.page_token || "" : ""
+
+  } while (pageToken)
+
+  return allFields
+}
+
+/**
+ * 新增一条记录
+ *
+ * @param fields - 以列名为键的字段值
+ * @returns 新记录的 record_id
+ */
+export async function createRecord(table: TableRef, fields: Record<string, any>): Promise<string> {
+  const data = await feishuRequest(tableUrl(table, "/records"), {
+    method: "POST",
+    body: JSON.stringify({ fields }),
+  })
+
+  if (data.code !== 0) {
+    throw new Error(`新增飞书记录失败: ${data.msg}`)
+  }
+
+  return data.data?.record?.record_id
+}
+
+/**
+ * 批量新增记录（每次最多 500 条）
+ *
+ * @param fieldsList - 每条记录以列名为键的字段值
+ * @param onBatch - 每一批写入成功后调用（start 为这一批第一条在 fieldsList 中的下标），后面的批次失败时前面的已经写入
+ * @returns 新记录的 record_id，顺序与传入的一致
+ */
+export async function batchCreateRecords(
+  table: TableRef,
+  fieldsList: Array<Record<string, any>>,
+  onBatch?: (recordIds: string[], start: number) => Promise<void>
+): Promise<string[]> {
+  const recordIds: string[] = []
+
+  for (let i = 0; i < fieldsList.length; i += 500) {
+    const data = await feishuRequest(tableUrl(table, "/records/batch_create"), {
+      method: "POST",
+      body: JSON.stringify({ records: fieldsList.slice(i, i + 500).map((fields) => ({ fields })) }),
+    })
+
+    if (data.code !== 0) {
+      throw new Error(`批量新增飞书记录失败（第 ${i + 1} 条起）: ${data.msg}`)
+    }
+
+    const created: string[] = (data.data?.records || []).map((r: any) => r.record_id)
+    recordIds.push(...created)
+    await onBatch?.(created, i)
+  }
+
+  return recordIds
+}
+
+/**
+ * 更新一条记录（只更新传入的字段）
+ */
+export async function updateRecord(table: TableRef, recordId: string, fields: Record<string, any>): Promise<void> {
+  const data = await feishuRequest(tableUrl(table, `/records/${encodeURIComponent(recordId)}`), {
+    method: "PUT",
+    body: JSON.stringify({ fields }),
+  })
+
+  if (data.code !== 0) {
+    throw new Error(`更新飞书记录失败: ${data.msg}`)
+  }
+}
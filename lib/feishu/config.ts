@@ -0,0 +1,39 @@
+/**
+ * =====================================================
+ * 飞书相关配置 (lib/feishu/config.ts)
+ * =====================================================
+ */
+
+import { getDataSources, hasSourceRegistry } from "./sources"
+
+// 飞书API基础URL（可通过 FEISHU_API_BASE 指向本地替身服务，便于联调和回放事件）
+export const FEISHU_API_BASE = process.env.FEISHU_API_BASE || "https://open.feishu.cn/open-apis"
+
+/**
+ * 一张多维表格数据表
+ */
+export interface TableRef {
+  appToken: string
+  tableId: string
+}
+
+// 检查必需的环境变量
+// 登记了数据源（config/data-sources.json）时，只有未单独配置 appToken 的数据源才需要 FEISHU_APP_TOKEN
+export function getMissingEnvVars(): string[] {
+  const required = ["FEISHU_APP_ID", "FEISHU_APP_SECRET"]
+  if (!hasSourceRegistry()) required.push("FEISHU_APP_TOKEN", "FEISHU_TABLE_ID")
+  else if (getDataSources().some((source) => !source.appToken)) required.push("FEISHU_APP_TOKEN")
+
+  return required.filter((k) => !process.env[k])
+}
+
+// 飞书网页端地址（企业自己的域名，如 https://your-company.feishu.cn），用于生成记录链接
+export const FEISHU_WEB_BASE = (process.env.FEISHU_WEB_BASE || "https://feishu.cn").replace(/\/+$/, "")
+
+/**
+ * 多维表格中某条记录的网页链接（打开表格并展开该记录）
+ */
+export function feishuRecordUrl(table: TableRef, recordId: string): string {
+  const params = new URLSearchParams({ table: table.tableId, record: recordId })
+  return `${FEISHU_WEB_BASE}/base/${table.appToken}?${params}`
+}
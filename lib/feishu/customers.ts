@@ -0,0 +1,228 @@
+/**
+ * =====================================================
+ * 转换后的客户数据 (lib/feishu/customers.ts)
+ * =====================================================
+ *
+ * 在记录缓存之上，按字段映射转换出地图使用的客户数据
+ * 每个数据源（见 lib/feishu/sources.ts）单独转换，结果按缓存版本记忆，缓存内容不变时不重复转换，
+ * 再把各数据源的结果合并在一起
+ * 同一门店的多次巡店记录会打上相同的 storeId（只在同一数据源内归并）
+ *
+ * 没有坐标但有地址的记录: 地址已解析过的直接补全坐标并标注可信度，
+ * 未解析过的在后台解析，完成后通过记录推送通知打开着的地图
+ *
+ * 记录变化（事件推送、地图上新增/编辑）也经过同样的处理后再广播，见 applyAndPublishRecordChanges
+ * =====================================================
+ */
+
+import { createHash } from "crypto"
+import { type GeocodeResult, geocodeInBackground, getCachedGeocode, getGeocodeVersion } from "@/lib/geocode"
+import { assignStoreIds } from "@/lib/stores"
+import { type FieldSpec, findUnmatchedRequiredFields } from "./field-mapping"
+import { type RecordSnapshot, applyRecordChanges, getCachedRecords } from "./record-cache"
+import { type RecordChange, publishRecordChange } from "./record-stream"
+import { type DataSource, getDataSources } from "./sources"
+import { type CustomerRecord, type TransformResult, type TransformWarnings, transformRecord } from "./transform"
+
+/**
+ * 转换失败的记录
+ */
+export interface FailedRecord {
+  index: number
+  id?: string
+  source: string // 数据源 id
+  reason: string
+  raw?: any
+}
+
+/**
+ * 单个数据源的转换结果
+ */
+export interface SourceDataset {
+  source: DataSource
+  snapshot: RecordSnapshot
+  customers: CustomerRecord[]
+  failed: FailedRecord[]
+  warnings: Map<string, TransformWarnings> // record_id -> 转换成功但值得检查的情况
+  unmatched: FieldSpec[] // 在所有记录中都找不到对应列的必需字段
+}
+
+/**
+ * 全部数据源合并后的结果
+ */
+export interface CustomerDataset {
+  sources: SourceDataset[]
+  customers: CustomerRecord[]
+  failed: FailedRecord[]
+  warnings: Map<string, TransformWarnings>
+  unmatched: FieldSpec[]
+  version: string // 各数据源缓存版本和地址解析版本的组合，用作 ETag（后台解析出新坐标后也会变化）
+  lastModified: number // 各数据源中最大的记录修改时间
+  fetchedAt: number // 各数据源中最早的刷新时间
+  total: number // 原始记录总数
+}
+
+// 各数据源的转换结果，连同转换时的地址解析版本
+const memos = new Map<string, { part: SourceDataset; geocodeVersion: number }>()
+let merged: CustomerDataset | null = null
+
+/**
+ * 用解析出的坐标补全定位字段后重新转换，并标注可信度
+ */
+function transformWithGeocode(record: any, index: number, source: DataSource, address: string, geo: GeocodeResult): TransformResult | null {
+  const locationField = source.mapping.fields.location?.field
+  if (!locationField) return null
+  const fields = { ...record.fields, [locationField]: { location: geo.coordinates.join(","), address } }
+  const out = transformRecord({ ...record, fields }, index, source.mapping, source.id)
+  if (!out.result) return null
+  // 解析结果已是 GCJ-02，不按定位字段声明的坐标系转换
+  const result = { ...out.result, coordinates: geo.coordinates, geocode: { confidence: geo.confidence, level: geo.level } }
+  return { ...out, result }
+}
+
+/**
+ * 后台解析地址，解析成功后把补全了坐标的记录推送给打开着的地图
+ */
+function resolveAddressesInBackground(addresses: string[]) {
+  geocodeInBackground(addresses)
+    .then(async (resolved) => {
+      if (!resolved.length) return
+      const done = new Set(resolved)
+      const { customers } = await getCustomerDataset()
+      const upserted = customers.filter((c) => c.geocode && done.has(c.address))
+      if (upserted.length) publishRecordChange({ upserted, deleted: [] })
+    })
+    .catch((error) => console.error("后台地址解析失败:", error))
+}
+
+/**
+ * 转换单个数据源的记录
+ */
+function transformSource(source: DataSource, snapshot: RecordSnapshot): SourceDataset {
+  const records = [...snapshot.records.values()]
+  const mapping = source.mapping
+
+  // 列名被改动时给出明确提示，而不是只看到大量"缺少门店名称"
+  const unmatched = findUnmatchedRequiredFields(mapping, records)
+  if (unmatched.length) {
+    console.warn(
+      `[${source.id}] 字段映射未命中任何列:`,
+      unmatched.map((spec) => `${spec.label || spec.field} (${[spec.field, ...spec.aliases].join(" / ")})`).join("; ")
+    )
+  }
+
+  const customers: CustomerRecord[] = []
+  const failed: FailedRecord[] = []
+  const warnings = new Map<string, TransformWarnings>()
+  const unresolved = new Set<string>() // 还没解析过的地址
+
+  const accept = (out: TransformResult) => {
+    customers.push(out.result!)
+    if (out.warnings) warnings.set(out.result!.id, out.warnings)
+  }
+
+  for (let i = 0; i < records.length; i++) {
+    const out = transformRecord(records[i], i, mapping, source.id)
+    if (out.result) {
+      accept(out)
+      continue
+    }
+
+    let reason = out.reason || "unknown"
+    if (out.address) {
+      const geo = getCachedGeocode(out.address)
+      const resolved = geo ? transformWithGeocode(records[i], i, source, out.address, geo) : null
+      if (resolved) {
+        accept(resolved)
+        continue
+      }
+      if (geo === undefined) unresolved.add(out.address)
+      else reason = `地址无法解析为坐标: ${out.address}`
+    }
+    failed.push({ index: i, id: records[i]?.record_id, source: source.id, reason, raw: records[i] })
+  }
+
+  assignStoreIds(customers)
+  if (unresolved.size) resolveAddressesInBackground([...unresolved])
+
+  console.log(`[${source.id}] 成功转换 ${customers.length} 条客户数据, 失败 ${failed.length} 条`)
+  return { source, snapshot, customers, failed, warnings, unmatched }
+}
+
+/**
+ * 获取某个数据源转换后的数据
+ */
+async function getSourceDataset(source: DataSource): Promise<SourceDataset> {
+  const snapshot = await getCachedRecords(source)
+  const geocodeVersion = getGeocodeVersion()
+  const memo = memos.get(source.id)
+  if (memo && memo.part.snapshot.version === snapshot.version && memo.geocodeVersion === geocodeVersion) return memo.part
+
+  const part = transformSource(source, snapshot)
+  memos.set(source.id, { part, geocodeVersion })
+  return part
+}
+
+/**
+ * 获取全部数据源合并后的客户数据
+ */
+export async function getCustomerDataset(): Promise<CustomerDataset> {
+  const parts = await Promise.all(getDataSources().map(getSourceDataset))
+  if (merged && merged.sources.length === parts.length && merged.sources.every((part, i) => part === parts[i])) return merged
+
+  // 各数据源转换时使用的地址解析版本（见 getSourceDataset）
+  const versionOf = (p: SourceDataset) => `${p.snapshot.version}:${memos.get(p.source.id)?.geocodeVersion ?? 0}`
+  const version =
+    parts.length === 1
+      ? versionOf(parts[0])
+      : createHash("sha1")
+          .update(parts.map((p) => `${p.source.id}:${versionOf(p)}`).join(";"))
+          .digest("hex")
+          .slice(0, 16)
+
+  merged = {
+    sources: parts,
+    customers: parts.flatMap((p) => p.customers),
+    failed: parts.flatMap((p) => p.failed),
+    warnings: new Map(parts.flatMap((p) => [...p.warnings])),
+    unmatched: parts.flatMap((p) => p.unmatched),
+    version,
+    lastModified: Math.max(0, ...parts.map((p) => p.snapshot.lastModified)),
+    fetchedAt: Math.min(...parts.map((p) => p.snapshot.fetchedAt)),
+    total: parts.reduce((sum, p) => sum + p.snapshot.records.size, 0),
+  }
+  return merged
+}
+
+/**
+ * 把记录变化合并进缓存，按完整的处理流程（门店归并、地址坐标补全）重新转换后广播
+ * 修改后无法在地图上展示的记录（如定位被清空、地址还在解析）作为删除广播
+ *
+ * @param records - 新增或修改后的原始记录
+ * @returns 广播的变化，以及无法展示的记录（附原因）
+ */
+export async function applyAndPublishRecordChanges(
+  source: DataSource,
+  records: any[],
+  deletedIds: string[]
+): Promise<RecordChange & { failed: FailedRecord[] }> {
+  applyRecordChanges(source, records, deletedIds)
+
+  const part = (await getCustomerDataset()).sources.find((p) => p.source.id === source.id)
+  const ids = new Set(records.map((record) => record?.record_id).filter(Boolean))
+  const upserted = (part?.customers || []).filter((c) => ids.has(c.id))
+  const failed = (part?.failed || []).filter((f) => f.id && ids.has(f.id))
+
+  const shown = new Set(upserted.map((c) => c.id))
+  const change = { upserted, deleted: [...deletedIds, ...[...ids].filter((id) => !shown.has(id))] }
+  publishRecordChange(change)
+  return { ...change, failed }
+}
+
+/**
+ * 查找记录所在的数据源（编辑记录时使用）
+ */
+export async function findRecordSource(recordId: string): Promise<DataSource | undefined> {
+  const { sources } = await getCustomerDataset()
+  return sources.find((part) => part.snapshot.records.has(recordId))?.source
+}
@@ -0,0 +1,134 @@
+/**
+ * =====================================================
+ * 飞书事件订阅 (lib/feishu/events.ts)
+ * =====================================================
+ *
+ * 解析、校验飞书推送的事件回调
+ *
+ * 相关环境变量（在飞书开发者后台"事件与回调"中获取）:
+ * - FEISHU_VERIFICATION_TOKEN: Verification Token，校验事件来源
+ * - FEISHU_ENCRYPT_KEY: Encrypt Key，配置后事件体加密，并校验请求签名
+ * 两者至少配置一个，否则拒绝所有事件
+ *
+ * 防重放: 事件时间（X-Lark-Request-Timestamp，没有时用 header.create_time）超过 EVENT_MAX_AGE_MS 的拒绝；
+ * 时间窗口内已处理过的 event_id 不再处理（飞书对未及时响应的事件也会用同一 event_id 重试）
+ *
+ * 多维表格记录变化事件 (drive.file.bitable_record_changed_v1) 的 event 结构:
+ * {
+ *   file_token, table_id,
+ *   action_list: [{ record_id, action: "record_added" | "record_edited" | "record_deleted", ... }]
+ * }
+ * =====================================================
+ */
+
+import { createDecipheriv, createHash, timingSafeEqual } from "crypto"
+
+export const BITABLE_RECORD_CHANGED = "drive.file.bitable_record_changed_v1"
+
+// 事件时间与服务器时间最多相差多少（毫秒）
+export const EVENT_MAX_AGE_MS = 5 * 60 * 1000
+
+// 时间窗口内处理过的 event_id -> 处理时间，挂在 globalThis 上：开发环境热更新后仍然有效
+const handledEvents: Map<string, number> = ((globalThis as any).__feishuHandledEvents ??= new Map())
+
+export interface RecordChangeActions {
+  fileToken: string // 多维表格 App 的 token
+  tableId: string
+  upsertedIds: string[] // 新增或修改的记录
+  deletedIds: string[] // 删除的记录
+}
+
+/**
+ * 解密事件体（AES-256-CBC，key 为 Encrypt Key 的 SHA256，前 16 字节为 IV）
+ */
+export function decryptEvent(encrypted: string, encryptKey: string): any {
+  const key = createHash("sha256").update(encryptKey).digest()
+  const buf = Buffer.from(encrypted, "base64")
+  const decipher = createDecipheriv("aes-256-cbc", key, buf.subarray(0, 16))
+  const plain = Buffer.concat([decipher.update(buf.subarray(16)), decipher.final()]).toString("utf8")
+  return JSON.parse(plain)
+}
+
+/**
+ * 计算请求签名: sha256(timestamp + nonce + encryptKey + body)
+ */
+export function computeSignature(timestamp: string, nonce: string, encryptKey: string, body: string): string {
+  return createHash("sha256").update(timestamp + nonce + encryptKey + body).digest("hex")
+}
+
+/**
+ * 校验请求签名（使用 X-Lark-Request-Timestamp / X-Lark-Request-Nonce / X-Lark-Signature 头）
+ */
+export function verifySignature(headers: Headers, body: string, encryptKey: string): boolean {
+  const timestamp = headers.get("x-lark-request-timestamp") || ""
+  const nonce = headers.get("x-lark-request-nonce") || ""
+  const signature = headers.get("x-lark-signature") || ""
+  if (!timestamp || !nonce || !signature) return false
+
+  const expected = Buffer.from(computeSignature(timestamp, nonce, encryptKey, body))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * 校验 Verification Token（2.0 版事件在 header.token，1.0 版和 challenge 在顶层 token）
+ */
+export function verifyToken(payload: any, verificationToken: string): boolean {
+  const token = payload?.header?.token ?? payload?.token
+  return token === verificationToken
+}
+
+/**
+ * 事件时间是否在允许的窗口内
+ * 优先使用签名头 X-Lark-Request-Timestamp（秒），没有时使用 2.0 事件的 header.create_time（毫秒）
+ */
+export function isFreshEvent(headers: Headers, payload: any, now = Date.now()): boolean {
+  const headerTs = Number(headers.get("x-lark-request-timestamp"))
+  const createTime = Number(payload?.header?.create_time)
+  const ts = headerTs > 0 ? headerTs * 1000 : createTime > 0 ? createTime : NaN
+  return Number.isFinite(ts) && Math.abs(now - ts) <= EVENT_MAX_AGE_MS
+}
+
+/**
+ * 记录已处理的 event_id
+ *
+ * @returns 时间窗口内已处理过（重放或飞书重试）时返回 false
+ */
+export function markEventHandled(eventId: string, now = Date.now()): boolean {
+  for (const [id, at] of handledEvents) {
+    if (now - at <= EVENT_MAX_AGE_MS * 2) break // 按插入顺序，后面的都更新
+    handledEvents.delete(id)
+  }
+  if (handledEvents.has(eventId)) return false
+  handledEvents.set(eventId, now)
+  return true
+}
+
+/**
+ * 处理失败时移除 event_id，让飞书的重试可以再次处理
+ */
+export function releaseEvent(eventId: string) {
+  handledEvents.delete(eventId)
+}
+
+/**
+ * 从记录变化事件中提取新增/修改/删除的 record_id
+ *
+ * @returns 不是记录变化事件时返回 null
+ */
+export function parseRecordChangeEvent(payload: any): RecordChangeActions | null {
+  const eventType = payload?.header?.event_type ?? payload?.event?.type
+  if (eventType !== BITABLE_RECORD_CHANGED) return null
+
+  const event = payload.event || {}
+  const upsertedIds: string[] = []
+  const deletedIds: string[] = []
+
+  for (const action of event.action_list || []) {
+    if (!action?.record_id) continue
+    if (action.action === "record_deleted") deletedIds.push(action.record_id)
+    else upsertedIds.push(action.record_id)
+  }
+
+  return { fileToken: event.file_token || "", tableId: event.table_id || "", upsertedIds, deletedIds }
+}
@@ -0,0 +1,186 @@
+/**
+ * =====================================================
+ * 飞书多维表格字段映射 (lib/feishu/field-mapping.ts)
+ * =====================================================
+ *
+ * 各区域团队使用的多维表格列名不尽相同，这里把"列名 → 业务字段"
+ * 的对应关系从代码中抽出来，放到 config/field-mappings.json 中声明。
+ *
+ * 配置格式（按表格 ID 分组，找不到时使用 "default"）:
+ * {
+ *   "<table_id>": {
+ *     "displayName": "显示名称",
+ *     "fields": {
+ *       "name": { "field": "门店", "aliases": ["客户企业名称"], "type": "text", "required": true },
+ *       "latitude": { "field": "纬度", "type": "number", "coordSystem": "wgs84" }
+ *     }
+ *   }
+ * }
+ *
+ * location / latitude / longitude 可声明坐标系 coordSystem（wgs84 | gcj02 | bd09，默认 gcj02），
+ * 读取时统一转换为高德使用的 GCJ-02（见 lib/coords.ts）
+ *
+ * 配置在服务启动时（instrumentation.ts）校验，格式错误会直接阻止启动，
+ * 而不是等到请求时才把记录静默丢弃。
+ * =====================================================
+ */
+
+import { z } from "zod"
+import rawMappings from "@/config/field-mappings.json"
+import { COORD_SYSTEMS, type CoordSystem } from "@/lib/coords"
+
+/**
+ * 业务字段（transformRecord 输出的字段）
+ */
+export const MAPPED_FIELD_KEYS = [
+  "name",
+  "location",
+  "latitude",
+  "longitude",
+  "address",
+  "productName",
+  "brand",
+  "discountprice",
+  "distributor",
+  "region",
+  "district",
+  "record_date",
+] as const
+
+export type MappedFieldKey = (typeof MAPPED_FIELD_KEYS)[number]
+
+/**
+ * 字段类型决定了如何从飞书原始值中读取数据
+ * - text: 文本/多选/富文本/人员，统一读成字符串
+ * - number: 数字（也兼容数字字符串）
+ * - date: 日期时间戳或日期字符串，输出 YYYY-MM-DD
+ * - location: 地理位置字段
+ */
+export const FIELD_TYPES = ["text", "number", "date", "location"] as const
+
+export type FieldType = (typeof FIELD_TYPES)[number]
+
+// 这些业务字段必须配置，否则地图无法展示
+const REQUIRED_KEYS: MappedFieldKey[] = ["name", "location"]
+
+// 只有坐标字段可以声明坐标系
+const COORDINATE_KEYS: MappedFieldKey[] = ["location", "latitude", "longitude"]
+
+const fieldSpecSchema = z.object({
+  field: z.string().min(1, "field 不能为空"),
+  aliases: z.array(z.string().min(1)).default([]),
+  type: z.enum(FIELD_TYPES),
+  required: z.boolean().default(false),
+  label: z.string().optional(),
+  default: z.string().optional(),
+  coordSystem: z.enum(COORD_SYSTEMS).optional(),
+})
+
+const tableMappingSchema = z
+  .object({
+    displayName: z.string().optional(),
+    fields: z.record(z.enum(MAPPED_FIELD_KEYS), fieldSpecSchema),
+  })
+  .superRefine((mapping, ctx) => {
+    for (const key of REQUIRED_KEYS) {
+      if (!mapping.fields[key]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["fields", key], message: `缺少必需的字段映射: ${key}` })
+      }
+    }
+
+    if (mapping.fields.location && mapping.fields.location.type !== "location") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["fields", "location", "type"], message: "location 字段类型必须为 location" })
+    }
+
+    for (const [key, spec] of Object.entries(mapping.fields)) {
+      if (spec?.coordSystem && !COORDINATE_KEYS.includes(key as MappedFieldKey)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["fields", key, "coordSystem"], message: "只有 location、latitude、longitude 可以声明坐标系" })
+      }
+    }
+    const { latitude, longitude } = mapping.fields
+    if (latitude && longitude && (latitude.coordSystem || "gcj02") !== (longitude.coordSystem || "gcj02")) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["fields", "longitude", "coordSystem"], message: "latitude 与 longitude 的坐标系必须相同" })
+    }
+
+    // 同一个列名不能同时映射到两个业务字段
+    const owners = new Map<string, string>()
+    for (const [key, spec] of Object.entries(mapping.fields)) {
+      if (!spec) continue
+      for (const column of [spec.field, ...spec.aliases]) {
+        const owner = owners.get(column)
+        if (owner && owner !== key) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["fields", key],
+            message: `列名「${column}」同时映射到了 ${owner} 和 ${key}`,
+          })
+        }
+        owners.set(column, key)
+      }
+    }
+  })
+
+const fieldMappingsSchema = z.record(z.string(), tableMappingSchema).refine((m) => !!m.default, {
+  message: "缺少 default 字段映射",
+})
+
+export type FieldSpec = z.infer<typeof fieldSpecSchema>
+export type TableFieldMapping = z.infer<typeof tableMappingSchema>
+
+let parsedMappings: Record<string, TableFieldMapping> | null = null
+
+/**
+ * 校验字段映射配置
+ *
+ * @param raw - 配置对象，默认是 config/field-mappings.json
+ * @throws 配置格式不正确时抛出错误，错误信息包含所有问题的路径
+ */
+export function validateFieldMappings(raw: unknown = rawMappings): Record<string, TableFieldMapping> {
+  const result = fieldMappingsSchema.safeParse(raw)
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `- ${i.path.join(".") || "(root)"}: ${i.message}`).join("\n")
+    throw new Error(`字段映射配置无效 (config/field-mappings.json):\n${issues}`)
+  }
+  return result.data
+}
+
+/**
+ * 获取某张表的字段映射，未单独配置的表使用 default
+ */
+export function getFieldMapping(tableId?: string): TableFieldMapping {
+  if (!parsedMappings) parsedMappings = validateFieldMappings()
+  return (tableId && parsedMappings[tableId]) || parsedMappings.default
+}
+
+/**
+ * 坐标字段声明的坐标系，未声明时为 GCJ-02
+ */
+export function coordSystemOf(spec?: FieldSpec): CoordSystem {
+  return spec?.coordSystem || "gcj02"
+}
+
+/**
+ * 在一条记录中查找某个业务字段实际使用的列名
+ *
+ * @returns 命中的列名，找不到返回 undefined
+ */
+export function resolveColumn(fields: Record<string, any>, spec: FieldSpec): string | undefined {
+  return [spec.field, ...spec.aliases].find((column) => fields[column] !== undefined && fields[column] !== null)
+}
+
+/**
+ * 对照实际数据检查映射：返回在所有记录中都找不到对应列的必需字段
+ * 用于在日志/响应中提示"表格列名被改了"，而不是只看到一堆"缺少门店名称"
+ */
+export function findUnmatchedRequiredFields(mapping: TableFieldMapping, records: any[]): FieldSpec[] {
+  if (!records.length) return []
+
+  const seenColumns = new Set<string>()
+  for (const record of records) {
+    for (const column of Object.keys(record?.fields || {})) seenColumns.add(column)
+  }
+
+  return Object.values(mapping.fields).filter(
+    (spec): spec is FieldSpec => !!spec && spec.required && ![spec.field, ...spec.aliases].some((c) => seenColumns.has(c))
+  )
+}
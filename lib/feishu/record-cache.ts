@@ -0,0 +1,191 @@
+/**
+ * =====================================================
+ * 飞书记录缓存 (lib/feishu/record-cache.ts)
+ * =====================================================
+ *
+ * 在服务端内存中缓存多维表格的原始记录，避免每次打开地图都全量翻页拉取
+ * 每个数据源（见 lib/feishu/sources.ts）各自缓存、各自刷新
+ *
+ * 缓存策略:
+ * - 新鲜期 (FEISHU_CACHE_TTL_MS，默认 60 秒): 直接返回缓存
+ * - 过期但仍在容忍期内 (FEISHU_CACHE_STALE_MS，默认 10 分钟):
+ *   先返回旧数据，同时在后台刷新 (stale-while-revalidate)
+ * - 超过容忍期: 等待刷新完成后再返回
+ *
+ * 刷新策略:
+ * - 按最后修改时间增量拉取，只获取变化的记录
+ * - 增量拉取发现不了删除，所以每隔 FEISHU_CACHE_FULL_REFRESH_MS（默认 30 分钟）做一次全量刷新
+ * - 增量拉取失败（如表格没有"最后更新时间"字段）时退回全量刷新
+ * =====================================================
+ */
+
+import { createHash } from "crypto"
+import { getRecordsModifiedSince, getTableRecords } from "./client"
+import type { DataSource } from "./sources"
+
+export interface RecordSnapshot {
+  records: Map<string, any> // record_id -> 原始记录
+  fetchedAt: number // 上次刷新完成时间
+  fullFetchedAt: number // 上次全量刷新时间
+  lastModified: number // 所有记录中最大的 last_modified_time（毫秒）
+  version: string // 内容版本，用作 ETag
+}
+
+function envMs(name: string, fallback: number): number {
+  const n = Number(process.env[name])
+  return Number.isFinite(n) && n >= 0 ? n : fallback
+}
+
+const TTL_MS = envMs("FEISHU_CACHE_TTL_MS", 60 * 1000)
+const STALE_MS = envMs("FEISHU_CACHE_STALE_MS", 10 * 60 * 1000)
+const FULL_REFRESH_MS = envMs("FEISHU_CACHE_FULL_REFRESH_MS", 30 * 60 * 1000)
+
+interface CacheState {
+  snapshot: RecordSnapshot | null
+  inflight: Promise<RecordSnapshot> | null
+}
+
+// 缓存状态挂在 globalThis 上：开发环境热更新、以及 webhook 与数据接口在不同路由中，都要共享同一份缓存
+const states: Map<string, CacheState> = ((globalThis as any).__feishuRecordCaches ??= new Map())
+
+function stateOf(source: DataSource): CacheState {
+  let state = states.get(source.id)
+  if (!state) {
+    state = { snapshot: null, inflight: null }
+    states.set(source.id, state)
+  }
+  return state
+}
+
+function recordId(record: any): string {
+  return record?.record_id || record?.id || record?.recordId || ""
+}
+
+function modifiedTime(record: any): number {
+  const t = Number(record?.last_modified_time ?? record?.created_time)
+  return Number.isFinite(t) ? t : 0
+}
+
+/**
+ * 根据记录 id 和修改时间计算内容版本
+ */
+function computeVersion(records: Map<string, any>): string {
+  const hash = createHash("sha1")
+  const ids = [...records.keys()].sort()
+  for (const id of ids) hash.update(`${id}:${modifiedTime(records.get(id))};`)
+  return hash.digest("hex").slice(0, 16)
+}
+
+function buildSnapshot(records: Map<string, any>, fullFetchedAt: number): RecordSnapshot {
+  let lastModified = 0
+  for (const record of records.values()) lastModified = Math.max(lastModified, modifiedTime(record))
+
+  return {
+    records,
+    fetchedAt: Date.now(),
+    fullFetchedAt,
+    lastModified,
+    version: computeVersion(records),
+  }
+}
+
+async function fullRefresh(source: DataSource): Promise<RecordSnapshot> {
+  const list = await getTableRecords(source)
+  console.log(`[${source.id}] 全量获取到 ${list.length} 条记录`)
+
+  // 打印前2条原始记录用于调试
+  if (list.length > 0 && process.env.DEBUG_TRANSFORM === "1") {
+    console.log("=== 飞书多维表格原始数据结构（前2条）===")
+    console.log(JSON.stringify(list.slice(0, 2), null, 2))
+    console.log("=== 原始数据结束 ===")
+  }
+
+  const records = new Map<string, any>()
+  list.forEach((record, i) => records.set(recordId(record) || `customer-${i}`, record))
+  return buildSnapshot(records, Date.now())
+}
+
+async function incrementalRefresh(source: DataSource, prev: RecordSnapshot): Promise<RecordSnapshot> {
+  const changed = await getRecordsModifiedSince(source, prev.lastModified)
+  console.log(`[${source.id}] 增量获取到 ${changed.length} 条变化记录`)
+
+  const records = new Map(prev.records)
+  for (const record of changed) {
+    const id = recordId(record)
+    if (id) records.set(id, record)
+  }
+  return buildSnapshot(records, prev.fullFetchedAt)
+}
+
+/**
+ * 刷新缓存（并发调用共享同一个刷新过程）
+ */
+function refresh(source: DataSource): Promise<RecordSnapshot> {
+  const state = stateOf(source)
+  if (state.inflight) return state.inflight
+
+  state.inflight = (async () => {
+    const prev = state.snapshot
+
+    let next: RecordSnapshot
+    if (!prev || !prev.lastModified || Date.now() - prev.fullFetchedAt >= FULL_REFRESH_MS) {
+      next = await fullRefresh(source)
+    } else {
+      try {
+        next = await incrementalRefresh(source, prev)
+      } catch (error) {
+        console.warn(`[${source.id}] 增量刷新失败，改为全量刷新:`, error)
+        next = await fullRefresh(source)
+      }
+    }
+
+    state.snapshot = next
+    return next
+  })().finally(() => {
+    state.inflight = null
+  })
+
+  return state.inflight
+}
+
+/**
+ * 获取某个数据源缓存的原始记录
+ */
+export async function getCachedRecords(source: DataSource): Promise<RecordSnapshot> {
+  const current = stateOf(source).snapshot
+  if (!current) return refresh(source)
+
+  const age = Date.now() - current.fetchedAt
+  if (age < TTL_MS) return current
+
+  if (age < TTL_MS + STALE_MS) {
+    // 先返回旧数据，后台刷新
+    refresh(source).catch((error) => console.error(`[${source.id}] 后台刷新飞书记录失败:`, error))
+    return current
+  }
+
+  return refresh(source)
+}
+
+/**
+ * 把事件推送来的变化直接合并进缓存，不必等下一次刷新
+ * 缓存尚未建立时忽略（首次加载会全量拉取）
+ *
+ * @param source - 记录所在的数据源
+ * @param upserted - 新增或修改后的原始记录
+ * @param deletedIds - 被删除的 record_id
+ */
+export function applyRecordChanges(source: DataSource, upserted: any[], deletedIds: string[]) {
+  const state = stateOf(source)
+  const current = state.snapshot
+  if (!current) return
+
+  const records = new Map(current.records)
+  for (const record of upserted) {
+    const id = recordId(record)
+    if (id) records.set(id, record)
+  }
+  for (const id of deletedIds) records.delete(id)
+
+  state.snapshot = { ...buildSnapshot(records, current.fullFetchedAt), fetchedAt: current.fetchedAt }
+}
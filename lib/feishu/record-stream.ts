@@ -0,0 +1,54 @@
+/**
+ * =====================================================
+ * 记录变化广播 (lib/feishu/record-stream.ts)
+ * =====================================================
+ *
+ * webhook 收到记录变化后，通过这里通知所有打开着地图的客户端（SSE 连接）
+ *
+ * 注意: 订阅者保存在当前进程内存中，多实例部署时每个实例只能通知连到自己的客户端
+ * =====================================================
+ */
+
+import type { CustomerRecord } from "./transform"
+
+/**
+ * 推送给客户端的变化
+ * - upserted: 新增或修改后的记录（已按字段映射转换）
+ * - deleted: 被删除、或修改后已无法在地图上展示的记录 id
+ */
+export interface RecordChange {
+  upserted: CustomerRecord[]
+  deleted: string[]
+}
+
+type Listener = (change: RecordChange) => void
+
+// 与记录缓存一样挂在 globalThis 上，保证 webhook 路由和 SSE 路由拿到同一组订阅者
+const listeners: Set<Listener> = ((globalThis as any).__feishuRecordListeners ??= new Set<Listener>())
+
+/**
+ * 订阅记录变化
+ *
+ * @returns 取消订阅函数
+ */
+export function subscribeRecordChanges(listener: Listener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * 广播记录变化
+ */
+export function publishRecordChange(change: RecordChange) {
+  if (!change.upserted.length && !change.deleted.length) return
+
+  for (const listener of listeners) {
+    try {
+      listener(change)
+    } catch (error) {
+      console.error("推送记录变化失败:", error)
+    }
+  }
+}
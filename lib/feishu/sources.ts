@@ -0,0 +1,193 @@
+/**
+ * =====================================================
+ * 数据源注册表 (lib/feishu/sources.ts)
+ * =====================================================
+ *
+ * 地图可以同时展示多张多维表格（各事业部各自的表格，可以在不同的多维表格 App 中），
+ * 在 config/data-sources.json 中登记:
+ * {
+ *   "sources": [
+ *     { "id": "east", "displayName": "华东事业部", "appToken": "bascn...", "tableId": "tbl...", "mapping": "default", "color": "#3b82f6" }
+ *   ]
+ * }
+ *
+ * - id: 数据源标识，用于查询参数 source 和地图上的图层开关
+ * - appToken: 多维表格 App 的 token，不填时使用 FEISHU_APP_TOKEN
+ * - mapping: config/field-mappings.json 中的键，不填时按 tableId 查找（找不到用 default）
+ * - displayName: 不填时使用字段映射中的 displayName
+ * - color: 图层颜色，不填时按顺序从调色板中取
+ *
+ * 地图上新增的记录和批量导入默认写入第一个数据源
+ * 没有登记任何数据源时，使用 FEISHU_APP_TOKEN / FEISHU_TABLE_ID 作为唯一的数据源 "default"
+ *
+ * 自有门店（与竞品对比的图层，见 lib/own-stores.ts）在同一个文件的 ownStores 中配置，不参与竞品记录的合并:
+ * - { "type": "bitable", "tableId": "tbl...", "appToken"?, "mapping"?, "displayName"? }
+ * - { "type": "file", "path": "data/own-stores.csv", "coordSystem"?, "displayName"? }（.csv / .xlsx / .json）
+ * =====================================================
+ */
+
+import { z } from "zod"
+import rawSources from "@/config/data-sources.json"
+import { COORD_SYSTEMS } from "@/lib/coords"
+import type { TableRef } from "./config"
+import { type TableFieldMapping, getFieldMapping, validateFieldMappings } from "./field-mapping"
+
+export const DEFAULT_SOURCE_ID = "default"
+
+// 未指定颜色时依次使用
+const SOURCE_PALETTE = ["#3b82f6", "#10b981", "#f59e0b", "#8b5cf6", "#ef4444", "#14b8a6", "#ec4899", "#64748b"]
+
+export interface DataSource extends TableRef {
+  id: string
+  displayName: string
+  mapping: TableFieldMapping
+  color: string
+}
+
+/**
+ * 返回给前端的数据源信息（不含 token）
+ */
+export type DataSourceInfo = Pick<DataSource, "id" | "displayName" | "color">
+
+const sourceSchema = z.object({
+  id: z.string().regex(/^[\w-]+$/, "id 只能包含字母、数字、下划线和短横线"),
+  displayName: z.string().optional(),
+  appToken: z.string().min(1).optional(),
+  tableId: z.string().min(1, "tableId 不能为空"),
+  mapping: z.string().optional(),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "color 应为 #RRGGBB")
+    .optional(),
+})
+
+const ownStoresSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("bitable"),
+    displayName: z.string().optional(),
+    appToken: z.string().min(1).optional(),
+    tableId: z.string().min(1, "tableId 不能为空"),
+    mapping: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("file"),
+    displayName: z.string().optional(),
+    path: z.string().regex(/\.(csv|xlsx|json)$/i, "path 应为 .csv / .xlsx / .json 文件"),
+    coordSystem: z.enum(COORD_SYSTEMS).optional(),
+  }),
+])
+
+const sourcesSchema = z
+  .object({ sources: z.array(sourceSchema).default([]), ownStores: ownStoresSchema.optional() })
+  .superRefine(({ sources, ownStores }, ctx) => {
+    const mappings = validateFieldMappings()
+    const seen = new Set<string>()
+    sources.forEach((source, i) => {
+      if (seen.has(source.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["sources", i, "id"], message: `数据源 id 重复: ${source.id}` })
+      }
+      seen.add(source.id)
+      if (source.mapping && !mappings[source.mapping]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["sources", i, "mapping"], message: `找不到字段映射: ${source.mapping}` })
+      }
+    })
+    if (ownStores?.type === "bitable" && ownStores.mapping && !mappings[ownStores.mapping]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["ownStores", "mapping"], message: `找不到字段映射: ${ownStores.mapping}` })
+    }
+  })
+
+type SourceConfig = z.infer<typeof sourceSchema>
+type DataSourcesConfig = z.infer<typeof sourcesSchema>
+
+export type OwnStoresConfig = z.infer<typeof ownStoresSchema>
+
+let parsedConfig: DataSourcesConfig | null = null
+
+/**
+ * 校验数据源配置
+ *
+ * @throws 配置格式不正确时抛出错误，错误信息包含所有问题的路径
+ */
+export function validateDataSources(raw: unknown = rawSources): DataSourcesConfig {
+  const result = sourcesSchema.safeParse(raw)
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `- ${i.path.join(".") || "(root)"}: ${i.message}`).join("\n")
+    throw new Error(`数据源配置无效 (config/data-sources.json):\n${issues}`)
+  }
+  return result.data
+}
+
+function configuredSources(): SourceConfig[] {
+  if (!parsedConfig) parsedConfig = validateDataSources()
+  return parsedConfig.sources
+}
+
+/**
+ * 自有门店的配置，没有配置时返回 null
+ */
+export function getOwnStoresConfig(): OwnStoresConfig | null {
+  if (!parsedConfig) parsedConfig = validateDataSources()
+  return parsedConfig.ownStores || null
+}
+
+/**
+ * 是否在 config/data-sources.json 中登记了数据源
+ */
+export function hasSourceRegistry(): boolean {
+  return configuredSources().length > 0
+}
+
+/**
+ * 全部数据源（按登记顺序）
+ */
+export function getDataSources(): DataSource[] {
+  const configs = configuredSources()
+  if (!configs.length) {
+    const tableId = process.env.FEISHU_TABLE_ID || ""
+    const mapping = getFieldMapping(tableId)
+    return [
+      {
+        id: DEFAULT_SOURCE_ID,
+        displayName: mapping.displayName || "巡店记录",
+        appToken: process.env.FEISHU_APP_TOKEN || "",
+        tableId,
+        mapping,
+        color: SOURCE_PALETTE[0],
+      },
+    ]
+  }
+
+  return configs.map((config, i) => {
+    const mapping = getFieldMapping(config.mapping || config.tableId)
+    return {
+      id: config.id,
+      displayName: config.displayName || mapping.displayName || config.id,
+      appToken: config.appToken || process.env.FEISHU_APP_TOKEN || "",
+      tableId: config.tableId,
+      mapping,
+      color: config.color || SOURCE_PALETTE[i % SOURCE_PALETTE.length],
+    }
+  })
+}
+
+export function getDataSource(id: string): DataSource | undefined {
+  return getDataSources().find((source) => source.id === id)
+}
+
+/**
+ * 新增记录、批量导入默认写入的数据源（第一个）
+ */
+export function getPrimarySource(): DataSource {
+  return getDataSources()[0]
+}
+
+/**
+ * 按多维表格 App 和数据表查找数据源（处理记录变化事件时使用）
+ */
+export function findSourceByTable(appToken: string, tableId: string): DataSource | undefined {
+  return getDataSources().find((source) => source.tableId === tableId && (!appToken || source.appToken === appToken))
+}
+
+export function toSourceInfo(source: DataSource): DataSourceInfo {
+  return { id: source.id, displayName: source.displayName, color: source.color }
+}
@@ -0,0 +1,81 @@
+/**
+ * =====================================================
+ * tenant_access_token 管理 (lib/feishu/token.ts)
+ * =====================================================
+ *
+ * 飞书的 tenant_access_token 有效期约 2 小时，每次请求都重新获取既慢又浪费配额
+ *
+ * - 按飞书返回的 expire 缓存 token，提前 5 分钟视为过期
+ * - 并发请求共享同一个进行中的刷新，不会同时发出多次获取请求
+ * - invalidateAccessToken() 供调用方在飞书返回 token 失效时强制下次刷新
+ * =====================================================
+ */
+
+import { FEISHU_API_BASE } from "./config"
+
+// 提前多久视为过期（毫秒）
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000
+
+/**
+ * 飞书返回的"token 无效/过期"类错误码
+ */
+export const TOKEN_INVALID_CODES = new Set([99991661, 99991663, 99991664, 99991668])
+
+let cached: { token: string; expiresAt: number } | null = null
+let inflight: Promise<string> | null = null
+
+async function requestAccessToken(): Promise<string> {
+  const response = await fetch(`${FEISHU_API_BASE}/auth/v3/tenant_access_token/internal`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      app_id: process.env.FEISHU_APP_ID,
+      app_secret: process.env.FEISHU_APP_SECRET,
+    }),
+  })
+
+  const data = await response.json()
+
+  if (data.code !== 0) {
+    throw new Error(`获取飞书token失败: ${data.msg}`)
+  }
+
+  // expire 单位为秒
+  const expireSec = Number(data.expire) || 0
+  cached = {
+    token: data.tenant_access_token,
+    expiresAt: Date.now() + expireSec * 1000 - EXPIRY_MARGIN_MS,
+  }
+
+  return data.tenant_access_token
+}
+
+/**
+ * 获取飞书访问令牌 (tenant_access_token)
+ *
+ * @param forceRefresh - 忽略缓存，强制重新获取
+ */
+export function getAccessToken(forceRefresh = false): Promise<string> {
+  if (!forceRefresh && cached && Date.now() < cached.expiresAt) {
+    return Promise.resolve(cached.token)
+  }
+
+  if (!inflight) {
+    inflight = requestAccessToken().finally(() => {
+      inflight = null
+    })
+  }
+
+  return inflight
+}
+
+/**
+ * 标记当前 token 失效（仅当它仍是缓存中的 token 时才清除，避免清掉别人刚刷新的新 token）
+ */
+export function invalidateAccessToken(token?: string) {
+  if (!token || cached?.token === token) {
+    cached = null
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * =====================================================
+ * 飞书记录转换 (lib/feishu/transform.ts)
+ * =====================================================
+ *
+ * 把多维表格的原始记录转换为地图使用的客户数据格式
+ * 列名不再写死，而是按 field-mapping 中的配置读取
+ * 坐标按字段声明的坐标系转换为 GCJ-02（见 lib/coords.ts）
+ * =====================================================
+ */
+
+import { type CoordSystem, toGcj02 } from "@/lib/coords"
+import type { GeocodeInfo } from "@/lib/geocode"
+import { type ParsedPrice, parsePrice } from "@/lib/price"
+import { type FieldSpec, type TableFieldMapping, coordSystemOf, resolveColumn } from "./field-mapping"
+
+/**
+ * 转换后的客户记录（与前端 CustomerData 对应）
+ */
+export interface CustomerRecord {
+  id: string
+  name: string
+  coordinates: [number, number] // GCJ-02
+  productName: string
+  brand: string
+  discountprice: string
+  price: ParsedPrice // 从折扣/价格文本解析出的结构化价格
+  address: string
+  distributor: string
+  region: string
+  record_date: string | null
+  district: string
+  source: string // 所在数据源的 id（见 lib/feishu/sources.ts）
+  storeId?: string // 所属门店（见 lib/stores.ts，由 getCustomerDataset 填充）
+  geocode?: GeocodeInfo // 坐标由地址解析得到时的可信度（见 lib/geocode.ts）
+}
+
+/**
+ * 转换成功但值得检查的情况（见 lib/data-quality.ts）
+ */
+export interface TransformWarnings {
+  swapped?: boolean // 经纬度填反，已自动对调
+  invalidDate?: string // 记录日期有值但无法解析（原始值）
+}
+
+export interface TransformResult {
+  result: CustomerRecord | null
+  reason?: string
+  address?: string // 缺少坐标但有地址时返回地址，可通过地址解析补全坐标
+  warnings?: TransformWarnings
+}
+
+/**
+ * 读取可能是 string | array | rich-text array | object 的字段
+ */
+export function readAsText(val: any): string {
+  if (typeof val === "string") return val
+  if (typeof val === "number") return String(val)
+  if (Array.isArray(val)) {
+    const texts = val.map((v) => (v && typeof v.text === "string" ? v.text : String(v))).filter(Boolean)
+    return texts.join(" ")
+  }
+  if (val && typeof val === "object") {
+    if (typeof val.name === "string") return val.name
+    if (typeof val.text === "string") return val.text
+  }
+  return ""
+}
+
+/**
+ * 格式化日期为 YYYY-MM-DD（如为时间戳则转换）
+ */
+export function formatDate(v: number | string | null): string | null {
+  if (v === null || v === undefined || v === "") return null
+  const n = typeof v === "number" ? v : parseInt(String(v), 10)
+  if (Number.isFinite(n)) {
+    let ms = n
+    if (n < 1e11) ms = n * 1000
+    const d = new Date(ms)
+    if (!isNaN(d.getTime())) return d.toISOString().slice(0, 10)
+  }
+  try {
+    const d2 = new Date(String(v))
+    if (!isNaN(d2.getTime())) return d2.toISOString().slice(0, 10)
+  } catch (e) {
+    // ignore
+  }
+  return null
+}
+
+/**
+ * 读取日期字段（数组取第一个值）
+ */
+function readAsDate(val: any): string | null {
+  let raw: number | string | null = null
+  if (Array.isArray(val) && val.length > 0) raw = Number(val[0])
+  else if (val !== undefined && val !== null) raw = Number(val) || String(val)
+  return formatDate(raw)
+}
+
+/**
+ * 从地理位置字段中提取原始坐标字符串和地址
+ */
+function readLocation(shopLoc: any): { coordsRaw?: string; address: string } {
+  let coordsRaw: string | undefined
+  let address = ""
+
+  // 优先使用 poiInfo.location / fullAddress
+  const poi = shopLoc?.locations?.[0]?.poiInfo || null
+  if (poi && typeof poi === "object") {
+    if (typeof poi.location === "string" && poi.location.trim()) coordsRaw = poi.location
+    address = poi.fullAddress || poi.full_address || poi.address || address
+  }
+
+  // 备用解析：直接从定位对象/数组里取 location 或 lng/lat
+  if (!coordsRaw && shopLoc) {
+    if (typeof shopLoc === "string") coordsRaw = shopLoc
+    else if (Array.isArray(shopLoc) && shopLoc.length === 2 && typeof shopLoc[0] === "number") coordsRaw = `${shopLoc[0]},${shopLoc[1]}`
+    else if (shopLoc.location) coordsRaw = shopLoc.location
+    else if (shopLoc.lng && shopLoc.lat) coordsRaw = `${shopLoc.lng},${shopLoc.lat}`
+    else if (shopLoc.longitude && shopLoc.latitude) coordsRaw = `${shopLoc.longitude},${shopLoc.latitude}`
+  }
+
+  if (!address && shopLoc && typeof shopLoc === "object" && !Array.isArray(shopLoc)) {
+    address = shopLoc.full_address || shopLoc.address || ""
+  }
+
+  return { coordsRaw, address }
+}
+
+/**
+ * 将飞书记录转换为客户数据格式
+ *
+ * 飞书多维表格字段格式说明:
+ * - 文本字段: 直接是字符串
+ * - 多选字段: 数组 ["选项1", "选项2"] 或选项ID数组 ["optXXX"]
+ * - 富文本字段: 数组 [{text: "内容", type: "text"}]
+ * - 地理位置字段: 对象 {location: "经度,纬度", address: "地址"}
+ * - 人员字段: 对象 {name: "姓名", id: "xxx"}
+ *
+ * @param record - 飞书原始记录
+ * @param index - 记录序号（没有 record_id 时用于生成 id）
+ * @param mapping - 该表的字段映射
+ * @param sourceId - 记录所在数据源的 id
+ */
+export function transformRecord(record: any, index: number, mapping: TableFieldMapping, sourceId: string): TransformResult {
+  const fields = record.fields || {}
+  const specs = mapping.fields
+
+  // 按映射读取原始值（依次尝试 field 和 aliases）
+  const raw = (spec?: FieldSpec): any => {
+    if (!spec) return undefined
+    const column = resolveColumn(fields, spec)
+    return column ? fields[column] : undefined
+  }
+  const text = (spec?: FieldSpec): string => readAsText(raw(spec)) || spec?.default || ""
+
+  // ========== 必需字段：门店名称 ==========
+  const name = text(specs.name)
+  if (!name) return { result: null, reason: `缺少${specs.name?.label || "门店名称"}` }
+
+  // ========== 提取经纬度与地址 ==========
+  let { coordsRaw, address } = readLocation(raw(specs.location))
+  let coordSystem: CoordSystem = coordSystemOf(specs.location)
+
+  // 备用：拆字段经/纬（先按映射，再按列名模糊匹配）
+  if (!coordsRaw) {
+    coordSystem = coordSystemOf(specs.longitude)
+    const keys = Object.keys(fields)
+    const latKey = (specs.latitude && resolveColumn(fields, specs.latitude)) || keys.find((k) => /纬度|latitude|lat/i.test(k))
+    const lngKey = (specs.longitude && resolveColumn(fields, specs.longitude)) || keys.find((k) => /经度|longitude|lng/i.test(k))
+    if (latKey && lngKey) {
+      const latNum = parseFloat(readAsText(fields[latKey]))
+      const lngNum = parseFloat(readAsText(fields[lngKey]))
+      if (Number.isFinite(latNum) && Number.isFinite(lngNum)) coordsRaw = `${lngNum},${latNum}`
+    }
+  }
+
+  if (!coordsRaw) {
+    return { result: null, reason: "缺少定位字段或定位字段格式不支持", address: address || text(specs.address) || undefined }
+  }
+
+  const coordMatch = String(coordsRaw).match(/(-?\d+\.?\d*)[,，\s]+(-?\d+\.?\d*)/)
+  if (!coordMatch) return { result: null, reason: `无法解析坐标: ${coordsRaw}` }
+
+  const a = parseFloat(coordMatch[1])
+  const b = parseFloat(coordMatch[2])
+  let lng = a
+  let lat = b
+  const warnings: TransformWarnings = {}
+  if (a >= 18 && a <= 54 && b >= 73 && b <= 135) {
+    lng = b; lat = a
+    warnings.swapped = true
+  } else if (a >= 73 && a <= 135 && b >= 18 && b <= 54) {
+    lng = a; lat = b
+  }
+
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return { result: null, reason: `解析后坐标不是数字: ${coordsRaw}` }
+  const coordinates = toGcj02([lng, lat], coordSystem)
+
+  // ========== 其他字段按映射读取 ==========
+  const values: Partial<Record<string, string>> = {}
+  for (const key of ["productName", "brand", "discountprice", "distributor", "region", "district"] as const) {
+    const spec = specs[key]
+    const value = text(spec)
+    if (spec?.required && !value) return { result: null, reason: `缺少${spec.label || key}` }
+    values[key] = value
+  }
+
+  const rawDate = raw(specs.record_date)
+  const record_date = readAsDate(rawDate)
+  if (specs.record_date?.required && !record_date) {
+    return { result: null, reason: `缺少${specs.record_date.label || "记录日期"}` }
+  }
+  const dateText = readAsText(rawDate).trim()
+  if (!record_date && dateText) warnings.invalidDate = dateText
+
+  // 宽松提取 record id：支持 record.record_id | record.id | record.recordId
+  const recId = record.record_id || record.id || record.recordId || `customer-${index}`
+
+  const result: CustomerRecord = {
+    id: recId,
+    name,
+    coordinates,
+    productName: values.productName || "未知",
+    brand: values.brand || "",
+    discountprice: values.discountprice || "",
+    price: parsePrice(values.discountprice),
+    address: address || text(specs.address),
+    distributor: values.distributor || "",
+    region: values.region || "",
+    record_date,
+    district: values.district || "",
+    source: sourceId,
+  }
+
+  return { result, warnings: warnings.swapped || warnings.invalidDate ? warnings : undefined }
+}
@@ -0,0 +1,64 @@
+/**
+ * =====================================================
+ * 飞书用户身份 (lib/feishu/user-auth.ts)
+ * =====================================================
+ *
+ * 在飞书中打开地图时识别当前用户（常用视图等按用户保存的数据使用）:
+ * 1. 页面通过飞书 JSSDK 的 requestAuthCode 拿到临时授权码（见 lib/feishu-login.ts）
+ * 2. 服务端用 app_access_token 把授权码换成 user_access_token，再查询用户信息
+ * 3. 用户的 open_id 和姓名写入签名 Cookie（见 lib/session.ts），之后的请求不再访问飞书
+ *
+ * 应用需要在飞书开放平台开启网页应用，并把部署地址加入"重定向 URL / 安全域名"
+ * =====================================================
+ */
+
+import { FEISHU_API_BASE } from "./config"
+
+export interface FeishuUser {
+  openId: string
+  name: string
+}
+
+async function postJson(url: string, body: unknown, token?: string): Promise<any> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { "Authorization": `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  })
+  return response.json()
+}
+
+/**
+ * 获取 app_access_token（只在登录时使用，不缓存）
+ */
+async function getAppAccessToken(): Promise<string> {
+  const data = await postJson(`${FEISHU_API_BASE}/auth/v3/app_access_token/internal`, {
+    app_id: process.env.FEISHU_APP_ID,
+    app_secret: process.env.FEISHU_APP_SECRET,
+  })
+  if (data.code !== 0) throw new Error(`获取飞书 app_access_token 失败: ${data.msg}`)
+  return data.app_access_token
+}
+
+/**
+ * 用 JSSDK 拿到的临时授权码换取用户身份
+ *
+ * @throws 授权码无效或已使用、飞书接口出错时抛出错误
+ */
+export async function exchangeAuthCode(code: string): Promise<FeishuUser> {
+  const appToken = await getAppAccessToken()
+
+  const tokenData = await postJson(`${FEISHU_API_BASE}/authen/v1/oidc/access_token`, { grant_type: "authorization_code", code }, appToken)
+  if (tokenData.code !== 0) throw new Error(`飞书登录失败: ${tokenData.msg}`)
+
+  const response = await fetch(`${FEISHU_API_BASE}/authen/v1/user_info`, {
+    headers: { "Authorization": `Bearer ${tokenData.data?.access_token}` },
+  })
+  const info = await response.json()
+  if (info.code !== 0 || !info.data?.open_id) throw new Error(`获取飞书用户信息失败: ${info.msg}`)
+
+  return { openId: info.data.open_id, name: info.data.name || "" }
+}
@@ -0,0 +1,286 @@
+/**
+ * =====================================================
+ * 写回飞书多维表格 (lib/feishu/write.ts)
+ * =====================================================
+ *
+ * 地图上新增/编辑巡店记录时，把表单数据按字段映射转换为多维表格的字段值，
+ * 写入后重新拉取该记录，合并进缓存并推送给其他打开着的地图（与事件推送走同样的处理，见 lib/feishu/customers.ts）
+ * 新增记录默认写入第一个数据源，编辑记录写回记录所在的数据源（见 lib/feishu/sources.ts）
+ * 字段值按表中列的实际类型组装（多选为数组、复选框为布尔值等），人员、附件、关联等列不支持写入
+ * =====================================================
+ */
+
+import { z } from "zod"
+import { fromGcj02 } from "@/lib/coords"
+import { batchCreateRecords, createRecord, getRecordsByIds, getTableFields, updateRecord } from "./client"
+import { applyAndPublishRecordChanges, findRecordSource } from "./customers"
+import { type FieldSpec, type TableFieldMapping, coordSystemOf } from "./field-mapping"
+import { type DataSource, getPrimarySource } from "./sources"
+import type { CustomerRecord } from "./transform"
+
+/**
+ * 表单提交的记录
+ */
+export const recordInputSchema = z.object({
+  name: z.string({ required_error: "门店名称不能为空" }).trim().min(1, "门店名称不能为空"),
+  coordinates: z.tuple(
+    [
+      z.number().min(-180, "经度超出范围").max(180, "经度超出范围"),
+      z.number().min(-90, "纬度超出范围").max(90, "纬度超出范围"),
+    ],
+    { required_error: "缺少经纬度" }
+  ),
+  address: z.string().trim().optional(),
+  productName: z.string().trim().optional(),
+  brand: z.string().trim().optional(),
+  discountprice: z.string().trim().optional(),
+  distributor: z.string().trim().optional(),
+  region: z.string().trim().optional(),
+  district: z.string().trim().optional(),
+  record_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "记录日期格式应为 YYYY-MM-DD")
+    .nullable()
+    .optional(),
+})
+
+// 编辑时只提交修改过的字段
+export const recordPatchSchema = recordInputSchema.partial()
+
+export type RecordInput = z.infer<typeof recordInputSchema>
+export type RecordPatch = z.infer<typeof recordPatchSchema>
+
+// 可写回的业务字段（坐标单独按 location 处理）
+const WRITABLE_KEYS = [
+  "name",
+  "address",
+  "productName",
+  "brand",
+  "discountprice",
+  "distributor",
+  "region",
+  "district",
+  "record_date",
+] as const
+
+/**
+ * 写入的值不符合列的类型，或列的类型不支持写入（调用方应返回 400）
+ */
+export class FieldWriteError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "FieldWriteError"
+  }
+}
+
+/**
+ * 要编辑的记录不在任何数据源中（调用方应返回 404）
+ */
+export class RecordNotFoundError extends Error {
+  constructor(recordId: string) {
+    super(`找不到记录 ${recordId}`)
+    this.name = "RecordNotFoundError"
+  }
+}
+
+// 多维表格列类型（GET /fields 返回的 type）
+const FIELD_TYPE = {
+  text: 1,
+  number: 2,
+  singleSelect: 3,
+  multiSelect: 4,
+  dateTime: 5,
+  checkbox: 7,
+  phone: 13,
+  url: 15,
+  location: 22,
+} as const
+
+// 不支持从地图写入的列类型
+const UNSUPPORTED_TYPE_NAMES: Record<number, string> = {
+  11: "人员",
+  17: "附件",
+  18: "单向关联",
+  19: "查找引用",
+  20: "公式",
+  21: "双向关联",
+  23: "群组",
+  1001: "创建时间",
+  1002: "最后更新时间",
+  1003: "创建人",
+  1004: "修改人",
+  1005: "自动编号",
+}
+
+// 列表没有返回类型时，按字段映射中声明的类型写入
+const SPEC_FIELD_TYPE: Record<FieldSpec["type"], number> = {
+  text: FIELD_TYPE.text,
+  number: FIELD_TYPE.number,
+  date: FIELD_TYPE.dateTime,
+  location: FIELD_TYPE.location,
+}
+
+/**
+ * 把表单值转换为飞书字段值（按列的实际类型）
+ * - 文本 / 单选 / 电话 / 地理位置: 字符串（坐标为 "经度,纬度"，表单中是 GCJ-02，按字段声明的坐标系转换）
+ * - 数字: 数字
+ * - 日期: 毫秒时间戳（UTC 当天 0 点，与 transform 中 formatDate 按 UTC 取日期保持一致）
+ * - 多选: 选项数组（按顿号、逗号或空格分隔，与读取时用空格拼接对应）
+ * - 复选框: 布尔值
+ * - 超链接: { text, link }
+ *
+ * @throws FieldWriteError 值不符合列的类型，或列的类型不支持写入
+ */
+function toFieldValue(spec: FieldSpec, value: any, column: string, columnType: number | undefined): any {
+  if (value === null || value === undefined || value === "") return null
+  const label = spec.label || spec.field
+  const type = columnType ?? SPEC_FIELD_TYPE[spec.type]
+
+  let text: string
+  if (spec.type === "location") {
+    const [lng, lat] = fromGcj02(value, coordSystemOf(spec))
+    text = `${lng},${lat}`
+  } else {
+    text = String(value).trim()
+  }
+
+  switch (type) {
+    case FIELD_TYPE.text:
+    case FIELD_TYPE.singleSelect:
+    case FIELD_TYPE.phone:
+    case FIELD_TYPE.location:
+      return text
+    case FIELD_TYPE.number: {
+      const n = Number(text)
+      if (!Number.isFinite(n)) throw new FieldWriteError(`${label}对应的列"${column}"是数字类型，无法写入"${text}"`)
+      return n
+    }
+    case FIELD_TYPE.dateTime: {
+      const ms = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00:00Z` : text)
+      if (!Number.isFinite(ms)) throw new FieldWriteError(`${label}对应的列"${column}"是日期类型，无法写入"${text}"`)
+      return ms
+    }
+    case FIELD_TYPE.multiSelect:
+      return text.split(/[、,，\s]+/).filter(Boolean)
+    case FIELD_TYPE.checkbox:
+      return /^(true|1|是|yes|y|✓|√)$/i.test(text)
+    case FIELD_TYPE.url:
+      return { text, link: text }
+    default:
+      throw new FieldWriteError(`${label}对应的列"${column}"是${UNSUPPORTED_TYPE_NAMES[type] || `未支持的类型（${type}）`}列，不能从地图写入`)
+  }
+}
+
+/**
+ * 按字段映射把表单数据转换为以列名为键的 fields 对象
+ *
+ * 列名优先使用表中实际存在的 field / aliases，表中不存在对应列的字段会被跳过
+ *
+ * @param input - 表单数据（可以是部分字段）
+ * @param mapping - 该表的字段映射
+ * @param columns - 表中实际存在的列: 列名 -> 列类型（列表没有返回类型时为 undefined）
+ * @throws FieldWriteError 值不符合列的类型，或列的类型不支持写入
+ */
+export function toBitableFields(input: RecordPatch, mapping: TableFieldMapping, columns: Map<string, number | undefined>): Record<string, any> {
+  const fields: Record<string, any> = {}
+
+  const assign = (spec: FieldSpec | undefined, value: any) => {
+    if (!spec || value === undefined) return
+    const column = [spec.field, ...spec.aliases].find((c) => columns.has(c))
+    if (!column) {
+      if (spec.required) throw new Error(`表格中找不到${spec.label || spec.field}对应的列`)
+      return
+    }
+    fields[column] = toFieldValue(spec, value, column, columns.get(column))
+  }
+
+  for (const key of WRITABLE_KEYS) assign(mapping.fields[key], input[key])
+  assign(mapping.fields.location, input.coordinates)
+
+  return fields
+}
+
+/**
+ * 写入后重新拉取记录，更新缓存并广播
+ */
+async function syncWrittenRecord(source: DataSource, recordId: string): Promise<CustomerRecord> {
+  const [record] = await getRecordsByIds(source, [recordId])
+  if (!record) throw new Error(`写入成功，但未能重新获取记录 ${recordId}`)
+
+  const { upserted, failed } = await applyAndPublishRecordChanges(source, [record], [])
+  if (!upserted.length) throw new Error(`写入成功，但记录无法在地图上展示: ${failed[0]?.reason || "unknown"}`)
+  return upserted[0]
+}
+
+/**
+ * 批量写入后重新拉取记录，更新缓存并广播（无法展示的记录不广播，也不报错）
+ */
+async function syncWrittenRecords(source: DataSource, recordIds: string[]): Promise<CustomerRecord[]> {
+  const records = await getRecordsByIds(source, recordIds)
+  const { upserted } = await applyAndPublishRecordChanges(source, records, [])
+  return upserted
+}
+
+async function getColumns(source: DataSource): Promise<Map<string, number | undefined>> {
+  const fields = await getTableFields(source)
+  return new Map(fields.map((f) => [f.field_name, typeof f.type === "number" ? f.type : undefined]))
+}
+
+/**
+ * 新增巡店记录
+ *
+ * @param source - 写入的数据源，默认第一个
+ */
+export async function createCustomerRecord(input: RecordInput, source = getPrimarySource()): Promise<CustomerRecord> {
+  const fields = toBitableFields(input, source.mapping, await getColumns(source))
+  const recordId = await createRecord(source, fields)
+  return syncWrittenRecord(source, recordId)
+}
+
+/**
+ * 批量新增巡店记录（批量导入）
+ *
+ * @param source - 写入的数据源，默认第一个
+ * @param onBatch - 每一批写入成功后调用（见 batchCreateRecords），用于记录哪些行已经写入
+ * @returns 新记录的 record_id
+ */
+export async function createCustomerRecords(
+  inputs: RecordInput[],
+  source = getPrimarySource(),
+  onBatch?: (recordIds: string[], start: number) => Promise<void>
+): Promise<string[]> {
+  if (!inputs.length) return []
+  const columns = await getColumns(source)
+  const fieldsList = inputs.map((input) => toBitableFields(input, source.mapping, columns))
+
+  // 中途失败时，已写入的批次也要同步到地图数据
+  const created: string[] = []
+  try {
+    await batchCreateRecords(source, fieldsList, async (recordIds, start) => {
+      created.push(...recordIds)
+      await onBatch?.(recordIds, start)
+    })
+  } catch (error) {
+    if (created.length) {
+      await syncWrittenRecords(source, created).catch((e) => console.warn("同步已写入的记录失败:", e))
+    }
+    throw error
+  }
+  await syncWrittenRecords(source, created)
+  return created
+}
+
+/**
+ * 编辑巡店记录（写回记录所在的数据源）
+ *
+ * @throws RecordNotFoundError 记录不在任何数据源中
+ */
+export async function updateCustomerRecord(recordId: string, patch: RecordPatch): Promise<CustomerRecord> {
+  const source = await findRecordSource(recordId)
+  if (!source) throw new RecordNotFoundError(recordId)
+  const fields = toBitableFields(patch, source.mapping, await getColumns(source))
+  if (Object.keys(fields).length) {
+    await updateRecord(source, recordId, fields)
+  }
+  return syncWrittenRecord(source, recordId)
+}
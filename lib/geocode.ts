@@ -0,0 +1,280 @@
+/**
+ * =====================================================
+ * 地址解析 (lib/geocode.ts)
+ * =====================================================
+ *
+ * 把地址解析为经纬度（GCJ-02），用于:
+ * - 只有地址、没有坐标的飞书记录（见 lib/feishu/customers.ts）
+ * - 批量导入中没有经纬度的行（见 lib/import.ts）
+ *
+ * 解析服务可替换，由 GEOCODE_PROVIDER 选择:
+ * - amap（默认）: 高德 Web 服务地理编码，需配置 AMAP_WEB_SERVICE_KEY（Web 服务类型的 Key，与前端 JS API 的 Key 不同）
+ * - local: 按本地地址表匹配（GEOCODE_LOCAL_FILE，默认 scripts/fixtures/geocode.json），离线开发和测试用
+ * - none: 不解析
+ * 也可以用 setGeocodeProvider 注入自定义实现
+ *
+ * 解析结果缓存在内存中；配置 GEOCODE_CACHE_FILE 时同时保存到文件，重启后不必重新解析
+ * =====================================================
+ */
+
+import { readFileSync, writeFile } from "fs"
+import path from "path"
+
+/**
+ * 可信度: 精确到门牌/兴趣点为 high，道路/乡镇为 medium，只到区县或更粗为 low
+ */
+export type GeocodeConfidence = "high" | "medium" | "low"
+
+export interface GeocodeResult {
+  coordinates: [number, number] // [经度, 纬度]
+  confidence: GeocodeConfidence
+  level: string // 匹配级别，如 "门牌号"、"兴趣点"、"区县"
+}
+
+/**
+ * 记录上标注的解析信息（不含坐标）
+ */
+export type GeocodeInfo = Pick<GeocodeResult, "confidence" | "level">
+
+export interface GeocodeProvider {
+  name: string
+  /**
+   * @returns 解析不到时返回 null
+   * @throws 服务不可用时抛出（不缓存，稍后重试）
+   */
+  geocode(address: string): Promise<GeocodeResult | null>
+}
+
+const HIGH_LEVELS = new Set(["门牌号", "单元号", "楼栋", "兴趣点"])
+const MEDIUM_LEVELS = new Set(["道路", "道路交叉路口", "村庄", "乡镇", "热点商圈", "开发区"])
+
+/**
+ * 匹配级别 -> 可信度
+ */
+export function confidenceOfLevel(level: string): GeocodeConfidence {
+  if (HIGH_LEVELS.has(level)) return "high"
+  if (MEDIUM_LEVELS.has(level)) return "medium"
+  return "low"
+}
+
+function parseLocation(location: unknown): [number, number] | null {
+  if (typeof location !== "string") return null
+  const [lng, lat] = location.split(",").map(Number)
+  return Number.isFinite(lng) && Number.isFinite(lat) ? [lng, lat] : null
+}
+
+/**
+ * 高德 Web 服务地理编码
+ */
+const amapProvider: GeocodeProvider = {
+  name: "amap",
+  async geocode(address) {
+    const key = process.env.AMAP_WEB_SERVICE_KEY
+    if (!key) throw new Error("缺少环境变量: AMAP_WEB_SERVICE_KEY")
+
+    const params = new URLSearchParams({ key, address, output: "JSON" })
+    const response = await fetch(`https://restapi.amap.com/v3/geocode/geo?${params}`)
+    const data = await response.json()
+    if (data?.status !== "1") throw new Error(`地址解析失败: ${data?.info || response.status}`)
+
+    const geocode = data.geocodes?.[0]
+    const coordinates = parseLocation(geocode?.location)
+    if (!coordinates) return null
+    const level = String(geocode.level || "")
+    return { coordinates, confidence: confidenceOfLevel(level), level }
+  },
+}
+
+/**
+ * 本地地址表: { "河南省郑州市金水区": { "location": "113.66,34.80", "level": "区县" } }
+ * 取地址中包含的最长的一项，模拟"越具体越准"
+ */
+const localProvider: GeocodeProvider = {
+  name: "local",
+  async geocode(address) {
+    const file = path.resolve(process.env.GEOCODE_LOCAL_FILE || "scripts/fixtures/geocode.json")
+    const table: Record<string, { location: string; level?: string }> = JSON.parse(readFileSync(file, "utf8"))
+
+    const key = Object.keys(table)
+      .filter((k) => address.includes(k))
+      .sort((a, b) => b.length - a.length)[0]
+    const coordinates = key ? parseLocation(table[key].location) : null
+    if (!coordinates) return null
+    const level = table[key].level || "兴趣点"
+    return { coordinates, confidence: confidenceOfLevel(level), level }
+  },
+}
+
+let customProvider: GeocodeProvider | null = null
+
+/**
+ * 注入自定义解析服务（传 null 恢复按环境变量选择）
+ */
+export function setGeocodeProvider(provider: GeocodeProvider | null) {
+  customProvider = provider
+}
+
+/**
+ * 当前使用的解析服务，未配置时返回 null
+ */
+export function getGeocodeProvider(): GeocodeProvider | null {
+  if (customProvider) return customProvider
+  switch (process.env.GEOCODE_PROVIDER || "amap") {
+    case "none":
+      return null
+    case "local":
+      return localProvider
+    default:
+      return process.env.AMAP_WEB_SERVICE_KEY ? amapProvider : null
+  }
+}
+
+/**
+ * 是否可以进行地址解析
+ */
+export function isGeocodingConfigured(): boolean {
+  return !!getGeocodeProvider()
+}
+
+// ==================== 缓存 ====================
+
+// 解析失败（服务报错）后多久再重试
+const RETRY_AFTER_MS = 10 * 60 * 1000
+// 每秒最多请求次数（高德个人开发者 Key 的并发量较低）
+const MIN_INTERVAL_MS = 1000 / (Number(process.env.GEOCODE_QPS) || 3)
+
+// 缓存挂在 globalThis 上，开发环境热更新后仍然保留
+const state: {
+  entries: Map<string, GeocodeResult | null> // null 表示解析不到
+  pending: Map<string, Promise<GeocodeResult | null>>
+  failedAt: Map<string, number>
+  queue: Promise<void> // 请求串行执行，控制频率
+  version: number // 有新的解析结果时递增
+  loaded: boolean
+} = ((globalThis as any).__geocodeCache ??= {
+  entries: new Map(),
+  pending: new Map(),
+  failedAt: new Map(),
+  queue: Promise.resolve(),
+  version: 0,
+  loaded: false,
+})
+
+function cacheKey(provider: GeocodeProvider, address: string): string {
+  return `${provider.name}|${address.replace(/\s+/g, "")}`
+}
+
+/**
+ * 首次使用时从 GEOCODE_CACHE_FILE 读取缓存
+ */
+function loadCacheFile() {
+  if (state.loaded) return
+  state.loaded = true
+  const file = process.env.GEOCODE_CACHE_FILE
+  if (!file) return
+  try {
+    const saved: Record<string, GeocodeResult> = JSON.parse(readFileSync(file, "utf8"))
+    for (const [key, result] of Object.entries(saved)) state.entries.set(key, result)
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") console.warn("读取地址解析缓存失败:", error)
+  }
+}
+
+let saveTimer: ReturnType<typeof setTimeout> | null = null
+
+/**
+ * 把解析成功的结果写入 GEOCODE_CACHE_FILE（合并 1 秒内的多次写入）
+ */
+function scheduleSave() {
+  const file = process.env.GEOCODE_CACHE_FILE
+  if (!file || saveTimer) return
+  saveTimer = setTimeout(() => {
+    saveTimer = null
+    const saved: Record<string, GeocodeResult> = {}
+    for (const [key, result] of state.entries) if (result) saved[key] = result
+    writeFile(file, JSON.stringify(saved), (error) => error && console.warn("保存地址解析缓存失败:", error))
+  }, 1000)
+}
+
+/**
+ * 读取缓存
+ *
+ * @returns 已解析过时返回结果（解析不到为 null）；未解析过或未配置解析服务时返回 undefined
+ */
+export function getCachedGeocode(address: string): GeocodeResult | null | undefined {
+  const provider = getGeocodeProvider()
+  if (!provider) return undefined
+  loadCacheFile()
+  return state.entries.get(cacheKey(provider, address))
+}
+
+/**
+ * 缓存版本，有新的解析结果时变化
+ */
+export function getGeocodeVersion(): number {
+  return state.version
+}
+
+/**
+ * 解析地址（优先读缓存）
+ *
+ * @throws 未配置解析服务或服务报错时抛出
+ */
+export async function geocode(address: string): Promise<GeocodeResult | null> {
+  const provider = getGeocodeProvider()
+  if (!provider) throw new Error("未配置地址解析服务")
+  loadCacheFile()
+
+  const key = cacheKey(provider, address)
+  if (state.entries.has(key)) return state.entries.get(key)!
+  const inflight = state.pending.get(key)
+  if (inflight) return inflight
+
+  const sleep = () => new Promise<void>((resolve) => setTimeout(resolve, MIN_INTERVAL_MS))
+  const task = state.queue.then(() => provider.geocode(address))
+  state.queue = task.then(sleep, sleep)
+
+  const request = task
+    .then((result) => {
+      state.entries.set(key, result)
+      state.failedAt.delete(key)
+      state.version++
+      if (result) scheduleSave()
+      return result
+    })
+    .catch((error) => {
+      state.failedAt.set(key, Date.now())
+      throw error
+    })
+    .finally(() => state.pending.delete(key))
+  state.pending.set(key, request)
+  return request
+}
+
+/**
+ * 在后台解析一批地址（已缓存、正在解析、或最近失败过的跳过）
+ *
+ * @returns 本次新解析成功的地址
+ */
+export async function geocodeInBackground(addresses: string[]): Promise<string[]> {
+  const provider = getGeocodeProvider()
+  if (!provider) return []
+  loadCacheFile()
+
+  const todo = [...new Set(addresses)].filter((address) => {
+    const key = cacheKey(provider, address)
+    const failedAt = state.failedAt.get(key)
+    return !state.entries.has(key) && !state.pending.has(key) && !(failedAt && Date.now() - failedAt < RETRY_AFTER_MS)
+  })
+  if (!todo.length) return []
+
+  console.log(`地址解析: ${todo.length} 个地址 (${provider.name})`)
+  const results = await Promise.allSettled(todo.map((address) => geocode(address)))
+  const failed = results.filter((r) => r.status === "rejected")
+  if (failed.length) console.warn(`地址解析失败 ${failed.length} 个:`, (failed[0] as PromiseRejectedResult).reason?.message)
+
+  return todo.filter((_, i) => {
+    const r = results[i]
+    return r.status === "fulfilled" && !!r.value
+  })
+}
@@ -0,0 +1,369 @@
+/**
+ * =====================================================
+ * 批量导入 (lib/import.ts)
+ * =====================================================
+ *
+ * 读取 Excel (.xlsx) / CSV 文件中的巡店记录，导入前逐行校验:
+ * 1. 表头按目标数据源（见 lib/feishu/sources.ts）的字段映射对应到业务字段（列名、别名或 label 相同即可）
+ * 2. 每一行按与飞书记录相同的规则转换（transformRecord），再按新增记录的规则校验
+ * 3. 没有经纬度但有地址的行，尝试解析地址得到坐标（见 lib/geocode.ts）
+ *    每次预览最多请求 IMPORT_MAX_GEOCODE 个新地址，其余地址转到后台解析，解析完成后重新上传即可
+ *
+ * 校验通过的行由调用方通过 createCustomerRecords 批量写入多维表格
+ * 每次预览对应一个导入批次 id，写入成功的行记录在 IMPORT_LOG_FILE（默认 data/import-log.json）中，
+ * 中途失败后重试同一批次时跳过已写入的行，不会重复新增
+ * =====================================================
+ */
+
+import ExcelJS from "exceljs"
+import type { MappedFieldKey, TableFieldMapping } from "@/lib/feishu/field-mapping"
+import { type DataSource, getPrimarySource } from "@/lib/feishu/sources"
+import { transformRecord } from "@/lib/feishu/transform"
+import { type RecordInput, recordInputSchema } from "@/lib/feishu/write"
+import { type GeocodeInfo, geocode, geocodeInBackground, getCachedGeocode, isGeocodingConfigured } from "@/lib/geocode"
+import { readJsonFile, updateJsonFile } from "@/lib/json-store"
+
+// 单个文件最多导入的行数 / 字节数
+export const IMPORT_MAX_ROWS = 2000
+export const IMPORT_MAX_BYTES = 5 * 1024 * 1024
+
+// 每次预览最多解析的新地址数（解析按 GEOCODE_QPS 限速，默认每秒 3 个）
+export const IMPORT_MAX_GEOCODE = 50
+
+// 导入记录保留的天数
+const IMPORT_LOG_DAYS = 7
+
+type Cell = string | number | Date | null
+
+/**
+ * 表头与业务字段的对应关系（key 为 null 表示该列不导入）
+ */
+export interface ImportColumn {
+  header: string
+  key: MappedFieldKey | null
+  label: string | null
+}
+
+/**
+ * 一行的校验结果
+ */
+export interface ImportRow {
+  row: number // 文件中的行号（表头为第 1 行）
+  name: string
+  input: RecordInput | null // 校验通过时为要写入的记录
+  errors: string[]
+  geocode: GeocodeInfo | null // 坐标由地址解析得到时的可信度
+}
+
+export interface ImportPreview {
+  columns: ImportColumn[]
+  rows: ImportRow[]
+  total: number
+  valid: number
+  geocoded: number
+  geocodePending: number // 地址转到后台解析、暂不能导入的行数
+}
+
+type ImportLog = Record<string, { createdAt: string; rows: Record<string, string> }>
+
+/**
+ * 解析 CSV 文本（支持引号包裹、引号转义和单元格内换行）
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch !== '"') cell += ch
+      else if (text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else quoted = false
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ",") {
+      row.push(cell)
+      cell = ""
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += ch
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+/**
+ * CSV 解码: 优先 UTF-8（去掉 BOM），不是合法 UTF-8 时按 GBK（Excel 中文版默认另存的编码）
+ */
+function decodeCsv(data: Uint8Array): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data).replace(/^\uFEFF/, "")
+  } catch {
+    return new TextDecoder("gbk").decode(data)
+  }
+}
+
+/**
+ * Excel 单元格的值统一为 文本 / 数字 / 日期
+ */
+function cellValue(value: ExcelJS.CellValue): Cell {
+  if (value === null || value === undefined) return null
+  if (typeof value === "string" || typeof value === "number" || value instanceof Date) return value
+  if (typeof value === "boolean") return String(value)
+  if ("richText" in value) return value.richText.map((t) => t.text).join("")
+  if ("hyperlink" in value) return String(value.text)
+  if ("result" in value) return cellValue(value.result as ExcelJS.CellValue) // 公式取计算结果
+  return null
+}
+
+/**
+ * 读取文件的第一个工作表
+ *
+ * @returns 按行排列的单元格（第一行为表头）
+ */
+export async function readSpreadsheet(data: Uint8Array, filename: string): Promise<Cell[][]> {
+  const ext = filename.toLowerCase().split(".").pop()
+
+  if (ext === "csv") {
+    return parseCsv(decodeCsv(data))
+  }
+
+  if (ext === "xlsx") {
+    const workbook = new ExcelJS.Workbook()
+    await workbook.xlsx.load(new Uint8Array(data).buffer) // 复制一份，得到只含文件内容的 ArrayBuffer
+    const sheet = workbook.worksheets[0]
+    if (!sheet) return []
+
+    const grid: Cell[][] = []
+    for (let r = 1; r <= sheet.rowCount; r++) {
+      const row = sheet.getRow(r)
+      const cells: Cell[] = []
+      for (let c = 1; c <= sheet.columnCount; c++) cells.push(cellValue(row.getCell(c).value))
+      grid.push(cells)
+    }
+    return grid
+  }
+
+  throw new Error("只支持 .xlsx 和 .csv 文件")
+}
+
+/**
+ * 表头 -> 业务字段（与字段映射中的列名、别名或 label 相同，不区分大小写）
+ * 多列对应同一个业务字段时只取第一列
+ */
+export function matchColumns(headers: string[], mapping: TableFieldMapping): ImportColumn[] {
+  const norm = (s: string) => s.trim().toLowerCase()
+  const taken = new Set<MappedFieldKey>()
+
+  return headers.map((header) => {
+    const entry = Object.entries(mapping.fields).find(
+      ([key, spec]) =>
+        spec &&
+        !taken.has(key as MappedFieldKey) &&
+        [spec.field, ...spec.aliases, spec.label].some((name) => name && norm(name) === norm(header))
+    )
+    if (!entry || !header) return { header, key: null, label: null }
+
+    const key = entry[0] as MappedFieldKey
+    taken.add(key)
+    return { header, key, label: entry[1]?.label || entry[1]?.field || key }
+  })
+}
+
+/**
+ * 日期单元格 -> 毫秒时间戳（UTC 当天 0 点，与写回飞书时一致）
+ * 支持 Excel 日期、Excel 日期序列号和 2025-01-01 / 2025/1/1 / 2025年1月1日
+ *
+ * @returns 无法识别时返回 null
+ */
+function toTimestamp(value: Cell): number | null {
+  if (value instanceof Date) return Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate())
+  if (typeof value === "number") {
+    // Excel 日期序列号（1900 日期系统），约 1954 ~ 2119 年
+    if (value > 20000 && value < 80000) return Date.UTC(1899, 11, 30) + Math.round(value) * 86400000
+    return null
+  }
+  const m = String(value)
+    .trim()
+    .match(/^(\d{4})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})\s*日?$/)
+  return m ? Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])) : null
+}
+
+const isEmpty = (value: Cell) => value === null || (typeof value === "string" && !value.trim())
+
+/**
+ * 读取并逐行校验导入文件（不写入）
+ *
+ * @param data - 文件内容
+ * @param filename - 文件名（按扩展名区分 xlsx / csv）
+ * @param source - 导入的目标数据源，默认第一个
+ * @throws 文件格式不支持、没有数据、缺少门店名称列或行数超限时抛出
+ */
+export async function previewImport(data: Uint8Array, filename: string, source: DataSource = getPrimarySource()): Promise<ImportPreview> {
+  const [headerRow, ...body] = await readSpreadsheet(data, filename)
+  if (!headerRow) throw new Error("文件中没有数据")
+
+  const mapping = source.mapping
+  const specs = mapping.fields
+  const columns = matchColumns(
+    headerRow.map((h) => (h === null ? "" : String(h).trim())),
+    mapping
+  )
+  if (!columns.some((col) => col.key === "name")) {
+    throw new Error(`找不到${specs.name?.label || "门店名称"}列，请检查表头`)
+  }
+
+  const dataRows = body.map((cells, i) => ({ row: i + 2, cells })).filter(({ cells }) => !cells.every(isEmpty))
+  if (dataRows.length > IMPORT_MAX_ROWS) {
+    throw new Error(`一次最多导入 ${IMPORT_MAX_ROWS} 行，文件中有 ${dataRows.length} 行`)
+  }
+
+  const canGeocode = isGeocodingConfigured()
+  let geocodeBudget = IMPORT_MAX_GEOCODE
+  const deferred: string[] = [] // 超过本次解析上限、转到后台解析的地址
+
+  const rows: ImportRow[] = []
+  for (const { row, cells } of dataRows) {
+    const errors: string[] = []
+    const fields: Record<string, any> = {}
+
+    columns.forEach((col, c) => {
+      const spec = col.key && specs[col.key]
+      const value = cells[c]
+      if (!spec || value === undefined || isEmpty(value)) return
+
+      if (spec.type === "date") {
+        const ts = toTimestamp(value)
+        if (ts === null) errors.push(`无法识别的${spec.label || spec.field}: ${value}`)
+        else fields[spec.field] = ts
+        return
+      }
+      if (value instanceof Date) fields[spec.field] = value.toISOString().slice(0, 10)
+      else fields[spec.field] = typeof value === "string" ? value.trim() : value
+    })
+
+    // 没有坐标但有地址时解析地址
+    const hasCoordinates =
+      (specs.location && fields[specs.location.field] !== undefined) ||
+      (specs.latitude && specs.longitude && fields[specs.latitude.field] !== undefined && fields[specs.longitude.field] !== undefined)
+    const address = specs.address ? fields[specs.address.field] : undefined
+    let rowGeocode: GeocodeInfo | null = null
+    let geocodedCoordinates: [number, number] | null = null
+    if (!hasCoordinates && address && specs.location) {
+      // 已解析过的地址直接读缓存，不占本次的解析数
+      const isNew = canGeocode && getCachedGeocode(String(address)) === undefined
+      if (!canGeocode) {
+        errors.push("缺少经纬度（未配置地址解析，无法根据地址补全）")
+      } else if (isNew && geocodeBudget <= 0) {
+        deferred.push(String(address))
+        errors.push(`地址待解析（每次最多解析 ${IMPORT_MAX_GEOCODE} 个新地址，其余在后台解析，稍后重新上传文件即可）`)
+      } else {
+        if (isNew) geocodeBudget--
+        try {
+          // 结果有缓存，同一个地址只解析一次
+          const result = await geocode(String(address))
+          if (result) {
+            fields[specs.location.field] = result.coordinates.join(",")
+            geocodedCoordinates = result.coordinates
+            rowGeocode = { confidence: result.confidence, level: result.level }
+          } else {
+            errors.push(`地址无法解析为经纬度: ${address}`)
+          }
+        } catch (error: any) {
+          errors.push(error?.message || "地址解析失败")
+        }
+      }
+    }
+
+    const name = specs.name && fields[specs.name.field] ? String(fields[specs.name.field]) : ""
+    let input: RecordInput | null = null
+
+    if (!errors.length) {
+      const out = transformRecord({ fields }, row, mapping, source.id)
+      if (!out.result) {
+        errors.push(out.reason || "无法转换")
+      } else {
+        const c = out.result
+        const parsed = recordInputSchema.safeParse({
+          name: c.name,
+          // 解析结果已是 GCJ-02，不按定位字段声明的坐标系转换
+          coordinates: geocodedCoordinates || c.coordinates,
+          address: c.address || undefined,
+          productName: c.productName !== specs.productName?.default ? c.productName : undefined,
+          brand: c.brand || undefined,
+          discountprice: c.discountprice || undefined,
+          distributor: c.distributor || undefined,
+          region: c.region || undefined,
+          district: c.district || undefined,
+          record_date: c.record_date,
+        })
+        if (parsed.success) input = parsed.data
+        else errors.push(...parsed.error.issues.map((issue) => issue.message))
+      }
+    }
+
+    rows.push({ row, name, input, errors, geocode: rowGeocode })
+  }
+
+  if (deferred.length) {
+    geocodeInBackground(deferred).catch((error) => console.warn("后台地址解析失败:", error))
+  }
+
+  return {
+    columns,
+    rows,
+    total: rows.length,
+    valid: rows.filter((r) => r.input).length,
+    geocoded: rows.filter((r) => r.geocode).length,
+    geocodePending: deferred.length,
+  }
+}
+
+function importLogFile(): string {
+  return process.env.IMPORT_LOG_FILE || "data/import-log.json"
+}
+
+/**
+ * 某个导入批次中已写入的行
+ *
+ * @returns 行号 -> record_id
+ */
+export async function getImportedRows(importId: string): Promise<Record<string, string>> {
+  const log = await readJsonFile<ImportLog>(importLogFile(), {})
+  return log[importId]?.rows || {}
+}
+
+/**
+ * 记录一批已写入的行（同时清理过期的导入记录）
+ *
+ * @param rows - 行号，与 recordIds 一一对应
+ */
+export async function markRowsImported(importId: string, rows: number[], recordIds: string[]): Promise<void> {
+  const now = new Date()
+  const expired = now.getTime() - IMPORT_LOG_DAYS * 24 * 60 * 60 * 1000
+
+  await updateJsonFile<ImportLog>(importLogFile(), {}, (log) => {
+    const next: ImportLog = {}
+    for (const [id, entry] of Object.entries(log)) {
+      if (new Date(entry.createdAt).getTime() > expired) next[id] = entry
+    }
+    const entry = next[importId] || { createdAt: now.toISOString(), rows: {} }
+    const added = Object.fromEntries(rows.map((row, i) => [String(row), recordIds[i]]))
+    next[importId] = { ...entry, rows: { ...entry.rows, ...added } }
+    return next
+  })
+}
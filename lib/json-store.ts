@@ -0,0 +1,54 @@
+/**
+ * =====================================================
+ * 本地 JSON 文件存储 (lib/json-store.ts)
+ * =====================================================
+ *
+ * 保存少量需要在服务端持久化的数据（如地图上保存的范围），不引入数据库
+ * - 读取: 文件不存在时返回默认值
+ * - 写入: 同一文件的写入排队执行，读-改-写不会互相覆盖；
+ *   先写临时文件再改名，进程中途退出不会留下写了一半的文件
+ * =====================================================
+ */
+
+import { mkdir, readFile, rename, writeFile } from "fs/promises"
+import path from "path"
+
+// 各文件的写入队列，挂在 globalThis 上：不同路由、开发环境热更新后都排在同一个队列里
+const queues: Map<string, Promise<unknown>> = ((globalThis as any).__jsonFileQueues ??= new Map())
+
+/**
+ * 读取 JSON 文件，文件不存在时返回 fallback
+ */
+export async function readJsonFile<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path.resolve(file), "utf8"))
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return fallback
+    throw error
+  }
+}
+
+/**
+ * 读取 → 修改 → 写回（同一文件依次执行）
+ *
+ * @param update - 返回修改后的数据；抛出错误时不写入
+ * @returns 写入后的数据
+ */
+export function updateJsonFile<T>(file: string, fallback: T, update: (data: T) => T): Promise<T> {
+  const target = path.resolve(file)
+  const previous = queues.get(target) || Promise.resolve()
+
+  const next = previous
+    .catch(() => undefined) // 上一次写入失败不影响这一次
+    .then(async () => {
+      const data = update(await readJsonFile(target, fallback))
+      await mkdir(path.dirname(target), { recursive: true })
+      const tmp = `${target}.${process.pid}.tmp`
+      await writeFile(tmp, JSON.stringify(data, null, 2))
+      await rename(tmp, target)
+      return data
+    })
+
+  queues.set(target, next)
+  return next
+}
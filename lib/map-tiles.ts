@@ -0,0 +1,75 @@
+/**
+ * =====================================================
+ * 地图视野分块 (lib/map-tiles.ts)
+ * =====================================================
+ *
+ * 地图只加载当前视野内的门店：把经纬度平面按固定网格切成小块（tile），
+ * 已加载过的块缓存在内存里，平移/缩放时只请求还没加载的块
+ *
+ * 块的大小随缩放级别变化：缩得越小，每块覆盖的范围越大，避免请求数量过多
+ * =====================================================
+ */
+
+// 边界 [西经度, 南纬度, 东经度, 北纬度]
+export type Bounds = [number, number, number, number]
+
+export interface Tile {
+  key: string // 缓存键（不含筛选条件）
+  size: number // 块边长（度）
+  x: number
+  y: number
+}
+
+/**
+ * 根据缩放级别决定块边长（度）
+ */
+export function tileSizeForZoom(zoom: number): number {
+  if (zoom <= 5) return 8
+  if (zoom <= 7) return 4
+  if (zoom <= 9) return 1
+  if (zoom <= 12) return 0.25
+  return 0.0625
+}
+
+/**
+ * 向四周扩大边界（按宽高的比例），平移时边缘的门店已提前加载好
+ */
+export function expandBounds([w, s, e, n]: Bounds, ratio: number): Bounds {
+  const dx = (e - w) * ratio
+  const dy = (n - s) * ratio
+  return [Math.max(-180, w - dx), Math.max(-90, s - dy), Math.min(180, e + dx), Math.min(90, n + dy)]
+}
+
+/**
+ * 列出覆盖某个范围的所有块
+ */
+export function tilesForBounds([w, s, e, n]: Bounds, size: number): Tile[] {
+  const tiles: Tile[] = []
+  for (let x = Math.floor(w / size); x <= Math.floor(e / size); x++) {
+    for (let y = Math.floor(s / size); y <= Math.floor(n / size); y++) {
+      tiles.push({ key: `${size}:${x}:${y}`, size, x, y })
+    }
+  }
+  return tiles
+}
+
+/**
+ * 某个坐标所在块的缓存键
+ */
+export function tileKeyOf([lng, lat]: [number, number], size: number): string {
+  return `${size}:${Math.floor(lng / size)}:${Math.floor(lat / size)}`
+}
+
+/**
+ * 多个块合起来的外接矩形（用一次请求加载多个块）
+ */
+export function unionBounds(tiles: Tile[]): Bounds {
+  let w = Infinity, s = Infinity, e = -Infinity, n = -Infinity
+  for (const t of tiles) {
+    w = Math.min(w, t.x * t.size)
+    s = Math.min(s, t.y * t.size)
+    e = Math.max(e, (t.x + 1) * t.size)
+    n = Math.max(n, (t.y + 1) * t.size)
+  }
+  return [w, s, e, n]
+}
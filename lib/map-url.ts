@@ -0,0 +1,83 @@
+/**
+ * =====================================================
+ * 地图链接参数 (lib/map-url.ts)
+ * =====================================================
+ *
+ * 把地图的筛选条件、选中的门店和视野编码为页面 URL 的查询参数，
+ * 用于分享链接、推送消息中的"在地图中查看"以及浏览器前进/后退
+ *
+ * - region / brand / source（可重复）、q、from、to、shape: 筛选条件，参数名与 /api/customer-data 保持一致
+ * - store: 选中的门店 storeId
+ * - record: 选中的巡店记录 record_id（供外部系统直接链接到某条记录）
+ * - z: 缩放级别，c: 中心点 "经度,纬度"
+ * =====================================================
+ */
+
+import { type MapShape, encodeShape, parseShape } from "@/lib/shapes"
+
+// 地图的缩放范围（高德地图 2D 模式的默认范围，地图初始化时显式指定）
+export const MIN_MAP_ZOOM = 2
+export const MAX_MAP_ZOOM = 20
+
+export interface MapFilterState {
+  regions: string[]
+  brands: string[]
+  sources: string[] // 显示的数据源图层，空数组表示全部
+  q: string
+  from: string // YYYY-MM-DD，空字符串表示不限
+  to: string
+  shape: MapShape | null // 地图上画出的范围
+}
+
+export interface MapViewState {
+  store: string
+  record: string
+  zoom: number | null
+  center: [number, number] | null
+}
+
+export type MapUrlState = MapFilterState & MapViewState
+
+/**
+ * 地图状态 -> 查询参数（空值不写入）
+ */
+export function toMapSearchParams(state: MapFilterState & Partial<MapViewState>): URLSearchParams {
+  const params = new URLSearchParams()
+  state.regions.forEach((r) => params.append("region", r))
+  state.brands.forEach((b) => params.append("brand", b))
+  state.sources.forEach((s) => params.append("source", s))
+  if (state.q) params.set("q", state.q)
+  if (state.from) params.set("from", state.from)
+  if (state.to) params.set("to", state.to)
+  if (state.shape) params.set("shape", encodeShape(state.shape))
+  if (state.store) params.set("store", state.store)
+  if (state.record) params.set("record", state.record)
+  if (state.zoom) params.set("z", String(Math.round(state.zoom * 10) / 10))
+  if (state.center) params.set("c", state.center.map((n) => n.toFixed(5)).join(","))
+  return params
+}
+
+/**
+ * 查询参数 -> 地图状态（不合法的值忽略）
+ */
+export function parseMapSearchParams(params: URLSearchParams): MapUrlState {
+  const date = (v: string | null) => (v && /^\d{4}-\d{2}-\d{2}$/.test(v) ? v : "")
+
+  const zoom = Number(params.get("z"))
+  const center = (params.get("c") || "").split(",").map(Number)
+  const validCenter = center.length === 2 && center.every(Number.isFinite) && Math.abs(center[0]) <= 180 && Math.abs(center[1]) <= 90
+
+  return {
+    regions: params.getAll("region").filter(Boolean),
+    brands: params.getAll("brand").filter(Boolean),
+    sources: params.getAll("source").filter(Boolean),
+    q: params.get("q") || "",
+    from: date(params.get("from")),
+    to: date(params.get("to")),
+    shape: parseShape(params.get("shape")),
+    store: params.get("store") || "",
+    record: params.get("record") || "",
+    zoom: Number.isFinite(zoom) && zoom >= MIN_MAP_ZOOM && zoom <= MAX_MAP_ZOOM ? zoom : null,
+    center: validCenter ? (center as [number, number]) : null,
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * =====================================================
+ * 自有门店 (lib/own-stores.ts)
+ * =====================================================
+ *
+ * 自有门店网络作为地图上的对比图层，来源在 config/data-sources.json 的 ownStores 中配置（见 lib/feishu/sources.ts）:
+ * - bitable: 一张多维表格，按字段映射读取门店名称、定位、地址、省区（与竞品记录共用记录缓存）
+ * - file: 本地 .csv / .xlsx / .json 文件，文件修改后自动重新读取
+ *   表头（JSON 为属性名）: id/门店编号、name/门店名称、lng/经度、lat/纬度、address/地址、region/省区
+ *   坐标系由 coordSystem 声明（默认 gcj02），读取时统一转换为 GCJ-02
+ *
+ * 周边竞品分析: 每家自有门店 N 公里内的竞品记录数、竞品门店数、各品牌记录数和最近的竞品门店
+ * =====================================================
+ */
+
+import { readFileSync, statSync } from "fs"
+import path from "path"
+import { type CoordSystem, distanceMeters, toGcj02 } from "@/lib/coords"
+import { splitBrands } from "@/lib/customer-query"
+import { getFieldMapping } from "@/lib/feishu/field-mapping"
+import { getCachedRecords } from "@/lib/feishu/record-cache"
+import { type DataSource, getOwnStoresConfig } from "@/lib/feishu/sources"
+import { type CustomerRecord, transformRecord } from "@/lib/feishu/transform"
+import { readSpreadsheet } from "@/lib/import"
+
+// 自有门店在记录缓存中的 id，不能与 config/data-sources.json 中的数据源 id 重复
+const OWN_STORES_SOURCE_ID = "__own_stores"
+
+// 周边竞品分析的半径范围（公里）
+export const DEFAULT_COMPETITION_RADIUS_KM = 3
+export const MAX_COMPETITION_RADIUS_KM = 50
+
+export interface OwnStore {
+  id: string
+  name: string
+  coordinates: [number, number] // GCJ-02 [经度, 纬度]
+  address: string
+  region: string
+}
+
+export interface OwnStoreList {
+  displayName: string
+  stores: OwnStore[]
+  skipped: number // 缺少名称或坐标而跳过的行/记录数
+}
+
+export interface NearbyCompetitor {
+  id: string // 记录 record_id
+  storeId: string
+  name: string
+  brand: string
+  productName: string
+  record_date: string | null
+  distance: number // 米
+}
+
+export interface CompetitionSummary {
+  storeId: string // 自有门店 id
+  records: number // 半径内的竞品记录数
+  stores: number // 半径内的竞品门店数
+  brands: Record<string, number> // 品牌 -> 记录数
+  nearest: NearbyCompetitor | null
+}
+
+// 文件来源: 按修改时间缓存；多维表格来源: 按记录缓存版本缓存
+let fileMemo: { file: string; mtimeMs: number; list: OwnStoreList } | null = null
+let bitableMemo: { version: string; list: OwnStoreList } | null = null
+
+// 表头别名（不区分大小写）
+const COLUMN_ALIASES: Record<"id" | "name" | "lng" | "lat" | "address" | "region", string[]> = {
+  id: ["id", "门店编号", "门店id", "编号"],
+  name: ["name", "门店名称", "门店", "名称"],
+  lng: ["lng", "longitude", "经度"],
+  lat: ["lat", "latitude", "纬度"],
+  address: ["address", "地址", "门店地址"],
+  region: ["region", "省区"],
+}
+
+/**
+ * 一行数据（表头 -> 值）转换为门店，缺少名称或坐标时返回 null
+ */
+function toOwnStore(row: Record<string, unknown>, index: number, coordSystem: CoordSystem): OwnStore | null {
+  const byKey = new Map(Object.entries(row).map(([key, value]) => [key.trim().toLowerCase(), value]))
+  const read = (key: keyof typeof COLUMN_ALIASES) => {
+    const alias = COLUMN_ALIASES[key].find((a) => byKey.has(a))
+    const value = alias ? byKey.get(alias) : undefined
+    return value === null || value === undefined ? "" : String(value).trim()
+  }
+
+  const name = read("name")
+  const lng = parseFloat(read("lng"))
+  const lat = parseFloat(read("lat"))
+  if (!name || !Number.isFinite(lng) || !Number.isFinite(lat) || Math.abs(lng) > 180 || Math.abs(lat) > 90) return null
+
+  return {
+    id: read("id") || `own-${index + 1}`,
+    name,
+    coordinates: toGcj02([lng, lat], coordSystem),
+    address: read("address"),
+    region: read("region"),
+  }
+}
+
+/**
+ * 读取文件中的门店（JSON 为数组或 { stores: [...] }，表格第一行为表头）
+ */
+async function readStoreFile(file: string): Promise<Record<string, unknown>[]> {
+  const data = readFileSync(file)
+  if (file.toLowerCase().endsWith(".json")) {
+    const json = JSON.parse(data.toString("utf8"))
+    const rows = Array.isArray(json) ? json : json?.stores
+    if (!Array.isArray(rows)) throw new Error("自有门店 JSON 应为数组或 { stores: [...] }")
+    return rows
+  }
+
+  const [headers = [], ...rows] = await readSpreadsheet(new Uint8Array(data), file)
+  return rows.map((cells) => Object.fromEntries(headers.map((header, i) => [String(header ?? ""), cells[i] ?? null])))
+}
+
+function buildList(displayName: string, candidates: Array<OwnStore | null>): OwnStoreList {
+  const stores = candidates.filter((s): s is OwnStore => s !== null)
+  const skipped = candidates.length - stores.length
+  if (skipped) console.warn(`自有门店: ${skipped} 条缺少名称或坐标，已跳过`)
+  return { displayName, stores, skipped }
+}
+
+/**
+ * 读取自有门店，没有配置时返回 null
+ *
+ * @throws 文件不存在、格式错误或拉取多维表格失败时抛出错误
+ */
+export async function getOwnStores(): Promise<OwnStoreList | null> {
+  const config = getOwnStoresConfig()
+  if (!config) return null
+  const displayName = config.displayName || "自有门店"
+
+  if (config.type === "file") {
+    const file = path.resolve(config.path)
+    const { mtimeMs } = statSync(file)
+    if (fileMemo && fileMemo.file === file && fileMemo.mtimeMs === mtimeMs) return fileMemo.list
+
+    const rows = await readStoreFile(file)
+    const list = buildList(displayName, rows.map((row, i) => toOwnStore(row, i, config.coordSystem || "gcj02")))
+    fileMemo = { file, mtimeMs, list }
+    return list
+  }
+
+  const mapping = getFieldMapping(config.mapping || config.tableId)
+  const source: DataSource = {
+    id: OWN_STORES_SOURCE_ID,
+    displayName,
+    appToken: config.appToken || process.env.FEISHU_APP_TOKEN || "",
+    tableId: config.tableId,
+    mapping,
+    color: "",
+  }
+  const snapshot = await getCachedRecords(source)
+  if (bitableMemo && bitableMemo.version === snapshot.version) return bitableMemo.list
+
+  const list = buildList(
+    displayName,
+    [...snapshot.records.values()].map((record, i) => {
+      const { result } = transformRecord(record, i, mapping, OWN_STORES_SOURCE_ID)
+      return result ? { id: result.id, name: result.name, coordinates: result.coordinates, address: result.address, region: result.region } : null
+    })
+  )
+  bitableMemo = { version: snapshot.version, list }
+  return list
+}
+
+/**
+ * 某家自有门店半径内的竞品记录（近的在前）
+ */
+export function findNearbyCompetitors(store: OwnStore, competitors: CustomerRecord[], radiusKm: number): NearbyCompetitor[] {
+  const radius = radiusKm * 1000
+  // 先按经纬度粗筛，减少距离计算（1 纬度约 111 公里）
+  const dLat = radiusKm / 111
+  const dLng = dLat / Math.max(Math.cos((store.coordinates[1] * Math.PI) / 180), 0.01)
+  const [lng, lat] = store.coordinates
+
+  const nearby: NearbyCompetitor[] = []
+  for (const c of competitors) {
+    const [cLng, cLat] = c.coordinates
+    if (Math.abs(cLng - lng) > dLng || Math.abs(cLat - lat) > dLat) continue
+    const distance = distanceMeters(store.coordinates, c.coordinates)
+    if (distance > radius) continue
+    nearby.push({
+      id: c.id,
+      storeId: c.storeId || c.id,
+      name: c.name,
+      brand: c.brand,
+      productName: c.productName,
+      record_date: c.record_date,
+      distance: Math.round(distance),
+    })
+  }
+  return nearby.sort((a, b) => a.distance - b.distance)
+}
+
+/**
+ * 周边竞品分析
+ *
+ * @param competitors - 参与分析的竞品记录（已按筛选条件过滤）
+ */
+export function analyzeCompetition(stores: OwnStore[], competitors: CustomerRecord[], radiusKm: number): CompetitionSummary[] {
+  return stores.map((store) => {
+    const nearby = findNearbyCompetitors(store, competitors, radiusKm)
+    const brands: Record<string, number> = {}
+    for (const c of nearby) {
+      for (const b of splitBrands(c.brand)) brands[b] = (brands[b] || 0) + 1
+    }
+    return {
+      storeId: store.id,
+      records: nearby.length,
+      stores: new Set(nearby.map((c) => c.storeId)).size,
+      brands,
+      nearest: nearby[0] || null,
+    }
+  })
+}
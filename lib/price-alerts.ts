@@ -0,0 +1,171 @@
+/**
+ * =====================================================
+ * 价格变动提醒 (lib/price-alerts.ts)
+ * =====================================================
+ *
+ * 对同一门店（见 lib/stores.ts）同一产品的相邻两次巡店做比较，找出:
+ * - price_drop: 实际成交价下降
+ * - new_promo: 出现了新的促销（上次没有促销，或促销方式变了）
+ *
+ * 结果用于地图上的"最新动态"面板和推送到飞书群的摘要
+ * =====================================================
+ */
+
+import { type CustomerQuery, queryCustomers } from "@/lib/customer-query"
+import type { BotMessage } from "@/lib/feishu/bot"
+import { getCustomerDataset } from "@/lib/feishu/customers"
+import type { CustomerRecord } from "@/lib/feishu/transform"
+import { type ParsedPrice, effectivePrice } from "@/lib/price"
+import { compareVisits } from "@/lib/stores"
+
+export type PriceAlertKind = "price_drop" | "new_promo"
+
+export interface PriceAlert {
+  id: string // 本次巡店的 record_id
+  kinds: PriceAlertKind[]
+  storeId: string
+  record: CustomerRecord // 本次巡店
+  previous: CustomerRecord // 上一次巡店
+  previousPrice: number | null
+  currentPrice: number | null
+  changeRate: number | null // 价格变化比例，-0.2 表示降价 20%
+  promo: string | null // 本次的促销
+  summary: string // 一句话描述，如 "洗衣粉 1kg 19.9 → 15.9 元（-20.1%），新促销: 买二送一"
+}
+
+// 降价超过这个比例才提醒，避免手填价格的小误差
+export const PRICE_DROP_THRESHOLD = 0.01
+
+/**
+ * 促销描述: 有明确促销方式时用促销方式，只有促销价/折扣时记为"折扣"
+ */
+function promoLabel(price: ParsedPrice): string | null {
+  if (price.promoType) return price.promoType
+  if (price.promoPrice !== null || price.discountRate !== null) return "折扣"
+  return null
+}
+
+function normalizeProduct(name: string): string {
+  return (name || "").replace(/\s+/g, "").toLowerCase()
+}
+
+/**
+ * 比较相邻两次巡店，没有变化时返回 null
+ */
+function compareVisitPair(storeId: string, previous: CustomerRecord, current: CustomerRecord): PriceAlert | null {
+  const kinds: PriceAlertKind[] = []
+
+  const previousPrice = effectivePrice(previous.price)
+  const currentPrice = effectivePrice(current.price)
+  let changeRate: number | null = null
+  if (previousPrice !== null && currentPrice !== null) {
+    changeRate = (currentPrice - previousPrice) / previousPrice
+    if (changeRate <= -PRICE_DROP_THRESHOLD) kinds.push("price_drop")
+  }
+
+  const promo = promoLabel(current.price)
+  if (promo && promo !== promoLabel(previous.price)) kinds.push("new_promo")
+
+  if (!kinds.length) return null
+
+  const parts = [current.productName]
+  if (kinds.includes("price_drop")) {
+    parts.push(`${previousPrice} → ${currentPrice} 元（${((changeRate || 0) * 100).toFixed(1)}%）`)
+  }
+  if (kinds.includes("new_promo")) parts.push(`新促销: ${promo}`)
+
+  return {
+    id: current.id,
+    kinds,
+    storeId,
+    record: current,
+    previous,
+    previousPrice,
+    currentPrice,
+    changeRate,
+    promo,
+    summary: parts.join(" "),
+  }
+}
+
+/**
+ * 计算价格变动提醒（按巡店日期从新到旧排列）
+ *
+ * @param customers - 已打上 storeId 的记录（getCustomerDataset 的结果）
+ */
+export function computePriceAlerts(customers: CustomerRecord[]): PriceAlert[] {
+  // 门店 + 产品 -> 巡店记录；没有日期的记录无法排先后，不参与比较
+  const series = new Map<string, CustomerRecord[]>()
+  for (const c of customers) {
+    if (!c.storeId || !c.record_date) continue
+    const key = `${c.storeId}|${normalizeProduct(c.productName)}`
+    const list = series.get(key)
+    if (list) list.push(c)
+    else series.set(key, [c])
+  }
+
+  const alerts: PriceAlert[] = []
+  for (const visits of series.values()) {
+    visits.sort(compareVisits)
+    for (let i = 1; i < visits.length; i++) {
+      const alert = compareVisitPair(visits[i].storeId!, visits[i - 1], visits[i])
+      if (alert) alerts.push(alert)
+    }
+  }
+
+  return alerts.sort((a, b) => compareVisits(b.record, a.record))
+}
+
+// 按数据集记忆计算结果，数据不变时不重复计算
+const memo = new WeakMap<CustomerRecord[], PriceAlert[]>()
+
+/**
+ * 按筛选条件获取价格变动提醒
+ * 筛选条件与 /api/customer-data 相同（见 lib/customer-query.ts），作用于本次巡店的记录，
+ * 例如 from=2025-01-01 表示 2025-01-01 及之后的巡店中发现的变动
+ */
+export async function getPriceAlerts(query: CustomerQuery): Promise<PriceAlert[]> {
+  const { customers } = await getCustomerDataset()
+
+  let alerts = memo.get(customers)
+  if (!alerts) {
+    alerts = computePriceAlerts(customers)
+    memo.set(customers, alerts)
+  }
+
+  const matched = new Set(queryCustomers(customers, { ...query, limit: null, offset: 0 }).customers.map((c) => c.id))
+  return alerts.filter((alert) => matched.has(alert.id))
+}
+
+// 推送摘要中最多列出的条数
+export const MAX_DIGEST_ITEMS = 20
+
+/**
+ * 组装推送到飞书群的摘要（富文本消息）
+ *
+ * @param alerts - 要推送的提醒（最多列出 MAX_DIGEST_ITEMS 条）
+ * @param title - 标题，如 "竞品价格动态（2025-01-01 起）"
+ * @param link - 地图链接（可选）
+ */
+export function buildAlertDigest(alerts: PriceAlert[], title: string, link?: string): BotMessage {
+  const lines: Array<Array<Record<string, string>>> = alerts.slice(0, MAX_DIGEST_ITEMS).map((alert) => {
+    const { record } = alert
+    const where = [record.region, record.name].filter(Boolean).join(" · ")
+    return [{ tag: "text", text: `${record.record_date} ${where}（${record.brand || "未知品牌"}）: ${alert.summary}` }]
+  })
+  if (alerts.length > MAX_DIGEST_ITEMS) {
+    lines.push([{ tag: "text", text: `…… 另有 ${alerts.length - MAX_DIGEST_ITEMS} 条` }])
+  }
+  if (link) {
+    lines.push([{ tag: "a", text: "在地图中查看", href: link }])
+  }
+
+  return {
+    msg_type: "post",
+    content: {
+      post: {
+        zh_cn: { title, content: lines },
+      },
+    },
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * =====================================================
+ * 价格解析 (lib/price.ts)
+ * =====================================================
+ *
+ * "折扣/价格" 是巡店人员手填的自由文本，例如:
+ * - "原价19.9，促销15.9"
+ * - "12.5元/袋"
+ * - "500g 8.5折 买二送一"
+ * 这里把它解析为原价、促销价、折扣率、规格/单位和促销方式，并提供价格统计
+ * =====================================================
+ */
+
+/**
+ * 解析后的价格信息（无法识别的项为 null）
+ */
+export interface ParsedPrice {
+  listPrice: number | null // 原价（元）
+  promoPrice: number | null // 促销价/到手价（元）
+  discountRate: number | null // 折扣率 0~1，8.5折 = 0.85
+  unit: string | null // 规格/单位，如 "500g/袋"
+  promoType: string | null // 促销方式，如 "买二送一"、"第二件半价"、"满50减10"
+}
+
+const NUM = "(\\d+(?:\\.\\d+)?)"
+const LIST_PRICE_RE = new RegExp(`(?:原价|零售价|标价|吊牌价|建议零售价|日常价)[:：\\s]*[¥￥]?\\s*${NUM}`)
+const PROMO_PRICE_RE = new RegExp(`(?:促销价?|活动价|特价|折后价?|到手价?|现价|惊爆价|会员价)[:：\\s]*[¥￥]?\\s*${NUM}`)
+const DISCOUNT_RE = new RegExp(`${NUM}\\s*折`)
+const SPEC_RE = /\d+(?:\.\d+)?\s*(?:kg|g|ml|l|千克|公斤|克|毫升|升|斤)(?:\s*[*×xX]\s*\d+)?/i
+const PER_UNIT_RE = /\/\s*(袋|瓶|包|盒|箱|桶|块|件|支|提)/
+
+// 促销方式，按顺序匹配第一个（"特价"另外处理，见 parsePrice）
+const PROMO_PATTERNS: Array<[RegExp, (m: RegExpMatchArray) => string]> = [
+  [/买\s*([一二三四五\d]+)\s*[送赠]\s*([一二三四五\d]+)/, (m) => `买${m[1]}送${m[2]}`],
+  [/第二件\s*(半价|[\d.]+\s*折|[\d.]+\s*元)/, (m) => `第二件${m[1].replace(/\s+/g, "")}`],
+  [/满\s*(\d+)\s*减\s*(\d+)/, (m) => `满${m[1]}减${m[2]}`],
+  [/加量不加价/, () => "加量不加价"],
+  [/[赠送]品|[赠送][^\d，,。；;]{1,8}/, () => "赠品"],
+]
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+/**
+ * 解析折扣/价格文本
+ */
+export function parsePrice(text: string | null | undefined): ParsedPrice {
+  const result: ParsedPrice = { listPrice: null, promoPrice: null, discountRate: null, unit: null, promoType: null }
+  const raw = (text || "").trim()
+  if (!raw) return result
+
+  // 已识别的片段从文本中去掉，剩下的数字才当作未标注的价格
+  let rest = raw
+  const take = (re: RegExp): RegExpMatchArray | null => {
+    const m = rest.match(re)
+    if (m) rest = rest.replace(m[0], " ")
+    return m
+  }
+
+  const list = take(LIST_PRICE_RE)
+  if (list) result.listPrice = parseFloat(list[1])
+  const promo = take(PROMO_PRICE_RE)
+  if (promo) result.promoPrice = parseFloat(promo[1])
+
+  for (const [re, format] of PROMO_PATTERNS) {
+    const m = take(re)
+    if (m) {
+      result.promoType = format(m)
+      break
+    }
+  }
+  // "特价9.9" 中的特价已作为促销价标签取走，这里按原文补上促销方式
+  if (!result.promoType && /特价/.test(raw)) result.promoType = "特价"
+
+  const discount = take(DISCOUNT_RE)
+  if (discount) {
+    const n = parseFloat(discount[1])
+    // 8.5折 / 85折 都表示 0.85
+    const rate = n < 10 ? n / 10 : n / 100
+    if (rate > 0 && rate < 1) result.discountRate = round2(rate)
+  }
+
+  const spec = take(SPEC_RE)
+  const perUnit = take(PER_UNIT_RE)
+  const unitParts = [spec?.[0].replace(/\s+/g, ""), perUnit?.[1]].filter(Boolean)
+  if (unitParts.length) result.unit = unitParts.join("/")
+
+  // 未标注的价格: 只有一个时视为售价，两个以上时最大的是原价、最小的是促销价
+  const numbers = (rest.match(/\d+(?:\.\d+)?/g) || []).map(parseFloat).filter((n) => n > 0)
+  if (numbers.length && result.listPrice === null && result.promoPrice === null) {
+    if (numbers.length === 1) {
+      result.listPrice = numbers[0]
+    } else {
+      const max = Math.max(...numbers)
+      const min = Math.min(...numbers)
+      result.listPrice = max
+      if (min < max) result.promoPrice = min
+    }
+  } else if (numbers.length && result.promoPrice === null && result.listPrice !== null) {
+    const lower = numbers.filter((n) => n < result.listPrice!)
+    if (lower.length) result.promoPrice = Math.max(...lower)
+  }
+
+  // 互相推算缺失的一项
+  if (result.listPrice !== null && result.promoPrice === null && result.discountRate !== null) {
+    result.promoPrice = round2(result.listPrice * result.discountRate)
+  }
+  if (result.listPrice !== null && result.promoPrice !== null && result.discountRate === null && result.promoPrice < result.listPrice) {
+    result.discountRate = round2(result.promoPrice / result.listPrice)
+  }
+
+  return result
+}
+
+/**
+ * 实际成交价: 有促销价取促销价，否则取原价
+ */
+export function effectivePrice(price: ParsedPrice): number | null {
+  return price.promoPrice ?? price.listPrice
+}
+
+/**
+ * 把解析结果格式化为简短的说明，如 "原价¥19.9 · 促销¥15.9 · 8折 · 500g/袋 · 买二送一"
+ */
+export function describePrice(price: ParsedPrice): string {
+  return [
+    price.listPrice !== null ? `原价¥${price.listPrice}` : "",
+    price.promoPrice !== null ? `促销¥${price.promoPrice}` : "",
+    price.discountRate !== null ? `${round2(price.discountRate * 10)}折` : "",
+    price.unit || "",
+    price.promoType || "",
+  ]
+    .filter(Boolean)
+    .join(" · ")
+}
+
+/**
+ * 一组价格的统计
+ */
+export interface PriceStat {
+  name: string // 产品名或省区名
+  count: number // 有价格的记录数
+  min: number
+  median: number
+  max: number
+}
+
+/**
+ * 按某个维度分组统计实际成交价的最小值/中位数/最大值（按记录数从多到少排列）
+ *
+ * @param items - 记录（price 为 transformRecord 解析好的价格）
+ * @param keyOf - 分组依据，如产品名、省区
+ */
+export function summarizePrices<T extends { price: ParsedPrice }>(items: T[], keyOf: (item: T) => string): PriceStat[] {
+  const groups = new Map<string, number[]>()
+  for (const item of items) {
+    const price = effectivePrice(item.price)
+    if (price === null) continue
+    const key = keyOf(item) || "未知"
+    const list = groups.get(key)
+    if (list) list.push(price)
+    else groups.set(key, [price])
+  }
+
+  return [...groups.entries()]
+    .map(([name, prices]) => {
+      prices.sort((a, b) => a - b)
+      const mid = Math.floor(prices.length / 2)
+      const median = prices.length % 2 ? prices[mid] : (prices[mid - 1] + prices[mid]) / 2
+      return { name, count: prices.length, min: prices[0], median: round2(median), max: prices[prices.length - 1] }
+    })
+    .sort((a, b) => b.count - a.count)
+}
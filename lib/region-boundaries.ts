@@ -0,0 +1,174 @@
+/**
+ * =====================================================
+ * 行政区边界 (lib/region-boundaries.ts)
+ * =====================================================
+ *
+ * 省/市边界通过 AMap.DistrictSearch 查询，数据量大且几乎不变
+ * 查询一次后保存在内存和浏览器 Cache Storage 中，刷新页面也不再逐个省份重新查询
+ *
+ * 仅在浏览器中使用（依赖已加载的 AMap）
+ * =====================================================
+ */
+
+import type { Bounds } from "@/lib/map-tiles"
+
+// 一个闭合环: [[经度, 纬度], ...]
+export type Ring = Array<[number, number]>
+
+export interface RegionBoundary {
+  adcode: string
+  name: string
+  center: [number, number]
+  rings: Ring[] // 可能由多块组成（如含岛屿的省份）
+  bounds: Bounds
+}
+
+// 数据结构变化时修改版本号，旧缓存自动失效
+const CACHE_NAME = "region-boundaries-v1"
+
+// 坐标保留的小数位（约 10 米精度），减小缓存体积
+const COORD_DIGITS = 4
+
+// 同一页面内共享查询结果（包括进行中的查询）
+const memory = new Map<string, Promise<RegionBoundary[]>>()
+
+function searchDistrict(AMap: any, keyword: string, options: Record<string, any>): Promise<any | null> {
+  return new Promise((resolve) => {
+    new AMap.DistrictSearch(options).search(keyword, (status: string, result: any) => {
+      resolve(status === "complete" ? result?.districtList?.[0] || null : null)
+    })
+  })
+}
+
+function toRings(boundaries: any[]): Ring[] {
+  const round = (n: number) => Number(n.toFixed(COORD_DIGITS))
+  return (boundaries || []).map((ring: any[]) =>
+    ring.map((p: any): [number, number] => [round(p.lng ?? p[0]), round(p.lat ?? p[1])])
+  )
+}
+
+function ringsBounds(rings: Ring[]): Bounds {
+  const b: Bounds = [Infinity, Infinity, -Infinity, -Infinity]
+  for (const ring of rings) {
+    for (const [lng, lat] of ring) {
+      if (lng < b[0]) b[0] = lng
+      if (lat < b[1]) b[1] = lat
+      if (lng > b[2]) b[2] = lng
+      if (lat > b[3]) b[3] = lat
+    }
+  }
+  return b
+}
+
+/**
+ * 查询下一级行政区及其边界
+ * 下级列表里不带边界，需要按 adcode 逐个查询
+ */
+async function fetchChildren(AMap: any, parent: string): Promise<RegionBoundary[]> {
+  const district = await searchDistrict(AMap, parent, { subdistrict: 1, extensions: "base" })
+  const children: any[] = district?.districtList || []
+
+  const results = await Promise.all(
+    children.map(async (child): Promise<RegionBoundary | null> => {
+      const detail = await searchDistrict(AMap, child.adcode, { subdistrict: 0, extensions: "all" })
+      const rings = toRings(detail?.boundaries || [])
+      if (!rings.length) return null
+      return {
+        adcode: String(child.adcode),
+        name: child.name,
+        center: [child.center?.lng ?? 0, child.center?.lat ?? 0],
+        rings,
+        bounds: ringsBounds(rings),
+      }
+    })
+  )
+  return results.filter((r): r is RegionBoundary => r !== null)
+}
+
+async function readCache(key: string): Promise<RegionBoundary[] | null> {
+  if (typeof caches === "undefined") return null
+  try {
+    const cache = await caches.open(CACHE_NAME)
+    const res = await cache.match(`/__region-boundaries/${key}`)
+    return res ? await res.json() : null
+  } catch {
+    return null
+  }
+}
+
+async function writeCache(key: string, regions: RegionBoundary[]): Promise<void> {
+  if (typeof caches === "undefined") return
+  try {
+    const cache = await caches.open(CACHE_NAME)
+    await cache.put(
+      `/__region-boundaries/${key}`,
+      new Response(JSON.stringify(regions), { headers: { "Content-Type": "application/json" } })
+    )
+  } catch (error) {
+    console.warn("行政区边界缓存写入失败:", error)
+  }
+}
+
+function load(AMap: any, key: string, parent: string): Promise<RegionBoundary[]> {
+  let pending = memory.get(key)
+  if (!pending) {
+    pending = (async () => {
+      const cached = await readCache(key)
+      if (cached?.length) return cached
+
+      const fresh = await fetchChildren(AMap, parent)
+      if (fresh.length) await writeCache(key, fresh)
+      return fresh
+    })()
+    memory.set(key, pending)
+    // 查询失败（结果为空）时不保留，下次重新查询
+    pending.then((regions) => {
+      if (!regions.length) memory.delete(key)
+    })
+  }
+  return pending
+}
+
+/**
+ * 全国各省边界
+ */
+export function loadProvinceBoundaries(AMap: any): Promise<RegionBoundary[]> {
+  return load(AMap, "provinces", "中国")
+}
+
+/**
+ * 某个省下各市边界
+ */
+export function loadCityBoundaries(AMap: any, provinceAdcode: string): Promise<RegionBoundary[]> {
+  return load(AMap, `cities-${provinceAdcode}`, provinceAdcode)
+}
+
+/**
+ * 射线法判断点是否在多个环内（奇偶规则，环内的洞自然被排除）
+ */
+function pointInRings([lng, lat]: [number, number], rings: Ring[]): boolean {
+  let inside = false
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i]
+      const [xj, yj] = ring[j]
+      if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+        inside = !inside
+      }
+    }
+  }
+  return inside
+}
+
+/**
+ * 找到包含该点的行政区
+ */
+export function findRegion(point: [number, number], regions: RegionBoundary[]): RegionBoundary | null {
+  const [lng, lat] = point
+  for (const region of regions) {
+    const [w, s, e, n] = region.bounds
+    if (lng < w || lng > e || lat < s || lat > n) continue
+    if (pointInRings(point, region.rings)) return region
+  }
+  return null
+}
@@ -0,0 +1,107 @@
+/**
+ * =====================================================
+ * 保存的范围 (lib/saved-shapes.ts)
+ * =====================================================
+ *
+ * 地图上画出的范围（见 lib/shapes.ts）可以命名保存，之后在筛选菜单中直接选用
+ * 保存在 SAVED_SHAPES_FILE（默认 data/saved-shapes.json），所有用户都能看到和选用
+ * 保存和删除需要登录: 范围记录保存人，同一个人保存同名的范围会覆盖，只有保存人能删除
+ * =====================================================
+ */
+
+import { randomUUID } from "crypto"
+import { z } from "zod"
+import type { FeishuUser } from "@/lib/feishu/user-auth"
+import { readJsonFile, updateJsonFile } from "@/lib/json-store"
+import { type MapShape, mapShapeSchema } from "@/lib/shapes"
+
+// 最多保存的范围数
+export const MAX_SAVED_SHAPES = 200
+
+/**
+ * 保存的范围已达上限（调用方应返回 400）
+ */
+export class SavedShapeLimitError extends Error {
+  constructor() {
+    super(`最多保存 ${MAX_SAVED_SHAPES} 个范围`)
+    this.name = "SavedShapeLimitError"
+  }
+}
+
+/**
+ * 删除别人保存的范围（调用方应返回 403）
+ */
+export class SavedShapeOwnerError extends Error {
+  constructor() {
+    super("只能删除自己保存的范围")
+    this.name = "SavedShapeOwnerError"
+  }
+}
+
+export interface SavedShape {
+  id: string
+  name: string
+  shape: MapShape
+  ownerId?: string // 保存人的飞书 open_id（旧版本保存的范围没有，登录用户都可以删除）
+  ownerName?: string
+  createdAt: string // ISO 时间
+}
+
+export const savedShapeInputSchema = z.object({
+  name: z.string({ required_error: "请填写名称" }).trim().min(1, "请填写名称").max(50, "名称不能超过 50 个字"),
+  shape: mapShapeSchema,
+})
+
+export type SavedShapeInput = z.infer<typeof savedShapeInputSchema>
+
+function shapesFile(): string {
+  return process.env.SAVED_SHAPES_FILE || "data/saved-shapes.json"
+}
+
+/**
+ * 全部保存的范围（按名称排序）
+ */
+export async function listSavedShapes(): Promise<SavedShape[]> {
+  const shapes = await readJsonFile<SavedShape[]>(shapesFile(), [])
+  return [...shapes].sort((a, b) => a.name.localeCompare(b.name, "zh-CN"))
+}
+
+/**
+ * 保存范围（同一个人保存同名的范围时覆盖）
+ *
+ * @throws SavedShapeLimitError 超过 MAX_SAVED_SHAPES 时
+ */
+export async function saveShape(owner: FeishuUser, input: SavedShapeInput): Promise<SavedShape> {
+  const saved: SavedShape = {
+    id: randomUUID(),
+    name: input.name,
+    shape: input.shape as MapShape,
+    ownerId: owner.openId,
+    ownerName: owner.name,
+    createdAt: new Date().toISOString(),
+  }
+  await updateJsonFile<SavedShape[]>(shapesFile(), [], (shapes) => {
+    const rest = shapes.filter((s) => !(s.ownerId === owner.openId && s.name === input.name))
+    if (rest.length >= MAX_SAVED_SHAPES) throw new SavedShapeLimitError()
+    return [...rest, saved]
+  })
+  return saved
+}
+
+/**
+ * 删除范围（只能删除自己保存的）
+ *
+ * @returns 找不到时返回 false
+ * @throws SavedShapeOwnerError 范围是别人保存的
+ */
+export async function deleteSavedShape(openId: string, id: string): Promise<boolean> {
+  let found = false
+  await updateJsonFile<SavedShape[]>(shapesFile(), [], (shapes) => {
+    const shape = shapes.find((s) => s.id === id)
+    if (!shape) return shapes
+    if (shape.ownerId && shape.ownerId !== openId) throw new SavedShapeOwnerError()
+    found = true
+    return shapes.filter((s) => s.id !== id)
+  })
+  return found
+}
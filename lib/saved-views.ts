@@ -0,0 +1,167 @@
+/**
+ * =====================================================
+ * 常用视图 (lib/saved-views.ts)
+ * =====================================================
+ *
+ * 每个飞书用户（按 open_id，见 lib/session.ts）可以把当前的筛选条件、搜索词、地图视野和图层开关
+ * 命名保存，之后在筛选菜单中一键切换；可以把其中一个设为默认视图，不带参数打开地图时自动使用
+ *
+ * 保存在 SAVED_VIEWS_FILE（默认 data/saved-views.json），内容为 { [openId]: SavedView[] }
+ * 同一用户同名的视图会被覆盖
+ * =====================================================
+ */
+
+import { randomUUID } from "crypto"
+import { z } from "zod"
+import { readJsonFile, updateJsonFile } from "@/lib/json-store"
+import { type MapFilterState, MAX_MAP_ZOOM, MIN_MAP_ZOOM } from "@/lib/map-url"
+import { type MapShape, mapShapeSchema } from "@/lib/shapes"
+
+// 每个用户最多保存的视图数
+export const MAX_SAVED_VIEWS = 50
+
+export type MapDisplayMode = "markers" | "heatmap" | "choropleth"
+
+/**
+ * 视图内容: 筛选条件（与页面链接相同）+ 视野 + 图层
+ */
+export interface SavedViewState extends MapFilterState {
+  zoom: number | null
+  center: [number, number] | null
+  mapMode: MapDisplayMode // 显示方式
+  showOwnStores: boolean // 自有门店图层
+}
+
+/**
+ * 保存的视图已达上限（调用方应返回 400）
+ */
+export class SavedViewLimitError extends Error {
+  constructor() {
+    super(`最多保存 ${MAX_SAVED_VIEWS} 个视图`)
+    this.name = "SavedViewLimitError"
+  }
+}
+
+export interface SavedView {
+  id: string
+  name: string
+  state: SavedViewState
+  isDefault: boolean
+  createdAt: string // ISO 时间
+  updatedAt: string
+}
+
+const dateSchema = z.union([z.literal(""), z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "日期格式应为 YYYY-MM-DD")])
+
+const savedViewStateSchema = z.object({
+  regions: z.array(z.string()).max(50).default([]),
+  brands: z.array(z.string()).max(50).default([]),
+  sources: z.array(z.string()).max(50).default([]),
+  q: z.string().max(100).default(""),
+  from: dateSchema.default(""),
+  to: dateSchema.default(""),
+  shape: mapShapeSchema.nullable().default(null),
+  zoom: z.number().min(MIN_MAP_ZOOM).max(MAX_MAP_ZOOM).nullable().default(null),
+  center: z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]).nullable().default(null),
+  mapMode: z.enum(["markers", "heatmap", "choropleth"]).default("markers"),
+  showOwnStores: z.boolean().default(true),
+})
+
+export const savedViewInputSchema = z.object({
+  name: z.string({ required_error: "请填写名称" }).trim().min(1, "请填写名称").max(30, "名称不能超过 30 个字"),
+  state: savedViewStateSchema,
+  isDefault: z.boolean().default(false),
+})
+
+export const savedViewPatchSchema = z.object({
+  isDefault: z.boolean({ required_error: "缺少 isDefault" }),
+})
+
+export type SavedViewInput = z.infer<typeof savedViewInputSchema>
+
+type ViewFile = Record<string, SavedView[]>
+
+function viewsFile(): string {
+  return process.env.SAVED_VIEWS_FILE || "data/saved-views.json"
+}
+
+/**
+ * 设为默认时取消同一用户其他视图的默认
+ */
+function withDefault(views: SavedView[], defaultId: string | null): SavedView[] {
+  return views.map((v) => (v.isDefault === (v.id === defaultId) ? v : { ...v, isDefault: v.id === defaultId }))
+}
+
+/**
+ * 某个用户的全部视图（按名称排序）
+ */
+export async function listSavedViews(openId: string): Promise<SavedView[]> {
+  const file = await readJsonFile<ViewFile>(viewsFile(), {})
+  return [...(file[openId] || [])].sort((a, b) => a.name.localeCompare(b.name, "zh-CN"))
+}
+
+/**
+ * 保存视图（同名时覆盖，保留原来的 id）
+ *
+ * @throws SavedViewLimitError 超过 MAX_SAVED_VIEWS 时
+ */
+export async function saveView(openId: string, input: SavedViewInput): Promise<SavedView> {
+  const now = new Date().toISOString()
+  let saved: SavedView | null = null
+
+  await updateJsonFile<ViewFile>(viewsFile(), {}, (file) => {
+    const views = file[openId] || []
+    const existing = views.find((v) => v.name === input.name)
+    if (!existing && views.length >= MAX_SAVED_VIEWS) throw new SavedViewLimitError()
+
+    saved = {
+      id: existing?.id || randomUUID(),
+      name: input.name,
+      state: { ...input.state, shape: input.state.shape as MapShape | null },
+      isDefault: input.isDefault || (existing?.isDefault ?? false),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    }
+    const next = [...views.filter((v) => v !== existing), saved]
+    return { ...file, [openId]: saved.isDefault ? withDefault(next, saved.id) : next }
+  })
+
+  return saved!
+}
+
+/**
+ * 设为默认 / 取消默认
+ *
+ * @returns 找不到时返回 null
+ */
+export async function setDefaultView(openId: string, id: string, isDefault: boolean): Promise<SavedView | null> {
+  let updated: SavedView | null = null
+
+  await updateJsonFile<ViewFile>(viewsFile(), {}, (file) => {
+    const views = file[openId] || []
+    const target = views.find((v) => v.id === id)
+    if (!target) return file
+
+    const current = views.find((v) => v.isDefault)?.id || null
+    const next = withDefault(views, isDefault ? id : current === id ? null : current)
+    updated = next.find((v) => v.id === id) || null
+    return { ...file, [openId]: next }
+  })
+
+  return updated
+}
+
+/**
+ * 删除视图
+ *
+ * @returns 找不到时返回 false
+ */
+export async function deleteSavedView(openId: string, id: string): Promise<boolean> {
+  let found = false
+  await updateJsonFile<ViewFile>(viewsFile(), {}, (file) => {
+    const views = file[openId] || []
+    found = views.some((v) => v.id === id)
+    return found ? { ...file, [openId]: views.filter((v) => v.id !== id) } : file
+  })
+  return found
+}
@@ -0,0 +1,90 @@
+/**
+ * =====================================================
+ * 登录状态 (lib/session.ts)
+ * =====================================================
+ *
+ * 飞书用户登录后（见 lib/feishu/user-auth.ts），身份保存在 HttpOnly Cookie 中:
+ * 内容为 base64url(JSON { openId, name, exp }) + "." + HMAC-SHA256 签名，服务端不保存会话
+ * 签名密钥为 SESSION_SECRET，未配置时使用 FEISHU_APP_SECRET；两者都没有时不支持登录
+ *
+ * 生产环境的 Cookie 为 SameSite=None，别的网站提交的表单也会带上；
+ * 为防止跨站请求伪造，GET 以外的请求来源（Origin）不是本站时按未登录处理
+ * =====================================================
+ */
+
+import { createHmac, timingSafeEqual } from "crypto"
+import type { FeishuUser } from "@/lib/feishu/user-auth"
+
+export const SESSION_COOKIE = "map_session"
+
+// 登录有效期（秒）
+export const SESSION_MAX_AGE = 30 * 24 * 60 * 60
+
+function sessionSecret(): string {
+  return process.env.SESSION_SECRET || process.env.FEISHU_APP_SECRET || ""
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url")
+}
+
+/**
+ * 生成 Set-Cookie 头的值
+ *
+ * @throws 没有签名密钥时抛出错误
+ */
+export function createSessionCookie(user: FeishuUser): string {
+  const secret = sessionSecret()
+  if (!secret) throw new Error("缺少环境变量: SESSION_SECRET 或 FEISHU_APP_SECRET")
+
+  const payload = Buffer.from(
+    JSON.stringify({ openId: user.openId, name: user.name, exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE })
+  ).toString("base64url")
+  // 飞书客户端内嵌网页按第三方上下文处理 Cookie，需要 SameSite=None; Secure（本地 http 调试时不加 Secure）
+  const secure = process.env.NODE_ENV === "production" ? "; SameSite=None; Secure" : "; SameSite=Lax"
+  return `${SESSION_COOKIE}=${payload}.${sign(payload, secret)}; Path=/; Max-Age=${SESSION_MAX_AGE}; HttpOnly${secure}`
+}
+
+/**
+ * GET 以外的请求是否来自别的网站
+ * 浏览器对这类请求都会带上 Origin；没有 Origin 时（非浏览器调用）再看 Sec-Fetch-Site
+ */
+function isCrossSiteRequest(request: Request): boolean {
+  if (request.method === "GET" || request.method === "HEAD") return false
+
+  const origin = request.headers.get("origin")
+  if (!origin) return request.headers.get("sec-fetch-site") === "cross-site"
+  const host = request.headers.get("x-forwarded-host") || request.headers.get("host")
+  try {
+    return new URL(origin).host !== host
+  } catch {
+    return true // Origin 为 "null" 等无法解析的值
+  }
+}
+
+/**
+ * 读取请求中的登录用户，未登录、签名不对、已过期或跨站请求时返回 null
+ */
+export function getSessionUser(request: Request): FeishuUser | null {
+  const secret = sessionSecret()
+  if (!secret || isCrossSiteRequest(request)) return null
+
+  const cookie = (request.headers.get("cookie") || "")
+    .split(";")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${SESSION_COOKIE}=`))
+  if (!cookie) return null
+
+  const [payload, signature = ""] = cookie.slice(SESSION_COOKIE.length + 1).split(".")
+  const expected = Buffer.from(sign(payload, secret))
+  const actual = Buffer.from(signature)
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null
+
+  try {
+    const data = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"))
+    if (typeof data?.openId !== "string" || !data.openId || !(data.exp > Date.now() / 1000)) return null
+    return { openId: data.openId, name: typeof data.name === "string" ? data.name : "" }
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * =====================================================
+ * 地图上画出的范围 (lib/shapes.ts)
+ * =====================================================
+ *
+ * 在地图上画圆、多边形或矩形，只看范围内的记录（"经销商 3 公里内"、"某个商圈内"）
+ * 坐标均为 GCJ-02 [经度, 纬度]，圆的半径单位为米
+ *
+ * 查询参数 shape（/api/customer-data 和页面链接共用）:
+ * - 圆: circle:经度,纬度,半径
+ * - 矩形: rect:西经度,南纬度,东经度,北纬度
+ * - 多边形: poly:经度,纬度;经度,纬度;...（至少 3 个顶点）
+ *
+ * 本文件不依赖 Node.js 模块，前端和服务端共用；保存的范围见 lib/saved-shapes.ts
+ * =====================================================
+ */
+
+import { z } from "zod"
+import { distanceMeters } from "@/lib/coords"
+
+type LngLat = [number, number]
+
+export type MapShape =
+  | { type: "circle"; center: LngLat; radius: number }
+  | { type: "rectangle"; bounds: [number, number, number, number] } // [西, 南, 东, 北]
+  | { type: "polygon"; path: LngLat[] }
+
+// 多边形最多顶点数（限制链接长度）
+export const MAX_POLYGON_POINTS = 100
+
+// 圆的最大半径（米）
+export const MAX_CIRCLE_RADIUS_M = 200000
+
+const lngLatSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)])
+
+export const mapShapeSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("circle"),
+    center: lngLatSchema,
+    radius: z.number().positive("半径必须大于 0").max(MAX_CIRCLE_RADIUS_M, `半径不能超过 ${MAX_CIRCLE_RADIUS_M / 1000} 公里`),
+  }),
+  z.object({
+    type: z.literal("rectangle"),
+    bounds: z
+      .tuple([
+        z.number().min(-180).max(180),
+        z.number().min(-90).max(90),
+        z.number().min(-180).max(180),
+        z.number().min(-90).max(90),
+      ])
+      .refine(([w, s, e, n]) => w < e && s < n, "矩形范围无效"),
+  }),
+  z.object({
+    type: z.literal("polygon"),
+    path: z.array(lngLatSchema).min(3, "多边形至少需要 3 个顶点").max(MAX_POLYGON_POINTS, `多边形最多 ${MAX_POLYGON_POINTS} 个顶点`),
+  }),
+])
+
+const round = (n: number) => Math.round(n * 1e6) / 1e6
+
+/**
+ * 范围 -> 查询参数
+ */
+export function encodeShape(shape: MapShape): string {
+  switch (shape.type) {
+    case "circle":
+      return `circle:${[...shape.center.map(round), Math.round(shape.radius)].join(",")}`
+    case "rectangle":
+      return `rect:${shape.bounds.map(round).join(",")}`
+    case "polygon":
+      return `poly:${shape.path.map((p) => p.map(round).join(",")).join(";")}`
+  }
+}
+
+/**
+ * 查询参数 -> 范围
+ *
+ * @returns 格式不正确时返回 null
+ */
+export function parseShape(value: string | null): MapShape | null {
+  if (!value) return null
+  const [kind, body = ""] = value.split(":", 2)
+  const numbers = (text: string) => text.split(",").map((v) => (v.trim() ? Number(v) : NaN))
+
+  let shape: unknown = null
+  if (kind === "circle") {
+    const [lng, lat, radius] = numbers(body)
+    shape = { type: "circle", center: [lng, lat], radius }
+  } else if (kind === "rect") {
+    shape = { type: "rectangle", bounds: numbers(body) }
+  } else if (kind === "poly") {
+    shape = { type: "polygon", path: body.split(";").map(numbers) }
+  }
+
+  const result = mapShapeSchema.safeParse(shape)
+  return result.success ? (result.data as MapShape) : null
+}
+
+/**
+ * 点是否在多边形内（射线法）
+ */
+function inPolygon([x, y]: LngLat, path: LngLat[]): boolean {
+  let inside = false
+  for (let i = 0, j = path.length - 1; i < path.length; j = i++) {
+    const [xi, yi] = path[i]
+    const [xj, yj] = path[j]
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside
+  }
+  return inside
+}
+
+/**
+ * 点是否在范围内
+ */
+export function shapeContains(shape: MapShape, point: LngLat): boolean {
+  switch (shape.type) {
+    case "circle":
+      return distanceMeters(shape.center, point) <= shape.radius
+    case "rectangle": {
+      const [w, s, e, n] = shape.bounds
+      return point[0] >= w && point[0] <= e && point[1] >= s && point[1] <= n
+    }
+    case "polygon":
+      return inPolygon(point, shape.path)
+  }
+}
+
+/**
+ * 范围的文字说明（筛选菜单、推送卡片、AI 分析使用）
+ */
+export function describeShape(shape: MapShape): string {
+  switch (shape.type) {
+    case "circle": {
+      const km = shape.radius / 1000
+      return `圆形，半径 ${km >= 1 ? `${Math.round(km * 10) / 10} 公里` : `${Math.round(shape.radius)} 米`}`
+    }
+    case "rectangle":
+      return "矩形范围"
+    case "polygon":
+      return `多边形（${shape.path.length} 个顶点）`
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * =====================================================
+ * 门店归并 (lib/stores.ts)
+ * =====================================================
+ *
+ * 多维表格中每一行是一次巡店记录，同一门店巡店多次就有多行
+ * 这里把"规范化后的门店名称相同、坐标相距不超过 STORE_MATCH_RADIUS_M 米"的记录归为同一门店，
+ * 给每条记录打上 storeId，地图上一个门店只显示一个图钉
+ * =====================================================
+ */
+
+import { createHash } from "crypto"
+import { distanceMeters } from "@/lib/coords"
+import type { CustomerRecord } from "@/lib/feishu/transform"
+
+// 同名记录相距多少米以内视为同一门店
+export const STORE_MATCH_RADIUS_M = 150
+
+/**
+ * 规范化门店名称: 全角转半角、转小写，只保留字母、数字和汉字
+ * "永辉超市（万达店）" 与 "永辉超市(万达 店)" 规范化后相同
+ */
+export function normalizeStoreName(name: string): string {
+  return (name || "")
+    .replace(/[！-～]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - 0xfee0))
+    .toLowerCase()
+    .replace(/[^0-9a-z\u4e00-\u9fa5]/g, "")
+}
+
+/**
+ * 按记录日期（没有日期的排最后）、再按 id 排序
+ */
+export function compareVisits(a: CustomerRecord, b: CustomerRecord): number {
+  const da = a.record_date || "9999-99-99"
+  const db = b.record_date || "9999-99-99"
+  if (da !== db) return da < db ? -1 : 1
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+}
+
+/**
+ * 把记录归并为门店
+ *
+ * 同名记录按时间先后处理，每个门店以最早一次巡店的坐标为准，
+ * 后续记录落在该坐标 STORE_MATCH_RADIUS_M 米内即归入该门店
+ *
+ * @returns storeId -> 该门店的巡店记录（按时间先后排列）
+ */
+export function groupStores(customers: CustomerRecord[]): Map<string, CustomerRecord[]> {
+  const byName = new Map<string, CustomerRecord[]>()
+  for (const c of customers) {
+    const key = normalizeStoreName(c.name)
+    const list = byName.get(key)
+    if (list) list.push(c)
+    else byName.set(key, [c])
+  }
+
+  const stores = new Map<string, CustomerRecord[]>()
+  for (const [name, records] of byName) {
+    const groups: CustomerRecord[][] = []
+    for (const record of [...records].sort(compareVisits)) {
+      const group = groups.find((g) => distanceMeters(g[0].coordinates, record.coordinates) <= STORE_MATCH_RADIUS_M)
+      if (group) group.push(record)
+      else groups.push([record])
+    }
+    for (const group of groups) {
+      const id = createHash("sha1").update(`${name}|${group[0].id}`).digest("hex").slice(0, 12)
+      stores.set(`st_${id}`, group)
+    }
+  }
+  return stores
+}
+
+/**
+ * 给每条记录打上所属门店的 storeId
+ */
+export function assignStoreIds(customers: CustomerRecord[]): void {
+  for (const [storeId, visits] of groupStores(customers)) {
+    for (const visit of visits) visit.storeId = storeId
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * =====================================================
+ * 本地飞书群机器人替身 (scripts/fake-feishu-bot.mjs)
+ * =====================================================
+ *
+ * 接收发往群机器人 Webhook 的消息并打印出来，用于本地测试推送
+ * 设置了 FEISHU_BOT_SECRET 时按飞书的规则校验签名，不通过则返回错误码 19021
+ * 配合 FEISHU_BOT_WEBHOOK=http://localhost:4020/hook 使用
+ *
+ * 用法: node scripts/fake-feishu-bot.mjs [端口]
+ * =====================================================
+ */
+
+import { createServer } from "node:http"
+import { createHmac } from "node:crypto"
+
+const port = Number(process.argv[2]) || 4020
+const secret = process.env.FEISHU_BOT_SECRET || ""
+
+createServer((req, res) => {
+  let raw = ""
+  req.on("data", (chunk) => (raw += chunk))
+  req.on("end", () => {
+    const body = raw ? JSON.parse(raw) : {}
+    const reply = (data) => {
+      res.writeHead(200, { "Content-Type": "application/json" })
+      res.end(JSON.stringify(data))
+    }
+
+    if (secret) {
+      const expected = createHmac("sha256", `${body.timestamp}\n${secret}`).update("").digest("base64")
+      if (body.sign !== expected) {
+        console.log("签名校验失败", { timestamp: body.timestamp, sign: body.sign })
+        return reply({ code: 19021, msg: "sign match fail or timestamp is not within one hour from current time" })
+      }
+    }
+
+    console.log(`[${new Date().toISOString()}] 收到 ${body.msg_type} 消息:`)
+    console.log(JSON.stringify(body.card || body.content, null, 2))
+    reply({ code: 0, msg: "success", data: {} })
+  })
+}).listen(port, () => {
+  console.log(`Fake Feishu bot webhook listening on http://localhost:${port}/hook`)
+})
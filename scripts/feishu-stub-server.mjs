@@ -0,0 +1,103 @@
+/**
+ * =====================================================
+ * 本地飞书开放平台替身 (scripts/feishu-stub-server.mjs)
+ * =====================================================
+ *
+ * 只实现地图用到的几个接口，数据来自 scripts/fixtures/bitable-records.json
+ * 数据表有单独的数据文件 scripts/fixtures/bitable-records.<table_id>.json 时使用该文件（测试多数据源）
+ * 新增/修改的记录只保存在内存中，重启后恢复
+ * 网页免登: 任意授权码都能登录，授权码 "u1" 对应用户 open_id "ou_u1"
+ * 配合 FEISHU_API_BASE=http://localhost:4010/open-apis 使用
+ *
+ * 用法: node scripts/feishu-stub-server.mjs [端口]
+ * =====================================================
+ */
+
+import { createServer } from "node:http"
+import { existsSync, readFileSync } from "node:fs"
+
+const port = Number(process.argv[2]) || 4010
+
+// table_id -> 该数据表的记录（首次访问时从数据文件读取）
+const tables = new Map()
+const recordsOf = (tableId) => {
+  if (!tables.has(tableId)) {
+    const own = new URL(`./fixtures/bitable-records.${tableId}.json`, import.meta.url)
+    const file = existsSync(own) ? own : new URL("./fixtures/bitable-records.json", import.meta.url)
+    tables.set(tableId, JSON.parse(readFileSync(file, "utf8")))
+  }
+  return tables.get(tableId)
+}
+
+const readBody = (req) =>
+  new Promise((resolve) => {
+    let body = ""
+    req.on("data", (chunk) => (body += chunk))
+    req.on("end", () => resolve(body ? JSON.parse(body) : {}))
+  })
+
+const send = (res, data) => {
+  res.writeHead(200, { "Content-Type": "application/json" })
+  res.end(JSON.stringify(data))
+}
+
+createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`)
+  const body = req.method === "GET" ? {} : await readBody(req)
+  console.log(req.method, url.pathname)
+  const records = recordsOf(url.pathname.match(/\/tables\/([^/]+)/)?.[1] || "")
+
+  if (url.pathname.endsWith("/auth/v3/tenant_access_token/internal")) {
+    return send(res, { code: 0, msg: "ok", tenant_access_token: "t-local", expire: 7200 })
+  }
+  if (url.pathname.endsWith("/auth/v3/app_access_token/internal")) {
+    return send(res, { code: 0, msg: "ok", app_access_token: "a-local", tenant_access_token: "t-local", expire: 7200 })
+  }
+  if (url.pathname.endsWith("/authen/v1/oidc/access_token")) {
+    return send(res, { code: 0, msg: "ok", data: { access_token: `u-${body.code}`, token_type: "Bearer", expires_in: 7200 } })
+  }
+  if (url.pathname.endsWith("/authen/v1/user_info")) {
+    const code = (req.headers.authorization || "").replace(/^Bearer u-/, "")
+    return send(res, { code: 0, msg: "ok", data: { open_id: `ou_${code}`, name: `测试用户 ${code}` } })
+  }
+  if (url.pathname.endsWith("/records/batch_get")) {
+    const wanted = new Set(body.record_ids || [])
+    return send(res, { code: 0, msg: "ok", data: { records: records.filter((r) => wanted.has(r.record_id)) } })
+  }
+  if (url.pathname.endsWith("/fields")) {
+    const names = [...new Set(records.flatMap((r) => Object.keys(r.fields)))]
+    return send(res, { code: 0, msg: "ok", data: { items: names.map((field_name) => ({ field_name })), has_more: false } })
+  }
+  if (url.pathname.endsWith("/records/batch_create")) {
+    const now = Date.now()
+    const created = (body.records || []).map((r, i) => ({
+      record_id: `recLocal${now}${i}`,
+      created_time: now,
+      last_modified_time: now,
+      fields: r.fields || {},
+    }))
+    records.push(...created)
+    return send(res, { code: 0, msg: "ok", data: { records: created } })
+  }
+  if (req.method === "POST" && url.pathname.endsWith("/records")) {
+    const now = Date.now()
+    const record = { record_id: `recLocal${now}`, created_time: now, last_modified_time: now, fields: body.fields || {} }
+    records.push(record)
+    return send(res, { code: 0, msg: "ok", data: { record } })
+  }
+  if (req.method === "PUT") {
+    const record = records.find((r) => url.pathname.endsWith(`/records/${r.record_id}`))
+    if (!record) return send(res, { code: 1254043, msg: "RecordIdNotFound" })
+    Object.assign(record.fields, body.fields || {})
+    record.last_modified_time = Date.now()
+    return send(res, { code: 0, msg: "ok", data: { record } })
+  }
+  if (url.pathname.endsWith("/records/search") || url.pathname.endsWith("/records")) {
+    return send(res, { code: 0, msg: "ok", data: { items: records, has_more: false, page_token: "", total: records.length } })
+  }
+
+  res.writeHead(404, { "Content-Type": "application/json" })
+  res.end(JSON.stringify({ code: 404, msg: `stub: ${url.pathname} 未实现` }))
+}).listen(port, () => {
+  console.log(`飞书替身服务已启动: http://localhost:${port}/open-apis`)
+})
@@ -0,0 +1,49 @@
+/**
+ * =====================================================
+ * 回放飞书事件 (scripts/replay-feishu-event.mjs)
+ * =====================================================
+ *
+ * 把录制好的事件 JSON 按飞书的方式（可选加密 + 签名）POST 到本地事件接口
+ * 签名和加密使用环境变量 FEISHU_ENCRYPT_KEY，与服务端保持一致即可
+ * 服务端拒绝过期和重复的事件，回放时把 event_id、create_time 换成新的
+ *
+ * 用法:
+ *   node scripts/replay-feishu-event.mjs [事件文件] [接口地址]
+ *   默认: scripts/fixtures/bitable-record-changed.json → http://localhost:3000/api/feishu/events
+ * =====================================================
+ */
+
+import { createCipheriv, createHash, randomBytes, randomUUID } from "node:crypto"
+import { readFileSync } from "node:fs"
+
+const file = process.argv[2] || new URL("./fixtures/bitable-record-changed.json", import.meta.url)
+const target = process.argv[3] || "http://localhost:3000/api/feishu/events"
+const encryptKey = process.env.FEISHU_ENCRYPT_KEY || ""
+
+const payload = JSON.parse(readFileSync(file, "utf8"))
+if (payload.header) {
+  payload.header.event_id = randomUUID()
+  payload.header.create_time = String(Date.now())
+  if (process.env.FEISHU_VERIFICATION_TOKEN) payload.header.token = process.env.FEISHU_VERIFICATION_TOKEN
+}
+
+let body = JSON.stringify(payload)
+const headers = { "Content-Type": "application/json" }
+
+if (encryptKey) {
+  // AES-256-CBC，key = sha256(encryptKey)，密文前拼接 16 字节 IV
+  const key = createHash("sha256").update(encryptKey).digest()
+  const iv = randomBytes(16)
+  const cipher = createCipheriv("aes-256-cbc", key, iv)
+  const encrypted = Buffer.concat([iv, cipher.update(body, "utf8"), cipher.final()]).toString("base64")
+  body = JSON.stringify({ encrypt: encrypted })
+
+  const timestamp = String(Math.floor(Date.now() / 1000))
+  const nonce = randomBytes(8).toString("hex")
+  headers["X-Lark-Request-Timestamp"] = timestamp
+  headers["X-Lark-Request-Nonce"] = nonce
+  headers["X-Lark-Signature"] = createHash("sha256").update(timestamp + nonce + encryptKey + body).digest("hex")
+}
+
+const res = await fetch(target, { method: "POST", headers, body })
+console.log(res.status, await res.text())